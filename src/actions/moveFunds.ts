@@ -0,0 +1,136 @@
+import { PublicKey } from "@solana/web3.js";
+import { connection } from "@/constant";
+import VaultService from "@/services/vaults";
+import WalletService from "@/services/wallet";
+import { formatAmount, parseAmount } from "@/services/instructions";
+import { getMintInfo } from "@/services/transfers";
+import { walletKeysConfigured } from "@/services/keys";
+import {
+  type Action,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@/core/types";
+
+/**
+ * Matches e.g. "move 1 SOL from savings to trading" or "send 5 <mint> from my trading vault to <address>".
+ */
+const movePattern =
+  /\b(?:move|send|transfer)\s+(\d+(?:\.\d+)?)\s+(sol|[1-9A-HJ-NP-Za-km-z]{32,44})\s+from\s+(?:(?:the|my)\s+)?([\w-]+)(?:\s+vault)?\s+to\s+(?:(?:the|my)\s+)?([\w-]+)(?:\s+vault)?/i;
+
+export const moveFundsAction: Action = {
+  name: "MOVE_FUNDS",
+  similes: ["TRANSFER", "SEND_FUNDS", "MOVE_BETWEEN_VAULTS"],
+  description:
+    "Move SOL or a token out of one of the user's vaults, to another vault or an address. Only use it when the user names the amount, the asset, the vault to move from and where to move to.",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    return (
+      walletKeysConfigured(runtime) && movePattern.test(message.content.text)
+    );
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ) => {
+    const match = message.content.text.match(movePattern);
+    if (!match) return;
+    const [, amountText, asset, from, to] = match;
+
+    const origin = { userId: message.userId, message: message.content.text };
+    const walletService = new WalletService(runtime, connection, origin);
+    const wallet = await walletService.getWallet(message.userId);
+    if (!wallet) {
+      await callback?.({
+        text: "You don't have a wallet yet. Create one with /wallet.",
+      });
+      return;
+    }
+
+    const vaultService = new VaultService(runtime, connection, origin);
+    let vaultIndex: number;
+    let destination: PublicKey;
+    let mint: PublicKey | undefined;
+    try {
+      vaultIndex = await vaultService.resolveVault(wallet, from);
+      destination =
+        to.length >= 32
+          ? new PublicKey(to)
+          : vaultService.getVaultAddress(
+              wallet,
+              await vaultService.resolveVault(wallet, to)
+            );
+      mint = asset.toLowerCase() === "sol" ? undefined : new PublicKey(asset);
+    } catch (error) {
+      await callback?.({
+        text: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const { decimals } = await getMintInfo(connection, mint);
+    const amount = parseAmount(amountText, decimals);
+    if (amount === null) {
+      await callback?.({
+        text: `${amountText} isn't a valid amount, it can have at most ${decimals} decimals.`,
+      });
+      return;
+    }
+
+    // Nothing is sent before the user has seen what the transfer does
+    const transfer = await vaultService.prepareTransfer(wallet, {
+      vaultIndex,
+      destination,
+      amount,
+      mint,
+    });
+    await callback?.({ text: transfer.preview.summary });
+    if (!transfer.preview.success) {
+      await callback?.({
+        text: "The transfer would fail, so I didn't send it.",
+      });
+      return;
+    }
+
+    // The agent picked the action from a chat message, so the user confirms it first
+    const description = `${formatAmount(amount, decimals)} ${mint ? asset : "SOL"} from ${from} to ${to}`;
+    const transferId = vaultService.holdTransfer(wallet, transfer, description);
+    await callback?.({
+      text: `Move ${description}? Confirm to send it.`,
+      confirmation: { transferId },
+    });
+  },
+  examples: [
+    [
+      {
+        user: "{{user1}}",
+        content: { text: "move 1 SOL from savings to trading" },
+      },
+      {
+        user: "{{user2}}",
+        content: {
+          text: "I'll set up moving 1 SOL from your savings vault to trading.",
+          action: "MOVE_FUNDS",
+        },
+      },
+    ],
+    [
+      {
+        user: "{{user1}}",
+        content: {
+          text: "send 0.5 sol from my trading vault to 9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM",
+        },
+      },
+      {
+        user: "{{user2}}",
+        content: {
+          text: "Sure, I'll set up sending 0.5 SOL from trading to that address.",
+          action: "MOVE_FUNDS",
+        },
+      },
+    ],
+  ],
+};
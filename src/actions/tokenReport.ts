@@ -0,0 +1,90 @@
+import { PublicKey } from "@solana/web3.js";
+import { connection } from "@/constant";
+import { cache } from "@/adapters/cache";
+import TokenReportGenerator from "@/providers/tokens";
+import { loadHolderScanner } from "@/services/holders";
+import { loadMarketDataProviders } from "@/services/marketData";
+import {
+  type Action,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@/core/types";
+
+const addressPattern = /[1-9A-HJ-NP-Za-km-z]{32,44}/g;
+
+/**
+ * Finds the first valid Solana address mentioned in a text.
+ */
+function findAddress(text: string): string | null {
+  for (const [candidate] of text.matchAll(addressPattern)) {
+    try {
+      new PublicKey(candidate);
+      return candidate;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+export const tokenReportAction: Action = {
+  name: "TOKEN_REPORT",
+  similes: ["CHECK_TOKEN", "ANALYZE_TOKEN", "TOKEN_INFO", "REPORT"],
+  description:
+    "Generate a report on a Solana token: a risk score, supply, Token-2022 extensions, top holders, price and markets. Only use it when the user shares a token mint address and wants to know about it.",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    return findAddress(message.content.text) !== null;
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: { [key: string]: unknown },
+    callback?: HandlerCallback
+  ) => {
+    const mint = findAddress(message.content.text);
+    if (!mint) return;
+
+    const generator = new TokenReportGenerator(mint, connection, cache, {
+      marketDataProviders: loadMarketDataProviders(runtime),
+      holderScanner: loadHolderScanner(runtime, connection, cache),
+    });
+    const report = await generator.generateReportString();
+
+    await callback?.({ text: report });
+  },
+  examples: [
+    [
+      {
+        user: "{{user1}}",
+        content: {
+          text: "can you check JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN for me?",
+        },
+      },
+      {
+        user: "{{user2}}",
+        content: {
+          text: "Sure, pulling up the holders and markets for that token now.",
+          action: "TOKEN_REPORT",
+        },
+      },
+    ],
+    [
+      {
+        user: "{{user1}}",
+        content: {
+          text: "what do you know about EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+        },
+      },
+      {
+        user: "{{user2}}",
+        content: {
+          text: "Let me look at who holds it and where it trades.",
+          action: "TOKEN_REPORT",
+        },
+      },
+    ],
+  ],
+};
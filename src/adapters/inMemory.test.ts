@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { InMemoryDatabaseAdapter } from "@/adapters/inMemory";
+import { MemoryManager } from "@/core/memory";
+import { stringToUuid } from "@/core/uuid";
+import type { IAgentRuntime, Memory } from "@/core/types";
+
+const roomId = stringToUuid("room");
+const otherRoomId = stringToUuid("other room");
+const userId = stringToUuid("user");
+
+/**
+ * Embeds text as a 3 dimensional vector, so similarities are easy to reason about.
+ */
+const embeddings: Record<string, number[]> = {
+  "I like cats": [1, 0, 0],
+  "I like kittens": [0.99, 0.1, 0],
+  "The vault holds SOL": [0, 1, 0],
+  "Stocks went up": [0, 0, 1],
+};
+
+function memory(text: string, overrides: Partial<Memory> = {}): Memory {
+  return {
+    id: stringToUuid(`${text}:${overrides.roomId ?? roomId}`),
+    userId,
+    roomId,
+    content: { text },
+    ...overrides,
+  };
+}
+
+describe("MemoryManager with the in-memory adapter", () => {
+  let adapter: InMemoryDatabaseAdapter;
+  let manager: MemoryManager;
+  let embedCalls: string[];
+
+  beforeEach(() => {
+    adapter = new InMemoryDatabaseAdapter();
+    embedCalls = [];
+    const runtime = {
+      databaseAdapter: adapter,
+      embed: async (text: string) => {
+        embedCalls.push(text);
+        return embeddings[text];
+      },
+    } as unknown as IAgentRuntime;
+    manager = new MemoryManager({ tableName: "messages", runtime });
+  });
+
+  async function create(text: string, overrides: Partial<Memory> = {}) {
+    const withEmbedding = await manager.addEmbeddingToMemory(
+      memory(text, overrides)
+    );
+    await manager.createMemory(withEmbedding, true);
+  }
+
+  test("creates memories and lists them newest first", async () => {
+    await create("I like cats", { createdAt: 1 });
+    await create("The vault holds SOL", { createdAt: 2 });
+    await create("Stocks went up", { roomId: otherRoomId, createdAt: 3 });
+
+    const memories = await manager.getMemories({ roomId, unique: false });
+    expect(memories.map((m) => m.content.text)).toEqual([
+      "The vault holds SOL",
+      "I like cats",
+    ]);
+    expect(await manager.countMemories(roomId, false)).toBe(2);
+  });
+
+  test("skips memories whose id already exists", async () => {
+    await create("I like cats");
+    await manager.createMemory(
+      { ...memory("I like cats"), content: { text: "changed" } },
+      false
+    );
+
+    const stored = await manager.getMemoryById(memory("I like cats").id!);
+    expect(stored?.content.text).toBe("I like cats");
+  });
+
+  test("searches by embedding within a room, most similar first", async () => {
+    await create("I like cats");
+    await create("The vault holds SOL");
+    await create("Stocks went up");
+    await create("I like kittens", { roomId: otherRoomId });
+
+    const results = await manager.searchMemoriesByEmbedding([1, 0.2, 0], {
+      roomId,
+      match_threshold: 0.5,
+    });
+    expect(results.map((m) => m.content.text)).toEqual(["I like cats"]);
+
+    const all = await manager.searchMemoriesByEmbedding([1, 1, 1], {
+      roomId,
+      match_threshold: 0,
+      count: 2,
+    });
+    expect(all).toHaveLength(2);
+  });
+
+  test("marks near duplicates as not unique", async () => {
+    await create("I like cats");
+    await create("I like kittens");
+    await create("The vault holds SOL");
+
+    expect(await manager.countMemories(roomId, false)).toBe(3);
+    expect(await manager.countMemories(roomId, true)).toBe(2);
+
+    const unique = await manager.searchMemoriesByEmbedding([1, 0, 0], {
+      roomId,
+      match_threshold: 0.5,
+      unique: true,
+    });
+    expect(unique.map((m) => m.content.text)).toEqual(["I like cats"]);
+  });
+
+  test("reuses the embeddings of texts within a few edits", async () => {
+    await create("I like cats");
+    await create("The vault holds SOL");
+
+    const cached = await manager.getCachedEmbeddings("I like bats");
+    expect(cached).toEqual([{ embedding: [1, 0, 0], levenshtein_score: 1 }]);
+    expect(await manager.getCachedEmbeddings("Something else")).toEqual([]);
+  });
+
+  test("saves the embedding of a memory stored before it was embedded", async () => {
+    const stored = memory("I like cats");
+    await manager.createMemory(stored);
+    expect(await manager.getCachedEmbeddings("I like cats")).toEqual([]);
+
+    await manager.addEmbeddingToMemory(stored);
+    await manager.saveEmbedding(stored);
+
+    expect((await manager.getMemoryById(stored.id!))?.embedding).toEqual([
+      1, 0, 0,
+    ]);
+    expect(await manager.getCachedEmbeddings("I like cats")).toEqual([
+      { embedding: [1, 0, 0], levenshtein_score: 0 },
+    ]);
+  });
+
+  test("only embeds memories that don't have an embedding yet", async () => {
+    const embedded = memory("I like cats", { embedding: [0, 0, 1] });
+    expect(await manager.addEmbeddingToMemory(embedded)).toBe(embedded);
+    expect(embedCalls).toEqual([]);
+
+    await manager.addEmbeddingToMemory(memory("Stocks went up"));
+    expect(embedCalls).toEqual(["Stocks went up"]);
+  });
+});
@@ -0,0 +1,634 @@
+import {
+  GoalStatus,
+  type Account,
+  type Actor,
+  type AuditAction,
+  type AuditEntry,
+  type Goal,
+  type IDatabaseAdapter,
+  type Memory,
+  type Participant,
+  type Relationship,
+  type UUID,
+  type Proposal,
+  type ProposalStatus,
+  type Spend,
+  type SpendingLimit,
+  type Vault,
+  type Wallet,
+} from "@/core/types";
+import { cosineSimilarity, levenshtein } from "@/core/similarity";
+import { stringToUuid } from "@/core/uuid";
+
+/**
+ * Memories that are this similar to an existing one are stored as duplicates.
+ */
+const duplicateMatchThreshold = 0.95;
+
+type StoredMemory = {
+  memory: Memory;
+  tableName: string;
+  unique: boolean;
+};
+
+type StoredParticipant = {
+  id: UUID;
+  userId: UUID;
+  roomId: UUID;
+  userState: "FOLLOWED" | "MUTED" | null;
+};
+
+type LogEntry = {
+  id: UUID;
+  body: { [key: string]: unknown };
+  userId: UUID;
+  roomId: UUID;
+  type: string;
+  createdAt: number;
+};
+
+/**
+ * Keeps every record in process memory. Nothing survives a restart, which makes it
+ * suitable for tests and local development only. Vector search is a brute-force
+ * cosine similarity scan over the stored embeddings.
+ */
+export class InMemoryDatabaseAdapter implements IDatabaseAdapter {
+  db = {
+    accounts: new Map<UUID, Account>(),
+    memories: new Map<UUID, StoredMemory>(),
+    goals: new Map<UUID, Goal>(),
+    rooms: new Set<UUID>(),
+    participants: [] as StoredParticipant[],
+    relationships: [] as Relationship[],
+    logs: [] as LogEntry[],
+    wallets: new Map<UUID, Wallet>(),
+    vaults: new Map<UUID, Vault>(),
+    spendingLimits: new Map<UUID, SpendingLimit>(),
+    proposals: new Map<UUID, Proposal>(),
+    spends: [] as Spend[],
+    auditLog: [] as AuditEntry[],
+  };
+
+  async getAccountById(userId: UUID): Promise<Account | null> {
+    return this.db.accounts.get(userId) ?? null;
+  }
+
+  async createAccount(account: Account): Promise<boolean> {
+    if (this.db.accounts.has(account.id)) {
+      return false;
+    }
+    this.db.accounts.set(account.id, { ...account });
+    return true;
+  }
+
+  async getMemories(params: {
+    roomId: UUID;
+    count?: number;
+    unique?: boolean;
+    tableName: string;
+    userIds?: UUID[];
+    start?: number;
+    end?: number;
+  }): Promise<Memory[]> {
+    const memories = this.memoriesInTable(params.tableName)
+      .filter(({ memory, unique }) => {
+        if (memory.roomId !== params.roomId) return false;
+        if (params.unique && !unique) return false;
+        if (params.userIds && !params.userIds.includes(memory.userId)) {
+          return false;
+        }
+        const createdAt = memory.createdAt ?? 0;
+        if (params.start !== undefined && createdAt < params.start) {
+          return false;
+        }
+        if (params.end !== undefined && createdAt > params.end) return false;
+        return true;
+      })
+      .map(({ memory }) => memory)
+      .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+
+    return params.count ? memories.slice(0, params.count) : memories;
+  }
+
+  async getMemoryById(id: UUID): Promise<Memory | null> {
+    return this.db.memories.get(id)?.memory ?? null;
+  }
+
+  async getMemoriesByRoomIds(params: { roomIds: UUID[] }): Promise<Memory[]> {
+    return Array.from(this.db.memories.values())
+      .map(({ memory }) => memory)
+      .filter((memory) => params.roomIds.includes(memory.roomId));
+  }
+
+  async getCachedEmbeddings(params: {
+    query_table_name: string;
+    query_threshold: number;
+    query_input: string;
+    query_field_name: string;
+    query_field_sub_name: string;
+    query_match_count: number;
+  }): Promise<{ embedding: number[]; levenshtein_score: number }[]> {
+    return this.memoriesInTable(params.query_table_name)
+      .map(({ memory }) => ({
+        embedding: memory.embedding,
+        text: (memory as Record<string, any>)[params.query_field_name]?.[
+          params.query_field_sub_name
+        ],
+      }))
+      .filter(
+        (row): row is { embedding: number[]; text: string } =>
+          !!row.embedding &&
+          typeof row.text === "string" &&
+          Math.abs(row.text.length - params.query_input.length) <=
+            params.query_threshold,
+      )
+      .map((row) => ({
+        embedding: row.embedding,
+        levenshtein_score: levenshtein(params.query_input, row.text),
+      }))
+      .filter((row) => row.levenshtein_score <= params.query_threshold)
+      .sort((a, b) => a.levenshtein_score - b.levenshtein_score)
+      .slice(0, params.query_match_count);
+  }
+
+  async log(params: {
+    body: { [key: string]: unknown };
+    userId: UUID;
+    roomId: UUID;
+    type: string;
+  }): Promise<void> {
+    this.db.logs.push({
+      id: crypto.randomUUID() as UUID,
+      ...params,
+      createdAt: Date.now(),
+    });
+  }
+
+  async getActorDetails(params: { roomId: UUID }): Promise<Actor[]> {
+    return this.db.participants
+      .filter((participant) => participant.roomId === params.roomId)
+      .map((participant) => this.db.accounts.get(participant.userId))
+      .filter((account): account is Account => !!account)
+      .map((account) => ({
+        id: account.id,
+        name: account.name,
+        username: account.username,
+        details: {
+          tagline: account.details?.tagline ?? "",
+          summary: account.details?.summary ?? "",
+          quote: account.details?.quote ?? "",
+        },
+      }));
+  }
+
+  async searchMemories(params: {
+    tableName: string;
+    roomId: UUID;
+    embedding: number[];
+    match_threshold: number;
+    match_count: number;
+    unique: boolean;
+  }): Promise<Memory[]> {
+    return this.searchMemoriesByEmbedding(params.embedding, {
+      tableName: params.tableName,
+      roomId: params.roomId,
+      match_threshold: params.match_threshold,
+      count: params.match_count,
+      unique: params.unique,
+    });
+  }
+
+  async updateGoalStatus(params: {
+    goalId: UUID;
+    status: GoalStatus;
+  }): Promise<void> {
+    const goal = this.db.goals.get(params.goalId);
+    if (goal) {
+      goal.status = params.status;
+    }
+  }
+
+  async searchMemoriesByEmbedding(
+    embedding: number[],
+    params: {
+      match_threshold?: number;
+      count?: number;
+      roomId?: UUID;
+      unique?: boolean;
+      tableName: string;
+    },
+  ): Promise<Memory[]> {
+    const matches = this.memoriesInTable(params.tableName)
+      .filter(
+        ({ memory, unique }) =>
+          memory.embedding &&
+          (!params.roomId || memory.roomId === params.roomId) &&
+          (!params.unique || unique),
+      )
+      .map(({ memory }) => ({
+        memory,
+        similarity: cosineSimilarity(embedding, memory.embedding!),
+      }))
+      .filter(
+        ({ similarity }) =>
+          params.match_threshold === undefined ||
+          similarity >= params.match_threshold,
+      )
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return (params.count ? matches.slice(0, params.count) : matches).map(
+      ({ memory, similarity }) => ({ ...memory, similarity }),
+    );
+  }
+
+  async createMemory(
+    memory: Memory,
+    tableName: string,
+    unique = false,
+  ): Promise<void> {
+    let isUnique = true;
+    if (unique && memory.embedding) {
+      const similarMemories = await this.searchMemoriesByEmbedding(
+        memory.embedding,
+        {
+          tableName,
+          roomId: memory.roomId,
+          match_threshold: duplicateMatchThreshold,
+          count: 1,
+        },
+      );
+      isUnique = similarMemories.length === 0;
+    }
+
+    const id = memory.id ?? (crypto.randomUUID() as UUID);
+    this.db.memories.set(id, {
+      memory: { ...memory, id, createdAt: memory.createdAt ?? Date.now() },
+      tableName,
+      unique: isUnique,
+    });
+  }
+
+  async updateMemoryEmbedding(
+    memoryId: UUID,
+    embedding: number[],
+    tableName: string,
+  ): Promise<void> {
+    const stored = this.db.memories.get(memoryId);
+    if (stored?.tableName === tableName) {
+      stored.memory = { ...stored.memory, embedding };
+    }
+  }
+
+  async removeMemory(memoryId: UUID, tableName: string): Promise<void> {
+    if (this.db.memories.get(memoryId)?.tableName === tableName) {
+      this.db.memories.delete(memoryId);
+    }
+  }
+
+  async removeAllMemories(roomId: UUID, tableName: string): Promise<void> {
+    for (const { memory } of this.memoriesInTable(tableName)) {
+      if (memory.roomId === roomId) {
+        this.db.memories.delete(memory.id!);
+      }
+    }
+  }
+
+  async countMemories(
+    roomId: UUID,
+    unique = true,
+    tableName?: string,
+  ): Promise<number> {
+    return this.memoriesInTable(tableName).filter(
+      (stored) => stored.memory.roomId === roomId && (!unique || stored.unique),
+    ).length;
+  }
+
+  async getGoals(params: {
+    roomId: UUID;
+    userId?: UUID | null;
+    onlyInProgress?: boolean;
+    count?: number;
+  }): Promise<Goal[]> {
+    const goals = Array.from(this.db.goals.values()).filter(
+      (goal) =>
+        goal.roomId === params.roomId &&
+        (!params.userId || goal.userId === params.userId) &&
+        (!params.onlyInProgress || goal.status === GoalStatus.IN_PROGRESS),
+    );
+    return params.count ? goals.slice(0, params.count) : goals;
+  }
+
+  async updateGoal(goal: Goal): Promise<void> {
+    if (goal.id && this.db.goals.has(goal.id)) {
+      this.db.goals.set(goal.id, { ...goal });
+    }
+  }
+
+  async createGoal(goal: Goal): Promise<void> {
+    const id = goal.id ?? (crypto.randomUUID() as UUID);
+    this.db.goals.set(id, { ...goal, id });
+  }
+
+  async removeGoal(goalId: UUID): Promise<void> {
+    this.db.goals.delete(goalId);
+  }
+
+  async removeAllGoals(roomId: UUID): Promise<void> {
+    for (const [id, goal] of this.db.goals) {
+      if (goal.roomId === roomId) {
+        this.db.goals.delete(id);
+      }
+    }
+  }
+
+  async getRoom(roomId: UUID): Promise<UUID | null> {
+    return this.db.rooms.has(roomId) ? roomId : null;
+  }
+
+  async createRoom(roomId?: UUID): Promise<UUID> {
+    const id = roomId ?? (crypto.randomUUID() as UUID);
+    this.db.rooms.add(id);
+    return id;
+  }
+
+  async removeRoom(roomId: UUID): Promise<void> {
+    this.db.rooms.delete(roomId);
+    this.db.participants = this.db.participants.filter(
+      (participant) => participant.roomId !== roomId,
+    );
+  }
+
+  async getRoomsForParticipant(userId: UUID): Promise<UUID[]> {
+    return this.getRoomsForParticipants([userId]);
+  }
+
+  async getRoomsForParticipants(userIds: UUID[]): Promise<UUID[]> {
+    const roomIds = this.db.participants
+      .filter((participant) => userIds.includes(participant.userId))
+      .map((participant) => participant.roomId);
+    return Array.from(new Set(roomIds));
+  }
+
+  async addParticipant(userId: UUID, roomId: UUID): Promise<boolean> {
+    if (!this.findParticipant(roomId, userId)) {
+      this.db.participants.push({
+        id: crypto.randomUUID() as UUID,
+        userId,
+        roomId,
+        userState: null,
+      });
+    }
+    return true;
+  }
+
+  async removeParticipant(userId: UUID, roomId: UUID): Promise<boolean> {
+    const participant = this.findParticipant(roomId, userId);
+    if (!participant) {
+      return false;
+    }
+    this.db.participants.splice(this.db.participants.indexOf(participant), 1);
+    return true;
+  }
+
+  async getParticipantsForAccount(userId: UUID): Promise<Participant[]> {
+    const account = this.db.accounts.get(userId);
+    if (!account) {
+      return [];
+    }
+    return this.db.participants
+      .filter((participant) => participant.userId === userId)
+      .map((participant) => ({ id: participant.id, account }));
+  }
+
+  async getParticipantsForRoom(roomId: UUID): Promise<UUID[]> {
+    return this.db.participants
+      .filter((participant) => participant.roomId === roomId)
+      .map((participant) => participant.userId);
+  }
+
+  async getParticipantUserState(
+    roomId: UUID,
+    userId: UUID,
+  ): Promise<"FOLLOWED" | "MUTED" | null> {
+    return this.findParticipant(roomId, userId)?.userState ?? null;
+  }
+
+  async setParticipantUserState(
+    roomId: UUID,
+    userId: UUID,
+    state: "FOLLOWED" | "MUTED" | null,
+  ): Promise<void> {
+    const participant = this.findParticipant(roomId, userId);
+    if (participant) {
+      participant.userState = state;
+    }
+  }
+
+  async createRelationship(params: {
+    userA: UUID;
+    userB: UUID;
+  }): Promise<boolean> {
+    if (await this.getRelationship(params)) {
+      return false;
+    }
+    this.db.relationships.push({
+      id: crypto.randomUUID() as UUID,
+      userA: params.userA,
+      userB: params.userB,
+      userId: params.userA,
+      roomId: stringToUuid([params.userA, params.userB].sort().join("-")),
+      status: "FRIENDS",
+      createdAt: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  async getRelationship(params: {
+    userA: UUID;
+    userB: UUID;
+  }): Promise<Relationship | null> {
+    return (
+      this.db.relationships.find(
+        (relationship) =>
+          (relationship.userA === params.userA &&
+            relationship.userB === params.userB) ||
+          (relationship.userA === params.userB &&
+            relationship.userB === params.userA),
+      ) ?? null
+    );
+  }
+
+  async getRelationships(params: { userId: UUID }): Promise<Relationship[]> {
+    return this.db.relationships.filter(
+      (relationship) =>
+        relationship.userA === params.userId ||
+        relationship.userB === params.userId,
+    );
+  }
+
+  async getWallet(params: { userId: UUID }): Promise<Wallet | null> {
+    return this.db.wallets.get(params.userId) ?? null;
+  }
+
+  async createWallet(wallet: Wallet): Promise<void> {
+    if (this.db.wallets.has(wallet.userId)) {
+      throw new Error(`User ${wallet.userId} already has a wallet`);
+    }
+    this.db.wallets.set(wallet.userId, {
+      ...wallet,
+      createdAt: wallet.createdAt ?? Date.now(),
+    });
+  }
+
+  async getVaults(params: { multisigPda: string }): Promise<Vault[]> {
+    return Array.from(this.db.vaults.values())
+      .filter((vault) => vault.multisigPda === params.multisigPda)
+      .sort((a, b) => a.vaultIndex - b.vaultIndex);
+  }
+
+  async createVault(vault: Vault): Promise<void> {
+    const taken = Array.from(this.db.vaults.values()).some(
+      (existing) =>
+        existing.multisigPda === vault.multisigPda &&
+        (existing.vaultIndex === vault.vaultIndex ||
+          existing.name === vault.name),
+    );
+    if (taken) {
+      throw new Error(
+        `Vault ${vault.vaultIndex} or the name ${vault.name} is already registered on multisig ${vault.multisigPda}`,
+      );
+    }
+    this.db.vaults.set(vault.id, {
+      ...vault,
+      createdAt: vault.createdAt ?? Date.now(),
+    });
+  }
+
+  async removeVault(vaultId: UUID): Promise<void> {
+    this.db.vaults.delete(vaultId);
+  }
+
+  async getSpendingLimits(params: {
+    multisigPda: string;
+    vaultIndex?: number;
+  }): Promise<SpendingLimit[]> {
+    return Array.from(this.db.spendingLimits.values()).filter(
+      (spendingLimit) =>
+        spendingLimit.multisigPda === params.multisigPda &&
+        (params.vaultIndex === undefined ||
+          spendingLimit.vaultIndex === params.vaultIndex),
+    );
+  }
+
+  async createSpendingLimit(spendingLimit: SpendingLimit): Promise<void> {
+    this.db.spendingLimits.set(spendingLimit.id, {
+      ...spendingLimit,
+      createdAt: spendingLimit.createdAt ?? Date.now(),
+    });
+  }
+
+  async removeSpendingLimit(spendingLimitId: UUID): Promise<void> {
+    this.db.spendingLimits.delete(spendingLimitId);
+  }
+
+  async getProposals(params: {
+    multisigPda: string;
+    statuses?: ProposalStatus[];
+  }): Promise<Proposal[]> {
+    return Array.from(this.db.proposals.values())
+      .filter(
+        (proposal) =>
+          proposal.multisigPda === params.multisigPda &&
+          (!params.statuses?.length ||
+            params.statuses.includes(proposal.status)),
+      )
+      .sort((a, b) =>
+        Number(BigInt(a.transactionIndex) - BigInt(b.transactionIndex)),
+      );
+  }
+
+  async createProposal(proposal: Proposal): Promise<void> {
+    const now = Date.now();
+    this.db.proposals.set(proposal.id, {
+      ...proposal,
+      createdAt: proposal.createdAt ?? now,
+      updatedAt: proposal.updatedAt ?? now,
+    });
+  }
+
+  async updateProposalStatus(params: {
+    proposalId: UUID;
+    status: ProposalStatus;
+  }): Promise<void> {
+    const proposal = this.db.proposals.get(params.proposalId);
+    if (proposal) {
+      proposal.status = params.status;
+      proposal.updatedAt = Date.now();
+    }
+  }
+
+  async getSpends(params: { userId?: UUID; since: number }): Promise<Spend[]> {
+    return this.db.spends.filter(
+      (spend) =>
+        (params.userId === undefined || spend.userId === params.userId) &&
+        (spend.createdAt ?? 0) >= params.since,
+    );
+  }
+
+  async createSpend(spend: Spend): Promise<void> {
+    this.db.spends.push({ ...spend, createdAt: spend.createdAt ?? Date.now() });
+  }
+
+  async updateSpendSignature(params: {
+    spendId: UUID;
+    signature: string;
+  }): Promise<void> {
+    const spend = this.db.spends.find((spend) => spend.id === params.spendId);
+    if (spend) spend.signature = params.signature;
+  }
+
+  async removeSpend(spendId: UUID): Promise<void> {
+    this.db.spends = this.db.spends.filter((spend) => spend.id !== spendId);
+  }
+
+  async getAuditEntries(params: {
+    userId?: UUID;
+    multisigPda?: string;
+    actions?: AuditAction[];
+    since?: number;
+    until?: number;
+    count?: number;
+  }): Promise<AuditEntry[]> {
+    const entries = this.db.auditLog
+      .filter(
+        (entry) =>
+          (params.userId === undefined || entry.userId === params.userId) &&
+          (params.multisigPda === undefined ||
+            entry.multisigPda === params.multisigPda) &&
+          (!params.actions?.length || params.actions.includes(entry.action)) &&
+          (params.since === undefined || entry.createdAt >= params.since) &&
+          (params.until === undefined || entry.createdAt < params.until),
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+    return params.count === undefined
+      ? entries
+      : entries.slice(0, params.count);
+  }
+
+  async createAuditEntry(entry: AuditEntry): Promise<void> {
+    this.db.auditLog.push({ ...entry, instructions: [...entry.instructions] });
+  }
+
+  private memoriesInTable(tableName?: string): StoredMemory[] {
+    return Array.from(this.db.memories.values()).filter(
+      (stored) => !tableName || stored.tableName === tableName,
+    );
+  }
+
+  private findParticipant(roomId: UUID, userId: UUID) {
+    return this.db.participants.find(
+      (participant) =>
+        participant.roomId === roomId && participant.userId === userId,
+    );
+  }
+}
@@ -0,0 +1,973 @@
+import fs from "fs";
+import path from "path";
+import { Database } from "bun:sqlite";
+import {
+  type Account,
+  type Actor,
+  type AuditAction,
+  type AuditEntry,
+  type Goal,
+  type GoalStatus,
+  type IDatabaseAdapter,
+  type Memory,
+  type Participant,
+  type Relationship,
+  type UUID,
+  type Proposal,
+  type ProposalStatus,
+  type Spend,
+  type SpendingLimit,
+  type Vault,
+  type Wallet,
+} from "@/core/types";
+import { cosineSimilarity, levenshtein } from "@/core/similarity";
+import { stringToUuid } from "@/core/uuid";
+import { sqliteMigrations } from "./sqliteTables";
+
+/**
+ * Memories that are this similar to an existing one are stored as duplicates.
+ */
+const duplicateMatchThreshold = 0.95;
+
+type MemoryRow = {
+  id: UUID;
+  type: string;
+  createdAt: number;
+  content: string;
+  embedding: Uint8Array | null;
+  userId: UUID;
+  roomId: UUID;
+  unique: number;
+};
+
+type AccountRow = {
+  id: UUID;
+  name: string;
+  username: string;
+  email: string | null;
+  avatarUrl: string | null;
+  details: string;
+};
+
+type GoalRow = {
+  id: UUID;
+  userId: UUID;
+  name: string;
+  status: GoalStatus;
+  roomId: UUID;
+  objectives: string;
+};
+
+type AuditEntryRow = {
+  [K in keyof AuditEntry]-?: undefined extends AuditEntry[K]
+    ? AuditEntry[K] | null
+    : AuditEntry[K];
+} & { instructions: string };
+
+type SpendingLimitRow = Omit<SpendingLimit, "members" | "destinations"> & {
+  members: string;
+  destinations: string;
+};
+
+/**
+ * Stores everything in a single SQLite file through Bun's built-in driver.
+ * Embeddings are kept as float32 blobs and compared in process, which is fine
+ * for the few thousand memories a single bot accumulates per room.
+ */
+export class SqliteDatabaseAdapter implements IDatabaseAdapter {
+  db: Database;
+
+  /**
+   * Opens (or creates) the database file and brings its schema up to date.
+   * @param filename Path of the database file, or ":memory:" for a throwaway database.
+   */
+  constructor(filename: string) {
+    if (filename !== ":memory:") {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.db.exec("PRAGMA foreign_keys = ON;");
+    this.migrate();
+  }
+
+  private migrate() {
+    const { user_version: version } = this.db
+      .query("PRAGMA user_version")
+      .get() as { user_version: number };
+
+    for (let i = version; i < sqliteMigrations.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(sqliteMigrations[i]);
+        this.db.exec(`PRAGMA user_version = ${i + 1}`);
+      })();
+      console.log(`Applied SQLite migration ${i + 1}`);
+    }
+  }
+
+  async getAccountById(userId: UUID): Promise<Account | null> {
+    const row = this.db
+      .query("SELECT * FROM accounts WHERE id = ?")
+      .get(userId) as AccountRow | null;
+    if (!row) {
+      return null;
+    }
+    return {
+      id: row.id,
+      name: row.name,
+      username: row.username,
+      email: row.email ?? undefined,
+      avatarUrl: row.avatarUrl ?? undefined,
+      details: JSON.parse(row.details),
+    };
+  }
+
+  async createAccount(account: Account): Promise<boolean> {
+    try {
+      this.db
+        .query(
+          "INSERT INTO accounts (id, createdAt, name, username, email, avatarUrl, details) VALUES (?, ?, ?, ?, ?, ?, ?)",
+        )
+        .run(
+          account.id ?? crypto.randomUUID(),
+          Date.now(),
+          account.name,
+          account.username,
+          account.email ?? null,
+          account.avatarUrl ?? null,
+          JSON.stringify(account.details ?? {}),
+        );
+      return true;
+    } catch (error) {
+      console.error("Error creating account:", error);
+      return false;
+    }
+  }
+
+  async getActorDetails(params: { roomId: UUID }): Promise<Actor[]> {
+    const rows = this.db
+      .query(
+        `SELECT a.id, a.name, a.username, a.details
+        FROM participants p
+        LEFT JOIN accounts a ON p.userId = a.id
+        WHERE p.roomId = ?`,
+      )
+      .all(params.roomId) as Omit<AccountRow, "email" | "avatarUrl">[];
+
+    return rows
+      .filter((row) => row.id)
+      .map((row) => {
+        const details = JSON.parse(row.details ?? "{}");
+        return {
+          id: row.id,
+          name: row.name,
+          username: row.username,
+          details: {
+            tagline: details.tagline ?? "",
+            summary: details.summary ?? "",
+            quote: details.quote ?? "",
+          },
+        };
+      });
+  }
+
+  async getMemories(params: {
+    roomId: UUID;
+    count?: number;
+    unique?: boolean;
+    tableName: string;
+    userIds?: UUID[];
+    start?: number;
+    end?: number;
+  }): Promise<Memory[]> {
+    if (!params.tableName) {
+      throw new Error("tableName is required");
+    }
+
+    let sql = "SELECT * FROM memories WHERE type = ? AND roomId = ?";
+    const queryParams: (string | number)[] = [params.tableName, params.roomId];
+
+    if (params.unique) {
+      sql += ' AND "unique" = 1';
+    }
+
+    if (params.userIds && params.userIds.length > 0) {
+      sql += ` AND userId IN (${params.userIds.map(() => "?").join(",")})`;
+      queryParams.push(...params.userIds);
+    }
+
+    if (params.start !== undefined) {
+      sql += " AND createdAt >= ?";
+      queryParams.push(params.start);
+    }
+
+    if (params.end !== undefined) {
+      sql += " AND createdAt <= ?";
+      queryParams.push(params.end);
+    }
+
+    sql += " ORDER BY createdAt DESC";
+
+    if (params.count) {
+      sql += " LIMIT ?";
+      queryParams.push(params.count);
+    }
+
+    const rows = this.db.query(sql).all(...queryParams) as MemoryRow[];
+    return rows.map((row) => this.rowToMemory(row));
+  }
+
+  async getMemoryById(id: UUID): Promise<Memory | null> {
+    const row = this.db
+      .query("SELECT * FROM memories WHERE id = ?")
+      .get(id) as MemoryRow | null;
+    return row ? this.rowToMemory(row) : null;
+  }
+
+  async getMemoriesByRoomIds(params: { roomIds: UUID[] }): Promise<Memory[]> {
+    if (params.roomIds.length === 0) {
+      return [];
+    }
+    const rows = this.db
+      .query(
+        `SELECT * FROM memories WHERE roomId IN (${params.roomIds.map(() => "?").join(",")}) ORDER BY createdAt DESC`,
+      )
+      .all(...params.roomIds) as MemoryRow[];
+    return rows.map((row) => this.rowToMemory(row));
+  }
+
+  async getCachedEmbeddings(params: {
+    query_table_name: string;
+    query_threshold: number;
+    query_input: string;
+    query_field_name: string;
+    query_field_sub_name: string;
+    query_match_count: number;
+  }): Promise<{ embedding: number[]; levenshtein_score: number }[]> {
+    if (params.query_field_name !== "content") {
+      throw new Error(
+        `Unsupported cached embedding field: ${params.query_field_name}`,
+      );
+    }
+
+    const rows = this.db
+      .query(
+        `SELECT embedding, json_extract(content, '$.' || ?) AS text
+        FROM memories
+        WHERE type = ? AND embedding IS NOT NULL
+        AND abs(length(json_extract(content, '$.' || ?)) - ?) <= ?`,
+      )
+      .all(
+        params.query_field_sub_name,
+        params.query_table_name,
+        params.query_field_sub_name,
+        params.query_input.length,
+        params.query_threshold,
+      ) as { embedding: Uint8Array; text: string | null }[];
+
+    return rows
+      .filter((row) => typeof row.text === "string")
+      .map((row) => ({
+        embedding: this.blobToEmbedding(row.embedding),
+        levenshtein_score: levenshtein(params.query_input, row.text!),
+      }))
+      .filter((row) => row.levenshtein_score <= params.query_threshold)
+      .sort((a, b) => a.levenshtein_score - b.levenshtein_score)
+      .slice(0, params.query_match_count);
+  }
+
+  async log(params: {
+    body: { [key: string]: unknown };
+    userId: UUID;
+    roomId: UUID;
+    type: string;
+  }): Promise<void> {
+    this.db
+      .query(
+        "INSERT INTO logs (id, createdAt, body, userId, roomId, type) VALUES (?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        crypto.randomUUID(),
+        Date.now(),
+        JSON.stringify(params.body),
+        params.userId,
+        params.roomId,
+        params.type,
+      );
+  }
+
+  async searchMemories(params: {
+    tableName: string;
+    roomId: UUID;
+    embedding: number[];
+    match_threshold: number;
+    match_count: number;
+    unique: boolean;
+  }): Promise<Memory[]> {
+    return this.searchMemoriesByEmbedding(params.embedding, {
+      tableName: params.tableName,
+      roomId: params.roomId,
+      match_threshold: params.match_threshold,
+      count: params.match_count,
+      unique: params.unique,
+    });
+  }
+
+  async searchMemoriesByEmbedding(
+    embedding: number[],
+    params: {
+      match_threshold?: number;
+      count?: number;
+      roomId?: UUID;
+      unique?: boolean;
+      tableName: string;
+    },
+  ): Promise<Memory[]> {
+    let sql = "SELECT * FROM memories WHERE type = ? AND embedding IS NOT NULL";
+    const queryParams: string[] = [params.tableName];
+
+    if (params.roomId) {
+      sql += " AND roomId = ?";
+      queryParams.push(params.roomId);
+    }
+
+    if (params.unique) {
+      sql += ' AND "unique" = 1';
+    }
+
+    const rows = this.db.query(sql).all(...queryParams) as MemoryRow[];
+
+    const matches = rows
+      .map((row) => ({
+        row,
+        similarity: cosineSimilarity(
+          embedding,
+          this.blobToEmbedding(row.embedding!),
+        ),
+      }))
+      .filter(
+        ({ similarity }) =>
+          params.match_threshold === undefined ||
+          similarity >= params.match_threshold,
+      )
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return (params.count ? matches.slice(0, params.count) : matches).map(
+      ({ row, similarity }) => ({ ...this.rowToMemory(row), similarity }),
+    );
+  }
+
+  async createMemory(
+    memory: Memory,
+    tableName: string,
+    unique = false,
+  ): Promise<void> {
+    let isUnique = true;
+    if (unique && memory.embedding) {
+      const similarMemories = await this.searchMemoriesByEmbedding(
+        memory.embedding,
+        {
+          tableName,
+          roomId: memory.roomId,
+          match_threshold: duplicateMatchThreshold,
+          count: 1,
+        },
+      );
+      isUnique = similarMemories.length === 0;
+    }
+
+    this.db
+      .query(
+        'INSERT OR REPLACE INTO memories (id, type, createdAt, content, embedding, userId, roomId, "unique") VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      )
+      .run(
+        memory.id ?? crypto.randomUUID(),
+        tableName,
+        memory.createdAt ?? Date.now(),
+        JSON.stringify(memory.content),
+        memory.embedding ? this.embeddingToBlob(memory.embedding) : null,
+        memory.userId,
+        memory.roomId,
+        isUnique ? 1 : 0,
+      );
+  }
+
+  async updateMemoryEmbedding(
+    memoryId: UUID,
+    embedding: number[],
+    tableName: string,
+  ): Promise<void> {
+    this.db
+      .query("UPDATE memories SET embedding = ? WHERE type = ? AND id = ?")
+      .run(this.embeddingToBlob(embedding), tableName, memoryId);
+  }
+
+  async removeMemory(memoryId: UUID, tableName: string): Promise<void> {
+    this.db
+      .query("DELETE FROM memories WHERE type = ? AND id = ?")
+      .run(tableName, memoryId);
+  }
+
+  async removeAllMemories(roomId: UUID, tableName: string): Promise<void> {
+    this.db
+      .query("DELETE FROM memories WHERE type = ? AND roomId = ?")
+      .run(tableName, roomId);
+  }
+
+  async countMemories(
+    roomId: UUID,
+    unique = true,
+    tableName?: string,
+  ): Promise<number> {
+    let sql = "SELECT COUNT(*) AS count FROM memories WHERE roomId = ?";
+    const queryParams: string[] = [roomId];
+
+    if (tableName) {
+      sql += " AND type = ?";
+      queryParams.push(tableName);
+    }
+
+    if (unique) {
+      sql += ' AND "unique" = 1';
+    }
+
+    const { count } = this.db.query(sql).get(...queryParams) as {
+      count: number;
+    };
+    return count;
+  }
+
+  async getGoals(params: {
+    roomId: UUID;
+    userId?: UUID | null;
+    onlyInProgress?: boolean;
+    count?: number;
+  }): Promise<Goal[]> {
+    let sql = "SELECT * FROM goals WHERE roomId = ?";
+    const queryParams: (string | number)[] = [params.roomId];
+
+    if (params.userId) {
+      sql += " AND userId = ?";
+      queryParams.push(params.userId);
+    }
+
+    if (params.onlyInProgress) {
+      sql += " AND status = 'IN_PROGRESS'";
+    }
+
+    sql += " ORDER BY createdAt ASC";
+
+    if (params.count) {
+      sql += " LIMIT ?";
+      queryParams.push(params.count);
+    }
+
+    const rows = this.db.query(sql).all(...queryParams) as GoalRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      roomId: row.roomId,
+      userId: row.userId,
+      name: row.name,
+      status: row.status,
+      objectives: JSON.parse(row.objectives),
+    }));
+  }
+
+  async updateGoal(goal: Goal): Promise<void> {
+    this.db
+      .query(
+        "UPDATE goals SET name = ?, status = ?, objectives = ? WHERE id = ?",
+      )
+      .run(goal.name, goal.status, JSON.stringify(goal.objectives), goal.id!);
+  }
+
+  async updateGoalStatus(params: {
+    goalId: UUID;
+    status: GoalStatus;
+  }): Promise<void> {
+    this.db
+      .query("UPDATE goals SET status = ? WHERE id = ?")
+      .run(params.status, params.goalId);
+  }
+
+  async createGoal(goal: Goal): Promise<void> {
+    this.db
+      .query(
+        "INSERT INTO goals (id, createdAt, roomId, userId, name, status, objectives) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        goal.id ?? crypto.randomUUID(),
+        Date.now(),
+        goal.roomId,
+        goal.userId,
+        goal.name,
+        goal.status,
+        JSON.stringify(goal.objectives),
+      );
+  }
+
+  async removeGoal(goalId: UUID): Promise<void> {
+    this.db.query("DELETE FROM goals WHERE id = ?").run(goalId);
+  }
+
+  async removeAllGoals(roomId: UUID): Promise<void> {
+    this.db.query("DELETE FROM goals WHERE roomId = ?").run(roomId);
+  }
+
+  async getRoom(roomId: UUID): Promise<UUID | null> {
+    const row = this.db
+      .query("SELECT id FROM rooms WHERE id = ?")
+      .get(roomId) as { id: UUID } | null;
+    return row?.id ?? null;
+  }
+
+  async createRoom(roomId?: UUID): Promise<UUID> {
+    const id = roomId ?? (crypto.randomUUID() as UUID);
+    this.db
+      .query("INSERT OR IGNORE INTO rooms (id, createdAt) VALUES (?, ?)")
+      .run(id, Date.now());
+    return id;
+  }
+
+  async removeRoom(roomId: UUID): Promise<void> {
+    this.db.query("DELETE FROM rooms WHERE id = ?").run(roomId);
+  }
+
+  async getRoomsForParticipant(userId: UUID): Promise<UUID[]> {
+    const rows = this.db
+      .query("SELECT roomId FROM participants WHERE userId = ?")
+      .all(userId) as { roomId: UUID }[];
+    return rows.map((row) => row.roomId);
+  }
+
+  async getRoomsForParticipants(userIds: UUID[]): Promise<UUID[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+    const rows = this.db
+      .query(
+        `SELECT DISTINCT roomId FROM participants WHERE userId IN (${userIds.map(() => "?").join(",")})`,
+      )
+      .all(...userIds) as { roomId: UUID }[];
+    return rows.map((row) => row.roomId);
+  }
+
+  async addParticipant(userId: UUID, roomId: UUID): Promise<boolean> {
+    try {
+      this.db
+        .query(
+          "INSERT OR IGNORE INTO participants (id, createdAt, userId, roomId) VALUES (?, ?, ?, ?)",
+        )
+        .run(crypto.randomUUID(), Date.now(), userId, roomId);
+      return true;
+    } catch (error) {
+      console.error("Error adding participant:", error);
+      return false;
+    }
+  }
+
+  async removeParticipant(userId: UUID, roomId: UUID): Promise<boolean> {
+    try {
+      this.db
+        .query("DELETE FROM participants WHERE userId = ? AND roomId = ?")
+        .run(userId, roomId);
+      return true;
+    } catch (error) {
+      console.error("Error removing participant:", error);
+      return false;
+    }
+  }
+
+  async getParticipantsForAccount(userId: UUID): Promise<Participant[]> {
+    const account = await this.getAccountById(userId);
+    if (!account) {
+      return [];
+    }
+    const rows = this.db
+      .query("SELECT id FROM participants WHERE userId = ?")
+      .all(userId) as { id: UUID }[];
+    return rows.map((row) => ({ id: row.id, account }));
+  }
+
+  async getParticipantsForRoom(roomId: UUID): Promise<UUID[]> {
+    const rows = this.db
+      .query("SELECT userId FROM participants WHERE roomId = ?")
+      .all(roomId) as { userId: UUID }[];
+    return rows.map((row) => row.userId);
+  }
+
+  async getParticipantUserState(
+    roomId: UUID,
+    userId: UUID,
+  ): Promise<"FOLLOWED" | "MUTED" | null> {
+    const row = this.db
+      .query(
+        "SELECT userState FROM participants WHERE roomId = ? AND userId = ?",
+      )
+      .get(roomId, userId) as { userState: "FOLLOWED" | "MUTED" | null } | null;
+    return row?.userState ?? null;
+  }
+
+  async setParticipantUserState(
+    roomId: UUID,
+    userId: UUID,
+    state: "FOLLOWED" | "MUTED" | null,
+  ): Promise<void> {
+    this.db
+      .query(
+        "UPDATE participants SET userState = ? WHERE roomId = ? AND userId = ?",
+      )
+      .run(state, roomId, userId);
+  }
+
+  async createRelationship(params: {
+    userA: UUID;
+    userB: UUID;
+  }): Promise<boolean> {
+    if (!params.userA || !params.userB) {
+      throw new Error("userA and userB are required");
+    }
+    if (await this.getRelationship(params)) {
+      return false;
+    }
+    this.db
+      .query(
+        "INSERT INTO relationships (id, createdAt, userA, userB, userId, roomId, status) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        crypto.randomUUID(),
+        Date.now(),
+        params.userA,
+        params.userB,
+        params.userA,
+        stringToUuid([params.userA, params.userB].sort().join("-")),
+        "FRIENDS",
+      );
+    return true;
+  }
+
+  async getRelationship(params: {
+    userA: UUID;
+    userB: UUID;
+  }): Promise<Relationship | null> {
+    const row = this.db
+      .query(
+        "SELECT * FROM relationships WHERE (userA = ? AND userB = ?) OR (userA = ? AND userB = ?)",
+      )
+      .get(params.userA, params.userB, params.userB, params.userA) as
+      | (Relationship & { createdAt: number })
+      | null;
+    return row ? this.rowToRelationship(row) : null;
+  }
+
+  async getRelationships(params: { userId: UUID }): Promise<Relationship[]> {
+    const rows = this.db
+      .query("SELECT * FROM relationships WHERE userA = ? OR userB = ?")
+      .all(params.userId, params.userId) as (Relationship & {
+      createdAt: number;
+    })[];
+    return rows.map((row) => this.rowToRelationship(row));
+  }
+
+  async getWallet(params: { userId: UUID }): Promise<Wallet | null> {
+    const row = this.db
+      .query("SELECT * FROM wallets WHERE userId = ?")
+      .get(params.userId) as Wallet | null;
+    return row ?? null;
+  }
+
+  async createWallet(wallet: Wallet): Promise<void> {
+    this.db
+      .query(
+        "INSERT INTO wallets (id, createdAt, userId, owner, createKey, multisigPda, vaultPda) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        wallet.id,
+        wallet.createdAt ?? Date.now(),
+        wallet.userId,
+        wallet.owner,
+        wallet.createKey,
+        wallet.multisigPda,
+        wallet.vaultPda,
+      );
+  }
+
+  async getVaults(params: { multisigPda: string }): Promise<Vault[]> {
+    return this.db
+      .query(
+        "SELECT * FROM vaults WHERE multisigPda = ? ORDER BY vaultIndex ASC",
+      )
+      .all(params.multisigPda) as Vault[];
+  }
+
+  async createVault(vault: Vault): Promise<void> {
+    this.db
+      .query(
+        "INSERT INTO vaults (id, createdAt, multisigPda, vaultIndex, name) VALUES (?, ?, ?, ?, ?)",
+      )
+      .run(
+        vault.id,
+        vault.createdAt ?? Date.now(),
+        vault.multisigPda,
+        vault.vaultIndex,
+        vault.name,
+      );
+  }
+
+  async removeVault(vaultId: UUID): Promise<void> {
+    this.db.query("DELETE FROM vaults WHERE id = ?").run(vaultId);
+  }
+
+  async getSpendingLimits(params: {
+    multisigPda: string;
+    vaultIndex?: number;
+  }): Promise<SpendingLimit[]> {
+    let sql = "SELECT * FROM spending_limits WHERE multisigPda = ?";
+    const queryParams: (string | number)[] = [params.multisigPda];
+
+    if (params.vaultIndex !== undefined) {
+      sql += " AND vaultIndex = ?";
+      queryParams.push(params.vaultIndex);
+    }
+
+    sql += " ORDER BY createdAt ASC";
+
+    const rows = this.db.query(sql).all(...queryParams) as SpendingLimitRow[];
+    return rows.map((row) => ({
+      ...row,
+      members: JSON.parse(row.members),
+      destinations: JSON.parse(row.destinations),
+    }));
+  }
+
+  async createSpendingLimit(spendingLimit: SpendingLimit): Promise<void> {
+    this.db
+      .query(
+        "INSERT INTO spending_limits (id, createdAt, multisigPda, createKey, spendingLimitPda, vaultIndex, mint, amount, period, members, destinations) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        spendingLimit.id,
+        spendingLimit.createdAt ?? Date.now(),
+        spendingLimit.multisigPda,
+        spendingLimit.createKey,
+        spendingLimit.spendingLimitPda,
+        spendingLimit.vaultIndex,
+        spendingLimit.mint,
+        spendingLimit.amount,
+        spendingLimit.period,
+        JSON.stringify(spendingLimit.members),
+        JSON.stringify(spendingLimit.destinations),
+      );
+  }
+
+  async removeSpendingLimit(spendingLimitId: UUID): Promise<void> {
+    this.db
+      .query("DELETE FROM spending_limits WHERE id = ?")
+      .run(spendingLimitId);
+  }
+
+  async getProposals(params: {
+    multisigPda: string;
+    statuses?: ProposalStatus[];
+  }): Promise<Proposal[]> {
+    let sql = "SELECT * FROM proposals WHERE multisigPda = ?";
+    const queryParams: string[] = [params.multisigPda];
+
+    if (params.statuses?.length) {
+      sql += ` AND status IN (${params.statuses.map(() => "?").join(", ")})`;
+      queryParams.push(...params.statuses);
+    }
+
+    sql += " ORDER BY CAST(transactionIndex AS INTEGER) ASC";
+
+    const rows = this.db.query(sql).all(...queryParams) as (Proposal & {
+      signature: string | null;
+    })[];
+    return rows.map((row) => ({ ...row, signature: row.signature ?? undefined }));
+  }
+
+  async createProposal(proposal: Proposal): Promise<void> {
+    const now = Date.now();
+    this.db
+      .query(
+        "INSERT INTO proposals (id, createdAt, updatedAt, multisigPda, transactionIndex, status, signature) VALUES (?, ?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        proposal.id,
+        proposal.createdAt ?? now,
+        proposal.updatedAt ?? now,
+        proposal.multisigPda,
+        proposal.transactionIndex,
+        proposal.status,
+        proposal.signature ?? null,
+      );
+  }
+
+  async updateProposalStatus(params: {
+    proposalId: UUID;
+    status: ProposalStatus;
+  }): Promise<void> {
+    this.db
+      .query("UPDATE proposals SET status = ?, updatedAt = ? WHERE id = ?")
+      .run(params.status, Date.now(), params.proposalId);
+  }
+
+  async getSpends(params: { userId?: UUID; since: number }): Promise<Spend[]> {
+    let sql = "SELECT * FROM spends WHERE createdAt >= ?";
+    const queryParams: (string | number)[] = [params.since];
+
+    if (params.userId) {
+      sql += " AND userId = ?";
+      queryParams.push(params.userId);
+    }
+
+    const rows = this.db.query(sql).all(...queryParams) as (Omit<
+      Spend,
+      "userId" | "signature"
+    > & {
+      userId: UUID | null;
+      signature: string | null;
+    })[];
+    return rows.map((row) => ({
+      ...row,
+      userId: row.userId ?? undefined,
+      signature: row.signature ?? undefined,
+    }));
+  }
+
+  async createSpend(spend: Spend): Promise<void> {
+    this.db
+      .query(
+        "INSERT INTO spends (id, createdAt, userId, multisigPda, usdValue, signature) VALUES (?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        spend.id,
+        spend.createdAt ?? Date.now(),
+        spend.userId ?? null,
+        spend.multisigPda,
+        spend.usdValue,
+        spend.signature ?? null,
+      );
+  }
+
+  async updateSpendSignature(params: {
+    spendId: UUID;
+    signature: string;
+  }): Promise<void> {
+    this.db
+      .query("UPDATE spends SET signature = ? WHERE id = ?")
+      .run(params.signature, params.spendId);
+  }
+
+  async removeSpend(spendId: UUID): Promise<void> {
+    this.db.query("DELETE FROM spends WHERE id = ?").run(spendId);
+  }
+
+  async getAuditEntries(params: {
+    userId?: UUID;
+    multisigPda?: string;
+    actions?: AuditAction[];
+    since?: number;
+    until?: number;
+    count?: number;
+  }): Promise<AuditEntry[]> {
+    let sql = "SELECT * FROM audit_log WHERE 1 = 1";
+    const queryParams: (string | number)[] = [];
+
+    if (params.userId) {
+      sql += " AND userId = ?";
+      queryParams.push(params.userId);
+    }
+    if (params.multisigPda) {
+      sql += " AND multisigPda = ?";
+      queryParams.push(params.multisigPda);
+    }
+    if (params.actions?.length) {
+      sql += ` AND action IN (${params.actions.map(() => "?").join(", ")})`;
+      queryParams.push(...params.actions);
+    }
+    if (params.since !== undefined) {
+      sql += " AND createdAt >= ?";
+      queryParams.push(params.since);
+    }
+    if (params.until !== undefined) {
+      sql += " AND createdAt < ?";
+      queryParams.push(params.until);
+    }
+
+    sql += " ORDER BY createdAt DESC, rowid DESC";
+
+    if (params.count !== undefined) {
+      sql += " LIMIT ?";
+      queryParams.push(params.count);
+    }
+
+    const rows = this.db.query(sql).all(...queryParams) as AuditEntryRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      userId: row.userId ?? undefined,
+      username: row.username ?? undefined,
+      message: row.message ?? undefined,
+      multisigPda: row.multisigPda,
+      action: row.action,
+      transactionIndex: row.transactionIndex ?? undefined,
+      member: row.member ?? undefined,
+      instructions: JSON.parse(row.instructions),
+      signature: row.signature ?? undefined,
+      status: row.status,
+      error: row.error ?? undefined,
+      createdAt: row.createdAt,
+    }));
+  }
+
+  async createAuditEntry(entry: AuditEntry): Promise<void> {
+    this.db
+      .query(
+        "INSERT INTO audit_log (id, createdAt, userId, username, message, multisigPda, action, transactionIndex, member, instructions, signature, status, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      )
+      .run(
+        entry.id,
+        entry.createdAt,
+        entry.userId ?? null,
+        entry.username ?? null,
+        entry.message ?? null,
+        entry.multisigPda,
+        entry.action,
+        entry.transactionIndex ?? null,
+        entry.member ?? null,
+        JSON.stringify(entry.instructions),
+        entry.signature ?? null,
+        entry.status,
+        entry.error ?? null,
+      );
+  }
+
+  private rowToMemory(row: MemoryRow): Memory {
+    return {
+      id: row.id,
+      userId: row.userId,
+      roomId: row.roomId,
+      createdAt: row.createdAt,
+      content: JSON.parse(row.content),
+      embedding: row.embedding ? this.blobToEmbedding(row.embedding) : undefined,
+    };
+  }
+
+  private rowToRelationship(
+    row: Relationship & { createdAt: number },
+  ): Relationship {
+    return { ...row, createdAt: new Date(row.createdAt).toISOString() };
+  }
+
+  private embeddingToBlob(embedding: number[]) {
+    return new Uint8Array(new Float32Array(embedding).buffer);
+  }
+
+  private blobToEmbedding(blob: Uint8Array) {
+    return Array.from(
+      new Float32Array(
+        blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength),
+      ),
+    );
+  }
+}
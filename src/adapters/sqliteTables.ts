@@ -0,0 +1,194 @@
+/**
+ * Schema migrations for the SQLite adapter, applied in order on startup.
+ * The index of the last applied migration is kept in `PRAGMA user_version`,
+ * so new migrations must only ever be appended to this list.
+ */
+export const sqliteMigrations: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS "accounts" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "name" TEXT,
+    "username" TEXT,
+    "email" TEXT,
+    "avatarUrl" TEXT,
+    "details" TEXT DEFAULT '{}' CHECK(json_valid("details"))
+  );
+
+  CREATE TABLE IF NOT EXISTS "rooms" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS "memories" (
+    "id" TEXT PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "createdAt" INTEGER NOT NULL,
+    "content" TEXT NOT NULL CHECK(json_valid("content")),
+    "embedding" BLOB,
+    "userId" TEXT,
+    "roomId" TEXT,
+    "unique" INTEGER DEFAULT 1 NOT NULL,
+    FOREIGN KEY ("userId") REFERENCES "accounts"("id"),
+    FOREIGN KEY ("roomId") REFERENCES "rooms"("id")
+  );
+
+  CREATE INDEX IF NOT EXISTS "memories_type_room_idx" ON "memories" ("type", "roomId", "createdAt");
+
+  CREATE TABLE IF NOT EXISTS "goals" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userId" TEXT,
+    "name" TEXT,
+    "status" TEXT,
+    "roomId" TEXT,
+    "objectives" TEXT DEFAULT '[]' NOT NULL CHECK(json_valid("objectives")),
+    FOREIGN KEY ("userId") REFERENCES "accounts"("id"),
+    FOREIGN KEY ("roomId") REFERENCES "rooms"("id")
+  );
+
+  CREATE TABLE IF NOT EXISTS "logs" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "body" TEXT NOT NULL CHECK(json_valid("body")),
+    "type" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS "participants" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userState" TEXT,
+    FOREIGN KEY ("userId") REFERENCES "accounts"("id"),
+    FOREIGN KEY ("roomId") REFERENCES "rooms"("id") ON DELETE CASCADE,
+    UNIQUE ("userId", "roomId")
+  );
+
+  CREATE TABLE IF NOT EXISTS "relationships" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userA" TEXT NOT NULL,
+    "userB" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "status" TEXT,
+    FOREIGN KEY ("userA") REFERENCES "accounts"("id"),
+    FOREIGN KEY ("userB") REFERENCES "accounts"("id")
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS "wallets" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL UNIQUE,
+    "owner" TEXT NOT NULL,
+    "createKey" TEXT NOT NULL,
+    "multisigPda" TEXT NOT NULL,
+    "vaultPda" TEXT NOT NULL,
+    FOREIGN KEY ("userId") REFERENCES "accounts"("id")
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS "spending_limits" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "multisigPda" TEXT NOT NULL,
+    "createKey" TEXT NOT NULL,
+    "spendingLimitPda" TEXT NOT NULL UNIQUE,
+    "vaultIndex" INTEGER NOT NULL,
+    "mint" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "members" TEXT DEFAULT '[]' NOT NULL CHECK(json_valid("members")),
+    "destinations" TEXT DEFAULT '[]' NOT NULL CHECK(json_valid("destinations"))
+  );
+
+  CREATE INDEX IF NOT EXISTS "spending_limits_multisig_idx" ON "spending_limits" ("multisigPda", "vaultIndex");
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS "proposals" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "updatedAt" INTEGER NOT NULL,
+    "multisigPda" TEXT NOT NULL,
+    "transactionIndex" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "signature" TEXT,
+    UNIQUE ("multisigPda", "transactionIndex")
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS "vaults" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "multisigPda" TEXT NOT NULL,
+    "vaultIndex" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    UNIQUE ("multisigPda", "vaultIndex"),
+    UNIQUE ("multisigPda", "name")
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS "spends" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "multisigPda" TEXT NOT NULL,
+    "usdValue" REAL NOT NULL,
+    "signature" TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS "spends_user_idx" ON "spends" ("userId", "createdAt");
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS "audit_log" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userId" TEXT,
+    "username" TEXT,
+    "message" TEXT,
+    "multisigPda" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "transactionIndex" TEXT,
+    "member" TEXT,
+    "instructions" TEXT DEFAULT '[]' NOT NULL CHECK(json_valid("instructions")),
+    "signature" TEXT,
+    "status" TEXT NOT NULL,
+    "error" TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS "audit_log_user_idx" ON "audit_log" ("userId", "createdAt");
+  CREATE INDEX IF NOT EXISTS "audit_log_multisig_idx" ON "audit_log" ("multisigPda", "createdAt");
+
+  CREATE TRIGGER IF NOT EXISTS "audit_log_no_update" BEFORE UPDATE ON "audit_log"
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS "audit_log_no_delete" BEFORE DELETE ON "audit_log"
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+  `,
+  // Spends the agent makes without acting for a user count only against the global cap.
+  // SQLite can't drop NOT NULL in place, so the table is copied.
+  `
+  CREATE TABLE "spends_new" (
+    "id" TEXT PRIMARY KEY,
+    "createdAt" INTEGER NOT NULL,
+    "userId" TEXT,
+    "multisigPda" TEXT NOT NULL,
+    "usdValue" REAL NOT NULL,
+    "signature" TEXT
+  );
+
+  INSERT INTO "spends_new" SELECT "id", "createdAt", "userId", "multisigPda", "usdValue", "signature" FROM "spends";
+  DROP TABLE "spends";
+  ALTER TABLE "spends_new" RENAME TO "spends";
+
+  CREATE INDEX IF NOT EXISTS "spends_user_idx" ON "spends" ("userId", "createdAt");
+  `,
+];
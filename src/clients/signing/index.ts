@@ -0,0 +1,191 @@
+import NodeCache from "node-cache";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import type { Server } from "bun";
+import type { IAgentRuntime } from "@/core/types";
+import { loadKeypair } from "@/services/keys";
+
+/**
+ * How long a signing link stays valid, in seconds.
+ */
+const requestTtl = 15 * 60;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+/**
+ * A transaction a user is asked to sign in their wallet.
+ */
+export interface SigningRequest {
+  label: string; // Shown by the wallet before it asks for the transaction.
+  message: string; // Shown by the wallet with the transaction.
+  signer: PublicKey; // The only account allowed to fetch the transaction.
+  instructions: () => Promise<TransactionInstruction[]>; // Built when the wallet asks, so the blockhash is fresh.
+  onRequested?: () => void; // Called once the wallet has fetched the transaction.
+}
+
+/**
+ * Serves Solana Pay transaction requests, so users can sign transactions the agent
+ * prepares with their own wallet. The fee payer pays and partially signs them.
+ *
+ * Needs SIGNING_SERVER_URL, the public https address the server is reachable at,
+ * and listens on SIGNING_SERVER_PORT (3000 by default).
+ */
+export class SigningServer {
+  private connection: Connection;
+  private feePayer: Keypair;
+  private baseUrl: string | null;
+  private port: number;
+  private requests = new NodeCache({ stdTTL: requestTtl, useClones: false });
+  private server: Server | null = null;
+
+  constructor(runtime: IAgentRuntime, connection: Connection) {
+    this.connection = connection;
+    this.feePayer = loadKeypair(runtime, "FEE_PAYER_KEY");
+    this.baseUrl =
+      runtime.getSetting("SIGNING_SERVER_URL")?.replace(/\/$/, "") ?? null;
+    this.port = Number(runtime.getSetting("SIGNING_SERVER_PORT") ?? 3000);
+  }
+
+  /**
+   * Whether a public URL is configured, without which wallets can't reach the server.
+   */
+  get enabled(): boolean {
+    return this.baseUrl !== null;
+  }
+
+  start() {
+    if (!this.enabled || this.server) return;
+    this.server = Bun.serve({
+      port: this.port,
+      fetch: (request) => this.handle(request),
+    });
+    console.log(`✍️ Signing server listening on port ${this.port}`);
+  }
+
+  stop() {
+    this.server?.stop();
+    this.server = null;
+  }
+
+  /**
+   * Registers a signing request.
+   * @returns The https link to open the request in a wallet.
+   */
+  createRequest(request: SigningRequest): string {
+    if (!this.baseUrl) {
+      throw new Error("SIGNING_SERVER_URL is not set");
+    }
+    const token = crypto.randomUUID();
+    this.requests.set(token, request);
+    return `${this.baseUrl}/sign/${token}`;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    if (request.method === "OPTIONS") {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    if (pathname === "/banner.png") {
+      return new Response(Bun.file("public/banner.png"));
+    }
+
+    // The page Telegram links to, handing the Solana Pay link over to the wallet app
+    const page = pathname.match(/^\/sign\/([\w-]+)$/);
+    if (page && request.method === "GET") {
+      if (!this.requests.has(page[1])) {
+        return new Response("This link has expired.", { status: 404 });
+      }
+      const solanaPayUrl = `solana:${encodeURIComponent(`${this.baseUrl}/api/sign/${page[1]}`)}`;
+      return new Response(
+        `<!doctype html><html><head><meta name="viewport" content="width=device-width"><meta http-equiv="refresh" content="0;url=${solanaPayUrl}"></head>` +
+          `<body><p><a href="${solanaPayUrl}">Open in your wallet</a></p></body></html>`,
+        { headers: { "Content-Type": "text/html" } }
+      );
+    }
+
+    const api = pathname.match(/^\/api\/sign\/([\w-]+)$/);
+    const signingRequest = api
+      ? this.requests.get<SigningRequest>(api[1])
+      : undefined;
+    if (!api || !signingRequest) {
+      return Response.json(
+        { error: "Not found" },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    if (request.method === "GET") {
+      return Response.json(
+        { label: signingRequest.label, icon: `${this.baseUrl}/banner.png` },
+        { headers: corsHeaders }
+      );
+    }
+
+    if (request.method === "POST") {
+      let account: PublicKey;
+      try {
+        const body = (await request.json()) as { account?: string };
+        account = new PublicKey(body.account ?? "");
+      } catch {
+        return Response.json(
+          { error: "Invalid account" },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+
+      if (!account.equals(signingRequest.signer)) {
+        return Response.json(
+          {
+            error: `This request must be signed by ${signingRequest.signer.toBase58()}`,
+          },
+          { status: 403, headers: corsHeaders }
+        );
+      }
+
+      try {
+        const tx = new Transaction().add(
+          ...(await signingRequest.instructions())
+        );
+        tx.feePayer = this.feePayer.publicKey;
+        tx.recentBlockhash = (
+          await this.connection.getLatestBlockhash()
+        ).blockhash;
+        tx.partialSign(this.feePayer);
+
+        signingRequest.onRequested?.();
+
+        return Response.json(
+          {
+            transaction: tx
+              .serialize({ requireAllSignatures: false })
+              .toString("base64"),
+            message: signingRequest.message,
+          },
+          { headers: corsHeaders }
+        );
+      } catch (error) {
+        console.error("❌ Error building signing request:", error);
+        return Response.json(
+          { error: "Couldn't build the transaction" },
+          { status: 500, headers: corsHeaders }
+        );
+      }
+    }
+
+    return Response.json(
+      { error: "Method not allowed" },
+      { status: 405, headers: corsHeaders }
+    );
+  }
+}
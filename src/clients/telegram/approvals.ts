@@ -0,0 +1,266 @@
+import { Context, Markup, Telegraf } from "telegraf";
+import { PublicKey } from "@solana/web3.js";
+import { connection } from "@/constant";
+import { stringToUuid } from "@/core/uuid";
+import type { AgentRuntime } from "@/core/runtime";
+import type { UUID, Wallet } from "@/core/types";
+import type { SigningServer } from "@/clients/signing";
+import WalletService from "@/services/wallet";
+import type { ProposalInfo } from "@/services/proposals";
+import type { AuditOrigin } from "@/services/audit";
+import { auditOrigin } from "./utils";
+
+/**
+ * How often a proposal is checked for the owner's vote after they opened a signing link, in milliseconds.
+ */
+const watchInterval = 5_000;
+
+/**
+ * How long the owner's vote is waited for once their wallet fetched the transaction, in
+ * milliseconds. Proposals approved later are executed with /execute.
+ */
+const watchTimeout = 3 * 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * The Approve and Reject buttons of a proposal. Their data names the wallet,
+ * so only its owner can vote with them, even in a group chat.
+ */
+export function approvalKeyboard(walletId: UUID, transactionIndex: bigint) {
+  return Markup.inlineKeyboard([
+    Markup.button.callback(
+      "✅ Approve",
+      `approve:${walletId}:${transactionIndex}`
+    ),
+    Markup.button.callback("❌ Reject", `reject:${walletId}:${transactionIndex}`),
+  ]);
+}
+
+/**
+ * Handles the Approve and Reject buttons posted with the agent's proposals: the owner
+ * gets a link to sign their vote in their wallet, and once the proposal reaches its
+ * threshold the agent executes it.
+ */
+export class ProposalApprovals {
+  private bot: Telegraf<Context>;
+  private runtime: AgentRuntime;
+  private signingServer: SigningServer;
+  private walletService: WalletService;
+  private watching = new Set<string>();
+
+  constructor(
+    bot: Telegraf<Context>,
+    runtime: AgentRuntime,
+    signingServer: SigningServer
+  ) {
+    this.bot = bot;
+    this.runtime = runtime;
+    this.signingServer = signingServer;
+    this.walletService = new WalletService(runtime, connection);
+  }
+
+  register() {
+    this.bot.action(
+      /^(approve|reject):([\w-]+):(\d+)$/,
+      async (ctx) => {
+        const [, vote, walletId, index] = ctx.match;
+        try {
+          await this.handleVote(
+            ctx,
+            vote as "approve" | "reject",
+            walletId,
+            BigInt(index)
+          );
+        } catch (error) {
+          console.error(`❌ Error handling ${vote} of #${index}:`, error);
+          await ctx.reply(`Something went wrong with proposal #${index}.`);
+        }
+      }
+    );
+  }
+
+  private async handleVote(
+    ctx: Context,
+    vote: "approve" | "reject",
+    walletId: string,
+    transactionIndex: bigint
+  ) {
+    if (!ctx.from || !ctx.chat) return;
+
+    const wallet = await this.walletService.getWallet(
+      stringToUuid(ctx.from.id.toString())
+    );
+    if (wallet?.id !== walletId) {
+      await ctx.answerCbQuery("Only the wallet owner can vote on this proposal");
+      return;
+    }
+
+    const origin = auditOrigin(ctx);
+    const proposalManager = this.getProposalManager(wallet, origin);
+    const proposal = await proposalManager.getProposal(transactionIndex);
+    if (!proposal) {
+      await ctx.answerCbQuery(`Proposal #${transactionIndex} not found`);
+      return;
+    }
+
+    // Approved earlier, but the vote landed after we stopped watching
+    if (proposal.status === "Approved" && vote === "approve") {
+      await ctx.answerCbQuery();
+      await this.execute(ctx.chat.id, wallet, transactionIndex, origin);
+      return;
+    }
+    if (proposal.status !== "Active") {
+      await ctx.answerCbQuery(
+        `Proposal #${transactionIndex} is already ${proposal.status}`
+      );
+      return;
+    }
+    if (!this.signingServer.enabled) {
+      await ctx.answerCbQuery();
+      await ctx.reply(
+        `Signing links aren't set up. ${vote === "approve" ? "Approve" : "Reject"} proposal #${transactionIndex} in the Squads app with your member key.`
+      );
+      return;
+    }
+
+    const owner = new PublicKey(wallet.owner);
+    const multisigService = this.walletService.getMultiSigService(wallet);
+    const chatId = ctx.chat.id;
+    const link = this.signingServer.createRequest({
+      label: `${vote === "approve" ? "Approve" : "Reject"} proposal #${transactionIndex}`,
+      message: `${vote === "approve" ? "Approve" : "Reject"} proposal #${transactionIndex} of multisig ${wallet.multisigPda}`,
+      signer: owner,
+      instructions: async () => [
+        vote === "approve"
+          ? multisigService.approveTx(transactionIndex, owner)
+          : multisigService.rejectTx(transactionIndex, owner),
+      ],
+      onRequested: () => {
+        this.watch(chatId, wallet, transactionIndex, origin).catch((error) =>
+          console.error(`❌ Error watching #${transactionIndex}:`, error)
+        );
+      },
+    });
+
+    await ctx.answerCbQuery();
+    await ctx.reply(
+      `Sign your ${vote === "approve" ? "approval" : "rejection"} of proposal #${transactionIndex} in your wallet:`,
+      Markup.inlineKeyboard([Markup.button.url("✍️ Sign in wallet", link)])
+    );
+  }
+
+  private getProposalManager(wallet: Wallet, origin: AuditOrigin) {
+    return new WalletService(
+      this.runtime,
+      connection,
+      origin
+    ).getProposalManager(wallet);
+  }
+
+  /**
+   * Waits for the owner's vote to land, records it in the audit log, then executes the
+   * proposal if it passed.
+   */
+  private async watch(
+    chatId: number,
+    wallet: Wallet,
+    transactionIndex: bigint,
+    origin: AuditOrigin
+  ) {
+    const key = `${wallet.id}-${transactionIndex}`;
+    if (this.watching.has(key)) return;
+    this.watching.add(key);
+
+    try {
+      const proposalManager = this.getProposalManager(wallet, origin);
+      const deadline = Date.now() + watchTimeout;
+
+      // Only votes that land while watching are the owner's new one
+      const initial = await proposalManager.getProposal(transactionIndex);
+      const voted = (proposal: ProposalInfo, vote: "approved" | "rejected") =>
+        proposal[vote].includes(wallet.owner) &&
+        !initial?.[vote].includes(wallet.owner);
+      const recordVote = async (proposal: ProposalInfo) => {
+        for (const vote of ["approved", "rejected"] as const) {
+          if (!voted(proposal, vote)) continue;
+          await proposalManager
+            .recordVote(
+              transactionIndex,
+              vote === "approved" ? "approve" : "reject",
+              wallet.owner
+            )
+            .catch((error) =>
+              console.error(
+                `❌ Error recording the vote on #${transactionIndex}:`,
+                error
+              )
+            );
+        }
+      };
+
+      while (Date.now() < deadline) {
+        await sleep(watchInterval);
+
+        const proposal = await proposalManager.getProposal(transactionIndex);
+        if (!proposal) continue;
+
+        if (proposal.status === "Approved") {
+          await recordVote(proposal);
+          await this.execute(chatId, wallet, transactionIndex, origin);
+          return;
+        }
+        if (proposal.status === "Rejected") {
+          await recordVote(proposal);
+          await proposalManager.reconcile();
+          await this.send(chatId, `❌ Proposal #${transactionIndex} was rejected.`);
+          return;
+        }
+        if (proposal.approved.includes(wallet.owner)) {
+          await recordVote(proposal);
+          await this.send(
+            chatId,
+            `✅ Your approval of proposal #${transactionIndex} is recorded. It still needs more votes, run /execute ${transactionIndex} once it has them.`
+          );
+          return;
+        }
+      }
+
+      // The vote or the threshold can still land later, and nothing watches for it then
+      await this.send(
+        chatId,
+        `I stopped waiting for your vote on proposal #${transactionIndex}. If you still sign it, run /execute ${transactionIndex} once it is approved.`
+      );
+    } finally {
+      this.watching.delete(key);
+    }
+  }
+
+  private async execute(
+    chatId: number,
+    wallet: Wallet,
+    transactionIndex: bigint,
+    origin: AuditOrigin
+  ) {
+    try {
+      const signature = await this.getProposalManager(
+        wallet,
+        origin
+      ).execute(transactionIndex);
+      await this.send(
+        chatId,
+        `✅ Proposal #${transactionIndex} was approved and executed.\nSignature: ${signature}`
+      );
+    } catch (error) {
+      console.error(`❌ Error executing #${transactionIndex}:`, error);
+      await this.send(
+        chatId,
+        `Proposal #${transactionIndex} was approved, but executing it failed. Retry with /execute ${transactionIndex}.`
+      );
+    }
+  }
+
+  private async send(chatId: number, text: string) {
+    await this.bot.telegram.sendMessage(chatId, text);
+  }
+}
@@ -0,0 +1,72 @@
+import { connection } from "@/constant";
+import { stringToUuid } from "@/core/uuid";
+import WalletService from "@/services/wallet";
+import { auditOrigin } from "../utils";
+import type { TelegramCommand } from "../types";
+
+export const executeCommand: TelegramCommand = {
+  name: "execute",
+  description: "Execute an approved proposal, or list the ones waiting",
+  usage: "/execute [proposal number]",
+  requiresWallets: true,
+  handler: async (ctx, args, runtime) => {
+    if (!ctx.from) return;
+
+    const walletService = new WalletService(
+      runtime,
+      connection,
+      auditOrigin(ctx)
+    );
+    const wallet = await walletService.getWallet(
+      stringToUuid(ctx.from.id.toString())
+    );
+    if (!wallet) {
+      await ctx.reply("You don't have a wallet yet. Create one with /wallet.");
+      return;
+    }
+
+    const proposalManager = walletService.getProposalManager(wallet);
+    const [index] = args;
+
+    if (!index) {
+      const approved = (await proposalManager.reconcile()).filter(
+        (proposal) => proposal.status === "Approved"
+      );
+      await ctx.reply(
+        approved.length > 0
+          ? `Approved proposals waiting to be executed: ${approved.map((proposal) => `#${proposal.transactionIndex}`).join(", ")}\nUsage: ${executeCommand.usage}`
+          : "No approved proposals are waiting to be executed."
+      );
+      return;
+    }
+
+    if (!/^\d+$/.test(index)) {
+      await ctx.reply(`Usage: ${executeCommand.usage}`);
+      return;
+    }
+
+    const transactionIndex = BigInt(index);
+    const proposal = await proposalManager.getProposal(transactionIndex);
+    if (!proposal) {
+      await ctx.reply(`Proposal #${transactionIndex} not found.`);
+      return;
+    }
+    if (proposal.status !== "Approved") {
+      await ctx.reply(
+        `Proposal #${transactionIndex} is ${proposal.status}, only approved proposals can be executed.`
+      );
+      return;
+    }
+
+    try {
+      const signature = await proposalManager.execute(transactionIndex);
+      await ctx.reply(
+        `✅ Proposal #${transactionIndex} was executed.\nSignature: ${signature}`
+      );
+    } catch (error) {
+      await ctx.reply(
+        `Executing proposal #${transactionIndex} failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  },
+};
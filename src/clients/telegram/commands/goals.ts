@@ -0,0 +1,59 @@
+import { updateGoal } from "@/core/goals";
+import { GoalStatus, type Goal } from "@/core/types";
+import { stringToUuid } from "@/core/uuid";
+import type { TelegramCommand } from "../types";
+
+function formatGoal(goal: Goal, index: number) {
+  const done = goal.objectives.filter((objective) => objective.completed);
+  return [
+    `${index + 1}. ${goal.name} (${done.length}/${goal.objectives.length})`,
+    ...goal.objectives.map(
+      (objective) =>
+        `   ${objective.completed ? "✅" : "⬜️"} ${objective.description}`
+    ),
+  ].join("\n");
+}
+
+export const goalsCommand: TelegramCommand = {
+  name: "goals",
+  description: "List the goals in progress in this chat, or cancel one",
+  usage: "/goals [cancel <number>]",
+  handler: async (ctx, args, runtime) => {
+    if (!ctx.chat || !ctx.from) return;
+
+    // Same room as the chat's messages, see MessageManager.handleMessage
+    const roomId = stringToUuid(ctx.chat.id.toString() + "-" + runtime.agentId);
+    const goals = await runtime.databaseAdapter.getGoals({
+      roomId,
+      onlyInProgress: true,
+    });
+
+    const [subcommand, number] = args;
+
+    if (!subcommand) {
+      await ctx.reply(
+        goals.length > 0
+          ? `🎯 Goals in progress\n\n${goals.map(formatGoal).join("\n\n")}`
+          : "There are no goals in progress in this chat."
+      );
+      return;
+    }
+
+    const goal = goals[Number(number) - 1];
+    if (subcommand !== "cancel" || !goal) {
+      await ctx.reply(`Usage: ${goalsCommand.usage}`);
+      return;
+    }
+
+    if (goal.userId !== stringToUuid(ctx.from.id.toString())) {
+      await ctx.reply("You can only cancel your own goals.");
+      return;
+    }
+
+    await updateGoal({
+      runtime,
+      goal: { ...goal, status: GoalStatus.CANCELLED },
+    });
+    await ctx.reply(`Cancelled "${goal.name}".`);
+  },
+};
@@ -0,0 +1,68 @@
+import { stringToUuid } from "@/core/uuid";
+import type { AuditEntry, AuditStatus } from "@/core/types";
+import AuditLog from "@/services/audit";
+import { splitMessage } from "../utils";
+import type { TelegramCommand } from "../types";
+
+/**
+ * How many of the latest entries the command lists.
+ */
+const listedEntries = 10;
+
+const statusIcons: Record<AuditStatus, string> = {
+  success: "✅",
+  failed: "❌",
+  blocked: "🚫",
+};
+
+function formatEntry(entry: AuditEntry) {
+  const date = new Date(entry.createdAt).toISOString().slice(0, 16);
+  const lines = [
+    `${statusIcons[entry.status]} ${date.replace("T", " ")} ${entry.action}${entry.transactionIndex ? ` #${entry.transactionIndex}` : ""}`,
+    ...entry.instructions.map((instruction) => `   ${instruction}`),
+  ];
+  if (entry.signature) lines.push(`   Signature: ${entry.signature}`);
+  if (entry.error) lines.push(`   Error: ${entry.error}`);
+  return lines.join("\n");
+}
+
+export const historyCommand: TelegramCommand = {
+  name: "history",
+  description: "Show what I did on your multisig, or export it",
+  usage: "/history [csv|jsonl]",
+  handler: async (ctx, args, runtime) => {
+    if (!ctx.from) return;
+
+    const userId = stringToUuid(ctx.from.id.toString());
+    const auditLog = new AuditLog(runtime);
+    const [format] = args;
+
+    if (format === "csv" || format === "jsonl") {
+      const content =
+        format === "csv"
+          ? await auditLog.exportCsv({ userId })
+          : await auditLog.exportJsonl({ userId });
+      await ctx.replyWithDocument({
+        source: Buffer.from(content),
+        filename: `history.${format}`,
+      });
+      return;
+    }
+    if (format) {
+      await ctx.reply(`Usage: ${historyCommand.usage}`);
+      return;
+    }
+
+    const entries = await auditLog.query({ userId, count: listedEntries });
+    if (entries.length === 0) {
+      await ctx.reply("Nothing happened on your multisig yet.");
+      return;
+    }
+
+    for (const chunk of splitMessage(
+      `📜 Your latest actions\n\n${entries.map(formatEntry).join("\n\n")}\n\nExport everything with /history csv or /history jsonl.`
+    )) {
+      await ctx.reply(chunk);
+    }
+  },
+};
@@ -0,0 +1,72 @@
+import { connection } from "@/constant";
+import { cache } from "@/adapters/cache";
+import TokenReportGenerator from "@/providers/tokens";
+import { loadHolderScanner } from "@/services/holders";
+import { loadMarketDataProviders } from "@/services/marketData";
+import { isValidAddress, splitMessage } from "../utils";
+import type { TelegramCommand } from "../types";
+
+/**
+ * How often the working message shows the scan's progress, in milliseconds.
+ * Telegram rate limits message edits.
+ */
+const progressInterval = 5_000;
+
+export const reportCommand: TelegramCommand = {
+  name: "report",
+  description: "Score a token's rug risk and report its holders and markets",
+  usage: "/report <mint address>",
+  handler: async (ctx, args, runtime) => {
+    const [mint] = args;
+
+    if (!mint || !isValidAddress(mint)) {
+      await ctx.reply(
+        `That doesn't look like a token address.\nUsage: ${reportCommand.usage}`
+      );
+      return;
+    }
+
+    const workingMessage = await ctx.reply(
+      `🔎 Generating report for ${mint}, this can take a minute...`
+    );
+
+    let lastProgress = Date.now();
+
+    try {
+      const generator = new TokenReportGenerator(mint, connection, cache, {
+        marketDataProviders: loadMarketDataProviders(runtime),
+        holderScanner: loadHolderScanner(runtime, connection, cache),
+        onProgress: ({ accounts, done }) => {
+          if (done || Date.now() - lastProgress < progressInterval) return;
+          lastProgress = Date.now();
+          ctx.telegram
+            .editMessageText(
+              workingMessage.chat.id,
+              workingMessage.message_id,
+              undefined,
+              `🔎 Generating report for ${mint}, ${accounts.toLocaleString("en-US")} token accounts scanned so far...`
+            )
+            .catch((error) =>
+              console.error("Error updating working message:", error)
+            );
+        },
+      });
+      const report = await generator.generateReportString();
+
+      for (const chunk of splitMessage(report)) {
+        await ctx.reply(chunk);
+      }
+    } catch (error) {
+      console.error(`❌ Error generating report for ${mint}:`, error);
+      await ctx.reply(
+        `Couldn't generate a report for ${mint}. Make sure it is a token mint address.`
+      );
+    } finally {
+      await ctx
+        .deleteMessage(workingMessage.message_id)
+        .catch((error) =>
+          console.error("Error deleting working message:", error)
+        );
+    }
+  },
+};
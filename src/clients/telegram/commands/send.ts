@@ -0,0 +1,113 @@
+import { PublicKey } from "@solana/web3.js";
+import { connection } from "@/constant";
+import { stringToUuid } from "@/core/uuid";
+import WalletService from "@/services/wallet";
+import VaultService from "@/services/vaults";
+import { formatAmount, parseAmount } from "@/services/instructions";
+import { getMintInfo } from "@/services/transfers";
+import { PolicyViolationError } from "@/services/policy";
+import { approvalKeyboard } from "../approvals";
+import { auditOrigin, isValidAddress } from "../utils";
+import type { TelegramCommand } from "../types";
+
+export const sendCommand: TelegramCommand = {
+  name: "send",
+  description: "Send SOL or tokens from one of your vaults",
+  usage:
+    "/send <amount> <address or vault name> [token mint] [from <vault name>]",
+  requiresWallets: true,
+  handler: async (ctx, args, runtime) => {
+    if (!ctx.from) return;
+
+    // An optional "from <vault>" picks the vault to send from, the default one otherwise
+    const fromAt = args.indexOf("from");
+    const from = fromAt >= 0 ? args[fromAt + 1] : undefined;
+    const [amountText, destinationText, mintAddress] =
+      fromAt >= 0 ? args.slice(0, fromAt) : args;
+    if (
+      !amountText ||
+      !destinationText ||
+      (fromAt >= 0 && !from) ||
+      (mintAddress && !isValidAddress(mintAddress))
+    ) {
+      await ctx.reply(`Usage: ${sendCommand.usage}`);
+      return;
+    }
+
+    const origin = auditOrigin(ctx);
+    const walletService = new WalletService(runtime, connection, origin);
+    const wallet = await walletService.getWallet(
+      stringToUuid(ctx.from.id.toString())
+    );
+    if (!wallet) {
+      await ctx.reply("You don't have a wallet yet. Create one with /wallet.");
+      return;
+    }
+
+    const vaultService = new VaultService(runtime, connection, origin);
+    let vaultIndex = 0;
+    let destination: PublicKey;
+    try {
+      if (from) {
+        vaultIndex = await vaultService.resolveVault(wallet, from);
+      }
+      destination = isValidAddress(destinationText)
+        ? new PublicKey(destinationText)
+        : vaultService.getVaultAddress(
+            wallet,
+            await vaultService.resolveVault(wallet, destinationText)
+          );
+    } catch (error) {
+      await ctx.reply(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    const mint = mintAddress ? new PublicKey(mintAddress) : undefined;
+    const { decimals } = await getMintInfo(connection, mint);
+    const amount = parseAmount(amountText, decimals);
+    if (amount === null) {
+      await ctx.reply(
+        `${amountText} isn't a valid amount, it can have at most ${decimals} decimals.`
+      );
+      return;
+    }
+
+    // Nothing is sent before the user has seen what the transfer does
+    const transfer = await vaultService.prepareTransfer(wallet, {
+      vaultIndex,
+      destination,
+      amount,
+      mint,
+    });
+    await ctx.reply(transfer.preview.summary);
+    if (!transfer.preview.success) {
+      await ctx.reply("The transfer would fail, so I didn't send it.");
+      return;
+    }
+
+    let result;
+    try {
+      result = await vaultService.submitTransfer(wallet, transfer);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        await ctx.reply(error.message);
+        return;
+      }
+      throw error;
+    }
+    if ("signature" in result) {
+      await ctx.reply(
+        `✅ Sent ${formatAmount(amount, decimals)} ${mintAddress ?? "SOL"} to ${destinationText} under your spending limit.\nSignature: ${result.signature}`
+      );
+      return;
+    }
+
+    const summary = await walletService
+      .getProposalManager(wallet)
+      .describeProposal(result.transactionIndex);
+    await ctx.reply(
+      `${summary}\n\nThis isn't covered by a spending limit, so it needs your approval.`,
+      approvalKeyboard(wallet.id, result.transactionIndex)
+    );
+  },
+};
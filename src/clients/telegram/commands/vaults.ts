@@ -0,0 +1,78 @@
+import { PublicKey } from "@solana/web3.js";
+import { connection } from "@/constant";
+import { stringToUuid } from "@/core/uuid";
+import WalletService from "@/services/wallet";
+import VaultService, { type VaultInfo } from "@/services/vaults";
+import { formatAmount } from "@/services/instructions";
+import { splitMessage } from "../utils";
+import type { TelegramCommand } from "../types";
+
+const solDecimals = 9;
+
+function formatVault(vault: VaultInfo) {
+  const lines = [
+    `#${vault.vaultIndex}${vault.name ? ` ${vault.name}` : ""}: ${vault.address}`,
+    `   ${formatAmount(vault.lamports, solDecimals)} SOL`,
+    ...vault.tokens.map(
+      (token) => `   ${formatAmount(token.amount, token.decimals)} of ${token.mint}`
+    ),
+  ];
+  for (const spendingLimit of vault.spendingLimits) {
+    // Token amounts stay in base units, their decimals would take a lookup per mint
+    const isSol = new PublicKey(spendingLimit.mint).equals(PublicKey.default);
+    const format = (amount: string) =>
+      isSol
+        ? `${formatAmount(BigInt(amount), solDecimals)} SOL`
+        : `${amount} base units of ${spendingLimit.mint}`;
+    lines.push(
+      `   Spending limit: ${format(spendingLimit.amount)} per ${spendingLimit.period}, ${format(spendingLimit.remainingAmount)} left`
+    );
+  }
+  return lines.join("\n");
+}
+
+export const vaultsCommand: TelegramCommand = {
+  name: "vaults",
+  description: "List your vaults and their balances, or name one",
+  usage: "/vaults [name <vault number> <name>]",
+  requiresWallets: true,
+  handler: async (ctx, args, runtime) => {
+    if (!ctx.from) return;
+
+    const walletService = new WalletService(runtime, connection);
+    const wallet = await walletService.getWallet(
+      stringToUuid(ctx.from.id.toString())
+    );
+    if (!wallet) {
+      await ctx.reply("You don't have a wallet yet. Create one with /wallet.");
+      return;
+    }
+
+    const vaultService = new VaultService(runtime, connection);
+    const [subcommand, number, name] = args;
+
+    if (!subcommand) {
+      const vaults = await vaultService.listVaults(wallet);
+      for (const chunk of splitMessage(
+        `🏦 Your vaults\n\n${vaults.map(formatVault).join("\n\n")}`
+      )) {
+        await ctx.reply(chunk);
+      }
+      return;
+    }
+
+    if (subcommand !== "name" || !/^\d+$/.test(number ?? "") || !name) {
+      await ctx.reply(`Usage: ${vaultsCommand.usage}`);
+      return;
+    }
+
+    try {
+      const vault = await vaultService.nameVault(wallet, Number(number), name);
+      await ctx.reply(
+        `Vault #${vault.vaultIndex} is now called ${vault.name}. Its address is ${vaultService.getVaultAddress(wallet, vault.vaultIndex).toBase58()}.`
+      );
+    } catch (error) {
+      await ctx.reply(error instanceof Error ? error.message : String(error));
+    }
+  },
+};
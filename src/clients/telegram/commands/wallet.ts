@@ -0,0 +1,95 @@
+import { PublicKey } from "@solana/web3.js";
+import { connection } from "@/constant";
+import { createGoal } from "@/core/goals";
+import { stringToUuid } from "@/core/uuid";
+import type { Wallet } from "@/core/types";
+import WalletService from "@/services/wallet";
+import { auditOrigin, isValidAddress } from "../utils";
+import type { TelegramCommand } from "../types";
+
+function formatWallet(wallet: Wallet) {
+  return [
+    "👛 Your multisig wallet",
+    `Multisig: ${wallet.multisigPda}`,
+    `Vault (send funds here): ${wallet.vaultPda}`,
+    `Your member key: ${wallet.owner}`,
+  ].join("\n");
+}
+
+export const walletCommand: TelegramCommand = {
+  name: "wallet",
+  description: "Show your multisig wallet, or create one with your address",
+  usage: "/wallet <your Solana address>",
+  requiresWallets: true,
+  handler: async (ctx, args, runtime) => {
+    if (!ctx.from) return;
+
+    const userId = stringToUuid(ctx.from.id.toString());
+    const walletService = new WalletService(
+      runtime,
+      connection,
+      auditOrigin(ctx)
+    );
+
+    const existing = await walletService.getWallet(userId);
+    if (existing) {
+      await ctx.reply(formatWallet(existing));
+      return;
+    }
+
+    const [owner] = args;
+    if (!owner || !isValidAddress(owner)) {
+      await ctx.reply(
+        `You don't have a wallet yet. Send your Solana address to create one, shared between you and me.\nUsage: ${walletCommand.usage}`
+      );
+      return;
+    }
+
+    await runtime.ensureUserExists(
+      userId,
+      ctx.from.username ?? null,
+      ctx.from.first_name,
+      "telegram"
+    );
+
+    const workingMessage = await ctx.reply(
+      "🛠 Creating your multisig wallet, this takes a few seconds..."
+    );
+
+    try {
+      const wallet = await walletService.createWallet(
+        userId,
+        new PublicKey(owner)
+      );
+      await ctx.reply(formatWallet(wallet));
+
+      // Tracks onboarding in the chat the wallet was created from
+      if (ctx.chat) {
+        const roomId = stringToUuid(
+          ctx.chat.id.toString() + "-" + runtime.agentId
+        );
+        await runtime.ensureRoomExists(roomId);
+        await createGoal({
+          runtime,
+          roomId,
+          userId,
+          name: "Get started with a multisig wallet",
+          objectives: [
+            { description: "Create the multisig wallet", completed: true },
+            { description: "Fund the vault" },
+            { description: "Make a first trade" },
+          ],
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Error creating wallet for ${userId}:`, error);
+      await ctx.reply("Couldn't create your wallet. Please try again later.");
+    } finally {
+      await ctx
+        .deleteMessage(workingMessage.message_id)
+        .catch((error) =>
+          console.error("Error deleting working message:", error)
+        );
+    }
+  },
+};
@@ -0,0 +1,101 @@
+import { Context, Markup, Telegraf } from "telegraf";
+import { connection } from "@/constant";
+import { stringToUuid } from "@/core/uuid";
+import type { AgentRuntime } from "@/core/runtime";
+import WalletService from "@/services/wallet";
+import VaultService from "@/services/vaults";
+import { PolicyViolationError } from "@/services/policy";
+import { approvalKeyboard } from "./approvals";
+import { auditOrigin } from "./utils";
+
+/**
+ * The Confirm and Cancel buttons of a held transfer.
+ */
+export function confirmationKeyboard(transferId: string) {
+  return Markup.inlineKeyboard([
+    Markup.button.callback("✅ Confirm", `confirm:${transferId}`),
+    Markup.button.callback("❌ Cancel", `cancel:${transferId}`),
+  ]);
+}
+
+/**
+ * Handles the Confirm and Cancel buttons posted with the transfers the agent holds,
+ * sending a transfer only once its wallet's owner confirmed it.
+ */
+export class TransferConfirmations {
+  private bot: Telegraf<Context>;
+  private runtime: AgentRuntime;
+
+  constructor(bot: Telegraf<Context>, runtime: AgentRuntime) {
+    this.bot = bot;
+    this.runtime = runtime;
+  }
+
+  register() {
+    this.bot.action(/^(confirm|cancel):([\w-]+)$/, async (ctx) => {
+      const [, choice, transferId] = ctx.match;
+      try {
+        await this.handleChoice(ctx, choice === "confirm", transferId);
+      } catch (error) {
+        console.error(`❌ Error handling ${choice} of a transfer:`, error);
+        await ctx.reply("Something went wrong with the transfer.");
+      }
+    });
+  }
+
+  private async handleChoice(
+    ctx: Context,
+    confirmed: boolean,
+    transferId: string
+  ) {
+    if (!ctx.from) return;
+
+    const origin = auditOrigin(ctx);
+    const walletService = new WalletService(this.runtime, connection, origin);
+    const wallet = await walletService.getWallet(
+      stringToUuid(ctx.from.id.toString())
+    );
+    const vaultService = new VaultService(this.runtime, connection, origin);
+    // Only the owner's wallet finds the transfer, even in a group chat
+    const held = wallet && vaultService.takeHeldTransfer(wallet, transferId);
+    if (!wallet || !held) {
+      await ctx.answerCbQuery(
+        "This transfer isn't yours, expired, or was already handled"
+      );
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+
+    if (!confirmed) {
+      await ctx.reply(`Cancelled moving ${held.description}.`);
+      return;
+    }
+
+    let result;
+    try {
+      result = await vaultService.submitTransfer(wallet, held.transfer);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        await ctx.reply(error.message);
+        return;
+      }
+      throw error;
+    }
+    if ("signature" in result) {
+      await ctx.reply(
+        `✅ Moved ${held.description} under your spending limit.\nSignature: ${result.signature}`
+      );
+      return;
+    }
+
+    const summary = await walletService
+      .getProposalManager(wallet)
+      .describeProposal(result.transactionIndex);
+    await ctx.reply(
+      `${summary}\n\nThis isn't covered by a spending limit, so it needs your approval.`,
+      approvalKeyboard(wallet.id, result.transactionIndex)
+    );
+  }
+}
@@ -1,20 +1,80 @@
 import { Context, Telegraf } from "telegraf";
 import { MessageManager } from "./messageManager";
+import type { AgentRuntime } from "@/core/runtime";
+import type { TelegramCommand } from "./types";
+import { reportCommand } from "./commands/report";
+import { walletCommand } from "./commands/wallet";
+import { goalsCommand } from "./commands/goals";
+import { sendCommand } from "./commands/send";
+import { vaultsCommand } from "./commands/vaults";
+import { historyCommand } from "./commands/history";
+import { executeCommand } from "./commands/execute";
+import { ProposalApprovals } from "./approvals";
+import { TransferConfirmations } from "./confirmations";
+import { SigningServer } from "@/clients/signing";
+import { connection } from "@/constant";
+import { walletKeysConfigured } from "@/services/keys";
 
 export class TelegramClient {
   private bot: Telegraf<Context>;
   private messageManager: MessageManager;
+  private runtime: AgentRuntime;
+  private signingServer: SigningServer | null = null; // Only with wallet keys configured
+  private approvals: ProposalApprovals | null = null;
+  private confirmations: TransferConfirmations | null = null;
+  private commands: TelegramCommand[] = [
+    reportCommand,
+    walletCommand,
+    goalsCommand,
+    sendCommand,
+    vaultsCommand,
+    historyCommand,
+    executeCommand,
+  ];
 
-  constructor(botToken: string, openAiKey: string) {
+  constructor(runtime: AgentRuntime, botToken: string) {
     console.log("📱 Constructing new TelegramClient...");
+    this.runtime = runtime;
     this.bot = new Telegraf(botToken);
-    this.messageManager = new MessageManager(this.bot, openAiKey);
+    this.messageManager = new MessageManager(this.bot, this.runtime);
+    // Without wallet keys the bot still chats and reports, and the wallet commands say so
+    if (walletKeysConfigured(this.runtime)) {
+      this.signingServer = new SigningServer(this.runtime, connection);
+      this.approvals = new ProposalApprovals(
+        this.bot,
+        this.runtime,
+        this.signingServer
+      );
+      this.confirmations = new TransferConfirmations(this.bot, this.runtime);
+    } else {
+      console.warn("⚠️ FEE_PAYER_KEY or AGENT_KEY is not set, wallets are off");
+    }
 
     this.setupHandlers();
     console.log("✅ TelegramClient constructor completed");
   }
 
   private setupHandlers() {
+    // Commands are registered first so they never reach the message handler
+    for (const command of this.commands) {
+      this.bot.command(command.name, async (ctx) => {
+        const args = ctx.payload.split(/\s+/).filter(Boolean);
+        if (command.requiresWallets && !this.signingServer) {
+          await ctx.reply("Wallets aren't configured on this bot.");
+          return;
+        }
+        try {
+          await command.handler(ctx, args, this.runtime);
+        } catch (error) {
+          console.error(`❌ Error handling /${command.name}:`, error);
+          await ctx.reply(`Something went wrong running /${command.name}.`);
+        }
+      });
+    }
+
+    this.approvals?.register();
+    this.confirmations?.register();
+
     this.bot.on("message", async (ctx) => {
       try {
         await this.messageManager.handleMessage(ctx);
@@ -33,6 +93,13 @@ export class TelegramClient {
   public async start(): Promise<void> {
     console.log("🚀 Starting Telegram bot...");
     try {
+      await this.bot.telegram.setMyCommands(
+        this.commands.map(({ name, description }) => ({
+          command: name,
+          description,
+        }))
+      );
+      this.signingServer?.start();
       await this.bot.launch({
         dropPendingUpdates: true,
       });
@@ -50,6 +117,7 @@ export class TelegramClient {
   public async stop(): Promise<void> {
     console.log("Stopping Telegram bot...");
     await this.bot.stop();
+    this.signingServer?.stop();
     console.log("Telegram bot stopped");
   }
 }
\ No newline at end of file
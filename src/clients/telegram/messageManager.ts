@@ -2,18 +2,27 @@ import { Context, Telegraf } from "telegraf";
 import type { Message } from "typegram/message";
 import { log_to_file } from "@/core/logger";
 import { stringToUuid } from "@/core/uuid";
+import { composeContext } from "@/core/context";
+import {
+  messageHandlerTemplate,
+  shouldRespondTemplate,
+} from "@/core/templates";
+import type { AgentRuntime } from "@/core/runtime";
+import type { Content, Memory, State, UUID } from "@/core/types";
 import { cache } from "@/adapters/cache";
-import ImageDescriptionService from "@/services/image";
+import { splitMessage } from "./utils";
+import { approvalKeyboard } from "./approvals";
+import { confirmationKeyboard } from "./confirmations";
 
-const MAX_MESSAGE_LENGTH = 4096;
+type SentMessage = Awaited<ReturnType<Context["telegram"]["sendMessage"]>>;
 
 export class MessageManager {
   private bot: Telegraf<Context>;
-  private imageService: ImageDescriptionService;
+  private runtime: AgentRuntime;
 
-  constructor(bot: Telegraf<Context>, openAiKey: string) {
+  constructor(bot: Telegraf<Context>, runtime: AgentRuntime) {
     this.bot = bot;
-    this.imageService = ImageDescriptionService.getInstance(openAiKey);
+    this.runtime = runtime;
   }
 
   private async processImage(
@@ -36,10 +45,9 @@ export class MessageManager {
         imageUrl = fileLink.toString();
       }
 
-      if (imageUrl) {
-        const { title, description } = await this.imageService.describeImage(
-          imageUrl
-        );
+      if (imageUrl && this.runtime.imageDescriptionService) {
+        const { title, description } =
+          await this.runtime.imageDescriptionService.describeImage(imageUrl);
         return { description: `[Image: ${title}\n${description}]` };
       }
     } catch (error) {
@@ -48,26 +56,144 @@ export class MessageManager {
     return null;
   }
 
-  private splitMessage(text: string): string[] {
-    const chunks: string[] = [];
-    let currentChunk = "";
-
-    const lines = text.split("\n");
-    for (const line of lines) {
-      if (currentChunk.length + line.length + 1 <= MAX_MESSAGE_LENGTH) {
-        currentChunk += (currentChunk ? "\n" : "") + line;
-      } else {
-        if (currentChunk) chunks.push(currentChunk);
-        currentChunk = line;
+  private async sendMessageInChunks(
+    ctx: Context,
+    content: Content,
+    replyToMessageId?: number
+  ): Promise<SentMessage[]> {
+    const chunks = splitMessage(content.text);
+    const sentMessages: SentMessage[] = [];
+
+    for (let i = 0; i < chunks.length; i++) {
+      // The vote and confirm buttons go under the end of the message
+      const isLast = i === chunks.length - 1;
+      const keyboard =
+        isLast && content.proposal
+          ? approvalKeyboard(
+              content.proposal.walletId,
+              BigInt(content.proposal.transactionIndex)
+            )
+          : isLast && content.confirmation
+            ? confirmationKeyboard(content.confirmation.transferId)
+            : {};
+      const sentMessage = await ctx.telegram.sendMessage(
+        ctx.chat!.id,
+        chunks[i],
+        {
+          ...keyboard,
+          ...(i === 0 && replyToMessageId
+            ? { reply_parameters: { message_id: replyToMessageId } }
+            : {}),
+        }
+      );
+      sentMessages.push(sentMessage);
+    }
+
+    return sentMessages;
+  }
+
+  /**
+   * The id of a message's memory. Telegram numbers messages per chat, so the chat is part of it.
+   */
+  private getMemoryId(chatId: number, messageId: number): UUID {
+    return stringToUuid(`${chatId}-${messageId}-${this.runtime.agentId}`);
+  }
+
+  private isMentioned(message: Message): boolean {
+    const botUsername = this.bot.botInfo?.username;
+    if (!botUsername) return false;
+
+    const text =
+      "text" in message
+        ? message.text
+        : "caption" in message
+          ? message.caption
+          : undefined;
+
+    return !!text?.toLowerCase().includes(`@${botUsername.toLowerCase()}`);
+  }
+
+  private isReplyToBot(message: Message): boolean {
+    return (
+      "reply_to_message" in message &&
+      !!message.reply_to_message &&
+      message.reply_to_message.from?.id === this.bot.botInfo?.id
+    );
+  }
+
+  /**
+   * Decides whether the agent should answer a message. Private chats, mentions and
+   * replies to the agent are always answered. In groups the model is asked, and a
+   * STOP mutes the agent in the room until it is mentioned again.
+   */
+  private async shouldRespond(
+    ctx: Context,
+    message: Message,
+    memory: Memory,
+    state: State
+  ): Promise<boolean> {
+    if (ctx.chat?.type === "private") return true;
+
+    const roomId = memory.roomId;
+    const agentId = this.runtime.agentId;
+    const userState =
+      await this.runtime.databaseAdapter.getParticipantUserState(
+        roomId,
+        agentId
+      );
+
+    if (this.isMentioned(message) || this.isReplyToBot(message)) {
+      if (userState === "MUTED") {
+        await this.runtime.databaseAdapter.setParticipantUserState(
+          roomId,
+          agentId,
+          null
+        );
       }
+      return true;
+    }
+
+    if (userState === "MUTED") return false;
+
+    const context = composeContext({
+      state,
+      template: shouldRespondTemplate,
+    });
+
+    const response = await this.runtime.shouldRespondCompletion({ context });
+
+    if (response === "STOP") {
+      await this.runtime.databaseAdapter.setParticipantUserState(
+        roomId,
+        agentId,
+        "MUTED"
+      );
+      return false;
     }
 
-    if (currentChunk) chunks.push(currentChunk);
-    return chunks;
+    return response === "RESPOND";
+  }
+
+  private async generateResponse(message: Memory, state: State) {
+    const context = composeContext({
+      state,
+      template: messageHandlerTemplate,
+    });
+
+    const response = await this.runtime.messageCompletion({ context });
+
+    await this.runtime.databaseAdapter.log({
+      body: { message, context, response },
+      userId: message.userId,
+      roomId: message.roomId,
+      type: "response",
+    });
+
+    return response;
   }
 
   public async handleMessage(ctx: Context): Promise<void> {
-    if (!ctx.message || !ctx.from) return;
+    if (!ctx.message || !ctx.from || !ctx.chat) return;
 
     const message = ctx.message;
     const datestr = new Date().toUTCString().replace(/:/g, "-");
@@ -76,6 +202,9 @@ export class MessageManager {
       const userId = stringToUuid(ctx.from.id.toString());
       const userName =
         ctx.from.username || ctx.from.first_name || "Unknown User";
+      const roomId = stringToUuid(
+        ctx.chat.id.toString() + "-" + this.runtime.agentId
+      );
 
       // Handle images
       const imageInfo = await this.processImage(message);
@@ -98,7 +227,7 @@ export class MessageManager {
       // Log the message
       log_to_file(
         `telegram_message_${datestr}`,
-        `From ${userName}: ${fullText} in ${ctx.chat?.type || "Unknown Chat"}`
+        `From ${userName}: ${fullText} in ${ctx.chat.type}`
       );
 
       // Store in cache if needed
@@ -107,8 +236,92 @@ export class MessageManager {
         timestamp: Date.now(),
       });
 
-      // Send acknowledgment
-      await ctx.reply(`${fullText}`);
+      await this.runtime.ensureConnection(
+        userId,
+        roomId,
+        userName,
+        ctx.from.first_name,
+        "telegram"
+      );
+
+      const memory: Memory = {
+        id: this.getMemoryId(ctx.chat.id, message.message_id),
+        userId,
+        roomId,
+        content: {
+          text: fullText,
+          source: "telegram",
+          inReplyTo:
+            "reply_to_message" in message && message.reply_to_message
+              ? this.getMemoryId(
+                  ctx.chat.id,
+                  message.reply_to_message.message_id
+                )
+              : undefined,
+        },
+        createdAt: message.date * 1000,
+      };
+
+      await this.runtime.messageManager.createMemory(memory);
+
+      let state = await this.runtime.composeState(memory);
+
+      if (!(await this.shouldRespond(ctx, message, memory, state))) return;
+
+      // Embedding is a paid call, so only messages the agent answers get one. It
+      // lets composeState add the facts relevant to the message, and later
+      // embeddings of the same text reuse it.
+      await this.runtime.messageManager.addEmbeddingToMemory(memory);
+      await this.runtime.messageManager.saveEmbedding(memory);
+      state = await this.runtime.composeState(memory);
+
+      const responseContent = await this.generateResponse(memory, state);
+
+      const callback = async (content: Content): Promise<Memory[]> => {
+        if (!content.text) return [];
+
+        const sentMessages = await this.sendMessageInChunks(
+          ctx,
+          content,
+          message.message_id
+        );
+
+        const memories: Memory[] = [];
+        for (const sentMessage of sentMessages) {
+          const responseMemory: Memory = {
+            id: this.getMemoryId(sentMessage.chat.id, sentMessage.message_id),
+            userId: this.runtime.agentId,
+            roomId,
+            content: {
+              ...content,
+              text: sentMessage.text,
+              inReplyTo: memory.id as UUID,
+            },
+            createdAt: sentMessage.date * 1000,
+          };
+
+          await this.runtime.messageManager.createMemory(responseMemory);
+          memories.push(responseMemory);
+        }
+
+        return memories;
+      };
+
+      // A response naming only an action sends nothing, but its action still runs
+      const responseMessages = responseContent.text
+        ? await callback(responseContent)
+        : [{ userId: this.runtime.agentId, roomId, content: responseContent }];
+
+      state = await this.runtime.updateRecentMessageState(state);
+
+      await this.runtime.processActions(
+        memory,
+        responseMessages,
+        state,
+        callback
+      );
+
+      await this.runtime.evaluate(memory, state);
     } catch (error) {
       console.error("Error handling message:", error);
       await ctx.reply(
@@ -0,0 +1,17 @@
+import type { Context } from "telegraf";
+import type { AgentRuntime } from "@/core/runtime";
+
+/**
+ * A slash command handled by the Telegram client, e.g. `/report <mint>`.
+ */
+export interface TelegramCommand {
+  name: string; // The command name, without the leading slash.
+  description: string; // Shown in Telegram's command menu.
+  usage: string; // How to call the command, shown when the arguments are wrong.
+  requiresWallets?: boolean; // Refused when the bot has no wallet keys configured.
+  handler: (
+    ctx: Context,
+    args: string[],
+    runtime: AgentRuntime
+  ) => Promise<void>;
+}
@@ -0,0 +1,64 @@
+import type { Context } from "telegraf";
+import { PublicKey } from "@solana/web3.js";
+import { stringToUuid } from "@/core/uuid";
+import type { AuditOrigin } from "@/services/audit";
+
+const MAX_MESSAGE_LENGTH = 4096;
+
+/**
+ * Splits a text into chunks that fit in a single Telegram message, breaking on line boundaries.
+ * @param text The text to split.
+ * @returns The chunks, in order.
+ */
+export function splitMessage(text: string): string[] {
+  const chunks: string[] = [];
+  let currentChunk = "";
+
+  const lines = text.split("\n");
+  for (const line of lines) {
+    if (currentChunk.length + line.length + 1 <= MAX_MESSAGE_LENGTH) {
+      currentChunk += (currentChunk ? "\n" : "") + line;
+    } else {
+      if (currentChunk) chunks.push(currentChunk);
+      currentChunk = line;
+    }
+  }
+
+  if (currentChunk) chunks.push(currentChunk);
+  return chunks;
+}
+
+/**
+ * Checks whether a string is a valid base58 encoded Solana address.
+ * @param address The string to check.
+ */
+export function isValidAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Describes who triggered an update and how, for the audit log: the sender, and the text
+ * of their message or the data of the button they pressed.
+ * @param ctx The update's context.
+ */
+export function auditOrigin(ctx: Context): AuditOrigin {
+  if (!ctx.from) return {};
+
+  let message: string | undefined;
+  if (ctx.message && "text" in ctx.message) {
+    message = ctx.message.text;
+  } else if (ctx.callbackQuery && "data" in ctx.callbackQuery) {
+    message = `[button] ${ctx.callbackQuery.data}`;
+  }
+
+  return {
+    userId: stringToUuid(ctx.from.id.toString()),
+    username: ctx.from.username,
+    message,
+  };
+}
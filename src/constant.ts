@@ -1,7 +1,12 @@
 import { Connection } from "@solana/web3.js";
 
+const rpcUrls: Record<string, string> = {
+  devnet: `https://devnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`,
+  mainnet: `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`,
+  // solana-test-validator
+  localnet: "http://127.0.0.1:8899",
+};
+
 export const connection = new Connection(
-  process.env.NETWORK! === "devnet"
-    ? `https://devnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`
-    : `https://mainnet.helius-rpc.com/?api-key=${process.env.HELIUS_API_KEY}`
+  rpcUrls[process.env.NETWORK!] ?? rpcUrls.mainnet
 );
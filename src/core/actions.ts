@@ -0,0 +1,49 @@
+import { formatExampleConversation, shuffle } from "./characters.ts";
+import { type Action } from "./types.ts";
+
+/**
+ * Composes a set of example conversations based on provided actions and a specified count.
+ * It randomly selects examples from the provided actions and formats them with generated names.
+ * @param actionsData - An array of `Action` objects from which to draw examples.
+ * @param count - The number of examples to generate.
+ * @returns A string containing formatted examples of conversations.
+ */
+export const composeActionExamples = (actionsData: Action[], count: number) => {
+  const examples = actionsData.flatMap((action) => action.examples);
+
+  return shuffle(examples)
+    .slice(0, count)
+    .map(formatExampleConversation)
+    .join("\n\n");
+};
+
+/**
+ * Formats the names of the provided actions into a comma-separated string.
+ * @param actions - An array of `Action` objects from which to extract names.
+ * @returns A comma-separated string of action names.
+ */
+export function formatActionNames(actions: Action[]) {
+  return shuffle(actions)
+    .map((action: Action) => action.name)
+    .join(", ");
+}
+
+/**
+ * Formats the provided actions into a detailed string listing each action's name and description, separated by newlines.
+ * @param actions - An array of `Action` objects to format.
+ * @returns A detailed string of actions, including names and descriptions.
+ */
+export function formatActions(actions: Action[]) {
+  return shuffle(actions)
+    .map((action: Action) => `${action.name}: ${action.description}`)
+    .join("\n");
+}
+
+/**
+ * Normalizes an action name so that "Token Report", "token_report" and "TOKEN-REPORT" all match.
+ * @param name - The action name as written by the model or the action author.
+ * @returns The normalized name.
+ */
+export function normalizeActionName(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
@@ -0,0 +1,265 @@
+import fs from "fs";
+import path from "path";
+import {
+  type ActionExample,
+  type Character,
+  type MessageExample,
+} from "./types.ts";
+
+const uuidPattern =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Names substituted for the `{{user1}}`, `{{user2}}`... placeholders of message examples.
+ */
+const exampleNames = ["Alex", "Sam", "Jordan", "Riley", "Morgan"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Checks that a parsed JSON value has the shape of a `Character`, and normalizes it.
+ *
+ * Every problem is reported, each with the path of the offending field, e.g.
+ * `messageExamples[0][1].content.text must be a string`.
+ *
+ * @param value - The parsed character JSON.
+ * @returns The character, with `bio` normalized to an array of strings.
+ * @throws An error listing every problem found.
+ */
+export function validateCharacter(value: unknown): Character {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    throw new Error("Invalid character: expected a JSON object");
+  }
+
+  const expectStringArray = (field: string, item: unknown) => {
+    if (!isStringArray(item)) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  };
+
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    errors.push("name must be a non-empty string");
+  }
+
+  if (
+    value.id !== undefined &&
+    (typeof value.id !== "string" || !uuidPattern.test(value.id))
+  ) {
+    errors.push("id must be a UUID");
+  }
+
+  if (typeof value.bio !== "string" && !isStringArray(value.bio)) {
+    errors.push("bio must be a string or an array of strings");
+  }
+
+  for (const field of [
+    "lore",
+    "postExamples",
+    "people",
+    "topics",
+    "adjectives",
+    "clients",
+  ]) {
+    expectStringArray(field, value[field]);
+  }
+
+  if (value.knowledge !== undefined) {
+    expectStringArray("knowledge", value.knowledge);
+  }
+
+  if (!Array.isArray(value.messageExamples)) {
+    errors.push("messageExamples must be an array of conversations");
+  } else {
+    value.messageExamples.forEach((conversation: unknown, i: number) => {
+      if (!Array.isArray(conversation)) {
+        errors.push(`messageExamples[${i}] must be an array of messages`);
+        return;
+      }
+      conversation.forEach((message: unknown, j: number) => {
+        const field = `messageExamples[${i}][${j}]`;
+        if (!isObject(message)) {
+          errors.push(`${field} must be an object`);
+          return;
+        }
+        if (typeof message.user !== "string") {
+          errors.push(`${field}.user must be a string`);
+        }
+        if (!isObject(message.content)) {
+          errors.push(`${field}.content must be an object`);
+          return;
+        }
+        if (typeof message.content.text !== "string") {
+          errors.push(`${field}.content.text must be a string`);
+        }
+        if (
+          message.content.action !== undefined &&
+          typeof message.content.action !== "string"
+        ) {
+          errors.push(`${field}.content.action must be a string`);
+        }
+      });
+    });
+  }
+
+  if (!isObject(value.style)) {
+    errors.push("style must be an object with all, chat and post");
+  } else {
+    for (const field of ["all", "chat", "post"]) {
+      expectStringArray(`style.${field}`, value.style[field]);
+    }
+  }
+
+  if (value.settings !== undefined) {
+    const settings = value.settings;
+    if (!isObject(settings)) {
+      errors.push("settings must be an object");
+    } else {
+      if (
+        settings.secrets !== undefined &&
+        (!isObject(settings.secrets) ||
+          !Object.values(settings.secrets).every(
+            (secret) => typeof secret === "string",
+          ))
+      ) {
+        errors.push("settings.secrets must map names to strings");
+      }
+      for (const field of ["model", "embeddingModel"]) {
+        if (
+          settings[field] !== undefined &&
+          typeof settings[field] !== "string"
+        ) {
+          errors.push(`settings.${field} must be a string`);
+        }
+      }
+      if (settings.voice !== undefined && !isObject(settings.voice)) {
+        errors.push("settings.voice must be an object");
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    const name = typeof value.name === "string" ? ` "${value.name}"` : "";
+    throw new Error(
+      `Invalid character${name}:\n${errors.map((error) => `- ${error}`).join("\n")}`,
+    );
+  }
+
+  const character = value as unknown as Character;
+  return {
+    ...character,
+    bio: Array.isArray(character.bio) ? character.bio : [character.bio],
+  };
+}
+
+/**
+ * Reads and validates a character file.
+ * @param filePath - Path of the character JSON file.
+ * @returns The validated character.
+ */
+export function loadCharacter(filePath: string): Character {
+  const resolvedPath = path.resolve(filePath);
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(resolvedPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read character file ${resolvedPath}: ${(error as Error).message}`,
+    );
+  }
+
+  const character = validateCharacter(json);
+  console.log(`Loaded character ${character.name} from ${resolvedPath}`);
+  return character;
+}
+
+/**
+ * Finds the character file to load, from `--character <path>` (or `--character=<path>`)
+ * on the command line, or the CHARACTER_FILE environment variable.
+ * @returns The path, or null if none was given.
+ */
+export function getCharacterPath(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env,
+): string | null {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--character" && argv[i + 1]) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith("--character=")) {
+      return argv[i].slice("--character=".length);
+    }
+  }
+  return env.CHARACTER_FILE || null;
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = items.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Renders the character's bio, in a random order so responses don't always lead with the same line.
+ */
+export function formatBio(character: Character): string {
+  const bio = Array.isArray(character.bio) ? character.bio : [character.bio];
+  return shuffle(bio).join(" ");
+}
+
+/**
+ * Renders a random selection of the character's lore, one item per line.
+ */
+export function formatLore(character: Character, count = 10): string {
+  return shuffle(character.lore).slice(0, count).join("\n");
+}
+
+/**
+ * Renders an example conversation, one message per line, with the `{{user1}}`...
+ * placeholders replaced by made up names.
+ */
+export function formatExampleConversation(
+  conversation: (MessageExample | ActionExample)[],
+): string {
+  const names = shuffle(exampleNames);
+  return conversation
+    .map((message) => {
+      let messageString = `${message.user}: ${message.content.text}${message.content.action ? ` (${message.content.action})` : ""}`;
+      names.forEach((name, i) => {
+        messageString = messageString.replaceAll(`{{user${i + 1}}}`, name);
+      });
+      return messageString;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a random selection of the character's example conversations.
+ */
+export function formatMessageExamples(
+  character: Character,
+  count = 5,
+): string {
+  return shuffle(character.messageExamples)
+    .slice(0, count)
+    .map(formatExampleConversation)
+    .join("\n\n");
+}
+
+/**
+ * Renders the character's general and chat style guidelines.
+ */
+export function formatMessageDirections(character: Character): string {
+  return [...character.style.all, ...character.style.chat]
+    .map((direction) => `- ${direction}`)
+    .join("\n");
+}
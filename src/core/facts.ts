@@ -0,0 +1,15 @@
+import { type Memory } from "./types.ts";
+
+/**
+ * Formats facts into a string, oldest first, one fact per line.
+ * @param facts - list of facts, newest first
+ * @returns string
+ */
+export const formatFacts = (facts: Memory[]) => {
+  const messageStrings = facts
+    .slice()
+    .reverse()
+    .map((fact: Memory) => fact.content.text);
+  const finalMessageStrings = messageStrings.join("\n");
+  return finalMessageStrings;
+};
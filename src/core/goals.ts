@@ -0,0 +1,102 @@
+import {
+  GoalStatus,
+  type Goal,
+  type IAgentRuntime,
+  type Objective,
+  type UUID,
+} from "./types.ts";
+
+/**
+ * Gets the goals of a room, oldest first.
+ * @param opts.onlyInProgress - Leave out goals that are done, failed or cancelled. Defaults to true.
+ */
+export const getGoals = async ({
+  runtime,
+  roomId,
+  userId,
+  onlyInProgress = true,
+  count = 5,
+}: {
+  runtime: IAgentRuntime;
+  roomId: UUID;
+  userId?: UUID;
+  onlyInProgress?: boolean;
+  count?: number;
+}) => {
+  return await runtime.databaseAdapter.getGoals({
+    roomId,
+    userId,
+    onlyInProgress,
+    count,
+  });
+};
+
+/**
+ * Creates a goal in progress. Objectives are still to do unless marked completed.
+ * @returns The created goal.
+ */
+export const createGoal = async ({
+  runtime,
+  roomId,
+  userId,
+  name,
+  objectives,
+}: {
+  runtime: IAgentRuntime;
+  roomId: UUID;
+  userId: UUID;
+  name: string;
+  objectives: { description: string; completed?: boolean }[];
+}) => {
+  const goal: Goal = {
+    id: crypto.randomUUID() as UUID,
+    roomId,
+    userId,
+    name,
+    status: GoalStatus.IN_PROGRESS,
+    objectives: objectives.map(
+      ({ description, completed = false }, i): Objective => ({
+        id: (i + 1).toString(),
+        description,
+        completed,
+      }),
+    ),
+  };
+  await runtime.databaseAdapter.createGoal(goal);
+  return goal;
+};
+
+export const updateGoal = async ({
+  runtime,
+  goal,
+}: {
+  runtime: IAgentRuntime;
+  goal: Goal;
+}) => {
+  return await runtime.databaseAdapter.updateGoal(goal);
+};
+
+/**
+ * Formats goals with their objectives, e.g.
+ *
+ * ```
+ * Goal: Set up a wallet
+ * id: 2c5f...
+ * - [x] Create the multisig
+ * - [ ] Fund the vault
+ * ```
+ */
+export const formatGoalsAsString = ({ goals }: { goals: Goal[] }) => {
+  const goalStrings = goals.map((goal: Goal) => {
+    const header = `Goal: ${goal.name}\nid: ${goal.id}`;
+    const objectives =
+      "Objectives:\n" +
+      goal.objectives
+        .map((objective: Objective) => {
+          return `- ${objective.completed ? "[x]" : "[ ]"} ${objective.description}`;
+        })
+        .join("\n");
+    return `${header}\n${objectives}`;
+  });
+  return goalStrings.join("\n\n");
+};
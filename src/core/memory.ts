@@ -100,7 +100,7 @@ export class MemoryManager implements IMemoryManager {
       query_threshold: 2,
       query_input: content,
       query_field_name: "content",
-      query_field_sub_name: "content",
+      query_field_sub_name: "text",
       query_match_count: 10,
     });
     return result;
@@ -180,6 +180,20 @@ export class MemoryManager implements IMemoryManager {
     return result;
   }
 
+  /**
+   * Saves the embedding of a memory that was stored before it was embedded.
+   * @param memory The stored memory, with its embedding added.
+   * @returns A Promise that resolves when the operation completes.
+   */
+  async saveEmbedding(memory: Memory): Promise<void> {
+    if (!memory.id || !memory.embedding) return;
+    await this.runtime.databaseAdapter.updateMemoryEmbedding(
+      memory.id,
+      memory.embedding,
+      this.tableName,
+    );
+  }
+
   /**
    * Removes a memory from the database by its ID.
    * @param memoryId The ID of the memory to remove.
@@ -0,0 +1,102 @@
+import {
+  type Actor,
+  type Content,
+  type IAgentRuntime,
+  type Memory,
+  type UUID,
+} from "./types.ts";
+
+/**
+ * Get details for a list of actors.
+ */
+export async function getActorDetails({
+  runtime,
+  roomId,
+}: {
+  runtime: IAgentRuntime;
+  roomId: UUID;
+}) {
+  const actors = await runtime.databaseAdapter.getActorDetails({ roomId });
+  return actors;
+}
+
+/**
+ * Format actors into a string
+ * @param actors - list of actors
+ * @returns string
+ */
+export function formatActors({ actors }: { actors: Actor[] }) {
+  const actorStrings = actors.map((actor: Actor) => {
+    const header = `${actor.name}${actor.details?.tagline ? ": " + actor.details?.tagline : ""}${actor.details?.summary ? "\n" + actor.details?.summary : ""}`;
+    return header;
+  });
+  const finalActorStrings = actorStrings.join("\n");
+  return finalActorStrings;
+}
+
+/**
+ * Format messages into a string
+ * @param messages - list of messages, newest first
+ * @param actors - list of actors
+ * @returns string
+ */
+export const formatMessages = ({
+  messages,
+  actors,
+}: {
+  messages: Memory[];
+  actors: Actor[];
+}) => {
+  const messageStrings = messages
+    .slice()
+    .reverse()
+    .filter((message: Memory) => message.userId)
+    .map((message: Memory) => {
+      const messageContent = (message.content as Content).text;
+      const messageAction = (message.content as Content).action;
+      const formattedName =
+        actors.find((actor: Actor) => actor.id === message.userId)?.name ||
+        "Unknown User";
+
+      const attachments = (message.content as Content).attachments;
+
+      const attachmentString =
+        attachments && attachments.length > 0
+          ? ` (Attachments: ${attachments.map((media) => `[${media.id} - ${media.title} (${media.url})]`).join(", ")})`
+          : "";
+
+      const timestamp = formatTimestamp(message.createdAt ?? Date.now());
+
+      const shortId = message.userId.slice(-5);
+
+      return `(${timestamp}) [${shortId}] ${formattedName}: ${messageContent}${attachmentString}${messageAction && messageAction !== "null" ? ` (${messageAction})` : ""}`;
+    })
+    .join("\n");
+  return messageStrings;
+};
+
+/**
+ * Format a timestamp relative to now, e.g. "just now" or "5 minutes ago".
+ * @param messageDate - the timestamp in milliseconds
+ * @returns string
+ */
+export const formatTimestamp = (messageDate: number) => {
+  const now = new Date();
+  const diff = now.getTime() - messageDate;
+
+  const absDiff = Math.abs(diff);
+  const seconds = Math.floor(absDiff / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (absDiff < 60000) {
+    return "just now";
+  } else if (minutes < 60) {
+    return `${minutes} minute${minutes !== 1 ? "s" : ""} ago`;
+  } else if (hours < 24) {
+    return `${hours} hour${hours !== 1 ? "s" : ""} ago`;
+  } else {
+    return `${days} day${days !== 1 ? "s" : ""} ago`;
+  }
+};
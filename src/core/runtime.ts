@@ -0,0 +1,862 @@
+import {
+  composeActionExamples,
+  formatActionNames,
+  formatActions,
+  normalizeActionName,
+} from "./actions.ts";
+import {
+  formatBio,
+  formatLore,
+  formatMessageDirections,
+  formatMessageExamples,
+} from "./characters.ts";
+import { addHeader } from "./context.ts";
+import { formatFacts } from "./facts.ts";
+import { MemoryManager } from "./memory.ts";
+import {
+  formatActors,
+  formatMessages,
+  getActorDetails,
+} from "./messages.ts";
+import {
+  parseBooleanFromText,
+  parseJSONObjectFromText,
+  parseJsonArrayFromText,
+  parseShouldRespondFromText,
+} from "./parsing.ts";
+import { getProviders } from "./providers.ts";
+import {
+  type Action,
+  type Character,
+  type Content,
+  type Evaluator,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type IDatabaseAdapter,
+  type IImageRecognitionService,
+  type IMemoryManager,
+  type Memory,
+  type Provider,
+  type State,
+  type UUID,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+const defaultServerUrl = "https://api.openai.com/v1";
+const defaultModel = "gpt-4o-mini";
+const defaultEmbeddingModel = "text-embedding-3-small";
+
+/**
+ * Rough number of characters per token, used to keep prompts inside the
+ * model's context window without pulling in a tokenizer.
+ */
+const charactersPerToken = 4;
+
+const maxCompletionRetries = 5;
+
+const recentFactsCount = 10;
+const relevantFactsCount = 10;
+
+type CompletionOptions = {
+  serverUrl?: string;
+  token?: string;
+  context?: string;
+  stop?: string[];
+  model?: string;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  temperature?: number;
+  max_context_length?: number;
+  max_response_length?: number;
+};
+
+/**
+ * Represents the runtime environment for an agent, handling message processing,
+ * action registration, and interaction with external services like OpenAI.
+ */
+export class AgentRuntime implements IAgentRuntime {
+  /**
+   * Default count for recent messages to be kept in memory.
+   * @private
+   */
+  readonly #conversationLength = 32 as number;
+
+  /**
+   * Number of messages a room must grow by before the evaluators run again.
+   * @private
+   */
+  readonly #evaluationInterval: number;
+
+  /**
+   * Message count of each room when its evaluators last ran.
+   * @private
+   */
+  readonly #lastEvaluation = new Map<UUID, number>();
+
+  /**
+   * The ID of the agent
+   */
+  agentId: UUID;
+
+  /**
+   * The base URL of the OpenAI compatible server used for completions and embeddings.
+   */
+  serverUrl: string;
+
+  /**
+   * The database adapter used for interacting with the database.
+   */
+  databaseAdapter: IDatabaseAdapter;
+
+  /**
+   * Authentication token used for securing requests.
+   */
+  token: string | null;
+
+  /**
+   * The model used for completions.
+   */
+  model: string;
+
+  /**
+   * The model used for embeddings.
+   */
+  embeddingModel: string;
+
+  /**
+   * Character configuration for the agent.
+   */
+  character: Character;
+
+  /**
+   * Custom actions that the agent can perform.
+   */
+  actions: Action[] = [];
+
+  /**
+   * Evaluators used to assess and guide the agent's responses.
+   */
+  evaluators: Evaluator[] = [];
+
+  /**
+   * Context providers used to provide context for message generation.
+   */
+  providers: Provider[] = [];
+
+  /**
+   * Store messages that are sent and received by the agent.
+   */
+  messageManager: IMemoryManager;
+
+  /**
+   * Store and recall descriptions of users based on conversations.
+   */
+  descriptionManager: IMemoryManager;
+
+  /**
+   * Manage the creation and recall of static information (documents, historical game lore, etc)
+   */
+  loreManager: IMemoryManager;
+
+  /**
+   * Manage the facts learned about users and the world during conversations.
+   */
+  factManager: IMemoryManager;
+
+  /**
+   * Describes images attached to incoming messages, when available.
+   */
+  imageDescriptionService?: IImageRecognitionService;
+
+  /**
+   * Creates an instance of AgentRuntime.
+   * @param opts - The options for configuring the AgentRuntime.
+   * @param opts.conversationLength - The number of messages to hold in the recent message cache.
+   * @param opts.evaluationInterval - Run the evaluators every this many messages in a room. Defaults to a quarter of the conversation length.
+   * @param opts.agentId - Optional ID of the agent.
+   * @param opts.character - The character configuration for the agent.
+   * @param opts.token - The JWT token, can be a JWT token if outside worker, or an OpenAI token if inside worker.
+   * @param opts.serverUrl - The URL of the worker.
+   * @param opts.actions - Optional custom actions.
+   * @param opts.evaluators - Optional custom evaluators.
+   * @param opts.providers - Optional context providers.
+   * @param opts.databaseAdapter - The database adapter used for interacting with the database.
+   * @param opts.imageDescriptionService - Optional service used to describe images.
+   */
+  constructor(opts: {
+    conversationLength?: number;
+    evaluationInterval?: number;
+    agentId?: UUID;
+    character: Character;
+    token: string | null;
+    serverUrl?: string;
+    actions?: Action[];
+    evaluators?: Evaluator[];
+    providers?: Provider[];
+    databaseAdapter: IDatabaseAdapter;
+    imageDescriptionService?: IImageRecognitionService;
+  }) {
+    this.#conversationLength =
+      opts.conversationLength ?? this.#conversationLength;
+    this.#evaluationInterval =
+      opts.evaluationInterval ?? Math.ceil(this.#conversationLength / 4);
+    this.character = opts.character;
+    this.agentId =
+      opts.agentId ?? opts.character.id ?? stringToUuid(opts.character.name);
+    this.databaseAdapter = opts.databaseAdapter;
+    this.token = opts.token;
+    this.serverUrl = opts.serverUrl ?? defaultServerUrl;
+    this.model = opts.character.settings?.model ?? defaultModel;
+    this.embeddingModel =
+      opts.character.settings?.embeddingModel ?? defaultEmbeddingModel;
+    this.imageDescriptionService = opts.imageDescriptionService;
+
+    this.messageManager = new MemoryManager({
+      runtime: this,
+      tableName: "messages",
+    });
+
+    this.descriptionManager = new MemoryManager({
+      runtime: this,
+      tableName: "descriptions",
+    });
+
+    this.loreManager = new MemoryManager({
+      runtime: this,
+      tableName: "lore",
+    });
+
+    this.factManager = new MemoryManager({
+      runtime: this,
+      tableName: "facts",
+    });
+
+    (opts.actions ?? []).forEach((action) => {
+      this.registerAction(action);
+    });
+
+    (opts.evaluators ?? []).forEach((evaluator) => {
+      this.registerEvaluator(evaluator);
+    });
+
+    (opts.providers ?? []).forEach((provider) => {
+      this.registerContextProvider(provider);
+    });
+  }
+
+  /**
+   * Makes sure the agent has an account, a room of its own and is a participant in it.
+   */
+  async initialize() {
+    await this.ensureRoomExists(this.agentId);
+    await this.ensureUserExists(
+      this.agentId,
+      this.character.name,
+      this.character.name,
+      null,
+    );
+    await this.ensureParticipantExists(this.agentId, this.agentId);
+  }
+
+  /**
+   * Get the number of messages that are kept in the conversation buffer.
+   * @returns The number of recent messages to be kept in memory.
+   */
+  getConversationLength() {
+    return this.#conversationLength;
+  }
+
+  /**
+   * Get a setting, preferring the character's secrets over the environment.
+   * @param key The name of the setting.
+   * @returns The value of the setting, or null if it is not set.
+   */
+  getSetting(key: string) {
+    const value =
+      this.character.settings?.secrets?.[key] || process.env[key] || null;
+    return value;
+  }
+
+  /**
+   * Register an action for the agent to perform.
+   * @param action The action to register.
+   */
+  registerAction(action: Action) {
+    if (this.getAction(action.name)) {
+      throw new Error(`Action ${action.name} is already registered`);
+    }
+    console.log(
+      `${this.character.name} (${this.agentId}) - Registering action: ${action.name}`,
+    );
+    this.actions.push(action);
+  }
+
+  /**
+   * Finds a registered action by its name or one of its similes.
+   * @param name The action name, as written in the model's response.
+   * @returns The action, or undefined if none matches.
+   */
+  getAction(name: string): Action | undefined {
+    const normalizedName = normalizeActionName(name);
+    return (
+      this.actions.find(
+        (action) => normalizeActionName(action.name) === normalizedName,
+      ) ??
+      this.actions.find((action) =>
+        action.similes.some(
+          (simile) => normalizeActionName(simile) === normalizedName,
+        ),
+      )
+    );
+  }
+
+  /**
+   * Register an evaluator to assess and guide the agent's responses.
+   * @param evaluator The evaluator to register.
+   */
+  registerEvaluator(evaluator: Evaluator) {
+    this.evaluators.push(evaluator);
+  }
+
+  /**
+   * Register a context provider to provide context for message generation.
+   * @param provider The context provider to register.
+   */
+  registerContextProvider(provider: Provider) {
+    this.providers.push(provider);
+  }
+
+  /**
+   * Trims a text so that it fits in the given number of tokens, keeping the end of the text.
+   * @param text The text to trim.
+   * @param maxTokens The maximum number of tokens the text may take.
+   * @param model The model the text is meant for.
+   * @returns The trimmed text.
+   */
+  trimTokens(text: string, maxTokens: number, model: string) {
+    const maxCharacters = maxTokens * charactersPerToken;
+    if (text.length <= maxCharacters) {
+      return text;
+    }
+    return text.slice(-maxCharacters);
+  }
+
+  /**
+   * Splits content into chunks of roughly `chunkSize` tokens, each overlapping the previous one by `bleed` tokens.
+   * @param content The content to split.
+   * @param chunkSize The size of each chunk, in tokens.
+   * @param bleed The number of tokens shared between consecutive chunks.
+   * @param model The model the chunks are meant for.
+   * @returns A Promise resolving to the list of chunks.
+   */
+  async splitChunks(
+    content: string,
+    chunkSize: number,
+    bleed: number = 100,
+    model: string,
+  ): Promise<string[]> {
+    const chunkCharacters = chunkSize * charactersPerToken;
+    const bleedCharacters = Math.min(
+      bleed * charactersPerToken,
+      chunkCharacters - 1,
+    );
+
+    const chunks: string[] = [];
+    for (
+      let start = 0;
+      start < content.length;
+      start += chunkCharacters - bleedCharacters
+    ) {
+      chunks.push(content.slice(start, start + chunkCharacters));
+    }
+    return chunks;
+  }
+
+  /**
+   * Send a context to the completion model and return the raw text of the response.
+   * @param opts The completion options.
+   * @returns A Promise resolving to the response text.
+   */
+  async completion({
+    serverUrl = this.serverUrl,
+    token = this.token ?? undefined,
+    context = "",
+    stop = [],
+    model = this.model,
+    frequency_penalty = 0.0,
+    presence_penalty = 0.0,
+    temperature = 0.7,
+    max_context_length = 128000,
+    max_response_length = 1024,
+  }: CompletionOptions): Promise<string> {
+    if (!token) {
+      throw new Error("No token provided for the completion request");
+    }
+
+    context = this.trimTokens(context, max_context_length, model);
+
+    const response = await fetch(`${serverUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: context }],
+        stop: stop.length > 0 ? stop : undefined,
+        temperature,
+        frequency_penalty,
+        presence_penalty,
+        max_tokens: max_response_length,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `HTTP error! status: ${response.status}, ${response.statusText}`,
+      );
+    }
+
+    const data = await response.json();
+    return data.choices[0].message.content ?? "";
+  }
+
+  /**
+   * Runs a completion and parses the response, retrying with exponential backoff
+   * until the parser returns a value.
+   * @param opts The completion options.
+   * @param parse Turns the raw response into the expected value, or null if it is malformed.
+   * @returns A Promise resolving to the parsed value.
+   */
+  private async parsedCompletion<T>(
+    opts: CompletionOptions,
+    parse: (text: string) => T | null,
+  ): Promise<T> {
+    let retryDelay = 1000;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.completion(opts);
+        const parsed = parse(response);
+        if (parsed !== null) {
+          return parsed;
+        }
+        console.warn(`Could not parse completion response: ${response}`);
+      } catch (error) {
+        console.error("Error in completion:", error);
+        if (attempt >= maxCompletionRetries) {
+          throw error;
+        }
+      }
+
+      if (attempt >= maxCompletionRetries) {
+        throw new Error(
+          `No valid completion after ${maxCompletionRetries} attempts`,
+        );
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, retryDelay));
+      retryDelay *= 2;
+    }
+  }
+
+  async stringArrayCompletion(opts: CompletionOptions): Promise<string[]> {
+    return await this.parsedCompletion(opts, (text) => {
+      const parsed = parseJsonArrayFromText(text);
+      return parsed ? parsed.map((value) => String(value)) : null;
+    });
+  }
+
+  async shouldRespondCompletion(
+    opts: CompletionOptions,
+  ): Promise<"RESPOND" | "IGNORE" | "STOP" | null> {
+    return await this.parsedCompletion(opts, parseShouldRespondFromText);
+  }
+
+  async booleanCompletion(opts: CompletionOptions): Promise<boolean> {
+    return await this.parsedCompletion(opts, (text) =>
+      parseBooleanFromText(text.trim()),
+    );
+  }
+
+  async messageCompletion(opts: CompletionOptions): Promise<Content> {
+    return await this.parsedCompletion(opts, (text) => {
+      const parsed = parseJSONObjectFromText(text) as Content | null;
+      return parsed && (parsed.text || parsed.action) ? parsed : null;
+    });
+  }
+
+  async objectArrayCompletion(opts: CompletionOptions): Promise<any[]> {
+    return await this.parsedCompletion(opts, parseJsonArrayFromText);
+  }
+
+  /**
+   * Get an embedding vector for the input, reusing a cached embedding of the same text when there is one.
+   * @param input The text to embed.
+   * @returns A Promise resolving to the embedding vector.
+   */
+  async embed(input: string): Promise<number[]> {
+    const cachedEmbedding = await this.retrieveCachedEmbedding(input);
+    if (cachedEmbedding) {
+      return cachedEmbedding;
+    }
+
+    if (!this.token) {
+      throw new Error("No token provided for the embedding request");
+    }
+
+    const response = await fetch(`${this.serverUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.token}`,
+      },
+      body: JSON.stringify({
+        input,
+        model: this.embeddingModel,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `HTTP error! status: ${response.status}, ${response.statusText}`,
+      );
+    }
+
+    const data = await response.json();
+    return data.data[0].embedding;
+  }
+
+  private async retrieveCachedEmbedding(input: string) {
+    const similaritySearchResult =
+      await this.messageManager.getCachedEmbeddings(input);
+    if (similaritySearchResult.length > 0) {
+      return similaritySearchResult[0].embedding;
+    }
+    return null;
+  }
+
+  /**
+   * Runs the action named in the responses once, if it is registered and validates for the message.
+   * A response sent as several messages names its action in each of them.
+   * @param message The message that triggered the responses.
+   * @param responses The agent's responses.
+   * @param state The current state.
+   * @param callback Delivers content produced by the action back to the client.
+   */
+  async processActions(
+    message: Memory,
+    responses: Memory[],
+    state?: State,
+    callback?: HandlerCallback,
+  ): Promise<void> {
+    const ran = new Set<string>();
+    for (const response of responses) {
+      const actionName = response.content?.action;
+      if (!actionName || normalizeActionName(actionName) === "none") {
+        continue;
+      }
+
+      const action = this.getAction(actionName);
+      if (!action) {
+        console.warn(`No action found for: ${actionName}`);
+        continue;
+      }
+      if (ran.has(action.name)) continue;
+      ran.add(action.name);
+
+      try {
+        if (!(await action.validate(this, message, state))) {
+          console.log(`Action ${action.name} is not valid for this message`);
+          continue;
+        }
+        await action.handler(this, message, state, {}, callback);
+      } catch (error) {
+        console.error(`Error running action ${action.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Runs every evaluator that validates for the message, once the room has grown by
+   * `evaluationInterval` messages since the last run.
+   * @param message The message to evaluate.
+   * @param state The current state.
+   * @returns A Promise resolving to the names of the evaluators that ran.
+   */
+  async evaluate(message: Memory, state?: State): Promise<string[]> {
+    const messageCount = await this.messageManager.countMemories(
+      message.roomId,
+      false,
+    );
+    const lastEvaluation = this.#lastEvaluation.get(message.roomId) ?? 0;
+    if (messageCount - lastEvaluation < this.#evaluationInterval) {
+      return [];
+    }
+    this.#lastEvaluation.set(message.roomId, messageCount);
+
+    const evaluators: Evaluator[] = [];
+    for (const evaluator of this.evaluators) {
+      if (await evaluator.validate(this, message, state)) {
+        evaluators.push(evaluator);
+      }
+    }
+
+    await Promise.all(
+      evaluators.map(async (evaluator) => {
+        try {
+          await evaluator.handler(this, message, state);
+        } catch (error) {
+          console.error(`Error running evaluator ${evaluator.name}:`, error);
+        }
+      }),
+    );
+
+    return evaluators.map((evaluator) => evaluator.name);
+  }
+
+  /**
+   * Ensure the existence of a participant in the room. If the participant does not exist, they are added to the room.
+   * @param userId - The user ID to ensure the existence of.
+   * @throws An error if the participant cannot be added.
+   */
+  async ensureParticipantExists(userId: UUID, roomId: UUID) {
+    const participants =
+      await this.databaseAdapter.getParticipantsForAccount(userId);
+
+    if (participants?.length === 0) {
+      await this.databaseAdapter.addParticipant(userId, roomId);
+    }
+  }
+
+  /**
+   * Ensure the existence of a user in the database. If the user does not exist, they are added to the database.
+   * @param userId - The user ID to ensure the existence of.
+   * @param userName - The user name to ensure the existence of.
+   * @returns
+   */
+  async ensureUserExists(
+    userId: UUID,
+    userName: string | null,
+    name: string | null,
+    source: string | null,
+  ) {
+    const account = await this.databaseAdapter.getAccountById(userId);
+    if (!account) {
+      await this.databaseAdapter.createAccount({
+        id: userId,
+        name: name || userName || "Unknown User",
+        username: userName || name || "Unknown",
+        details: { summary: "", source },
+      });
+      console.log(`User ${userName} created successfully.`);
+    }
+  }
+
+  async ensureParticipantInRoom(userId: UUID, roomId: UUID) {
+    const participants =
+      await this.databaseAdapter.getParticipantsForRoom(roomId);
+    if (!participants.includes(userId)) {
+      await this.databaseAdapter.addParticipant(userId, roomId);
+    }
+  }
+
+  /**
+   * Makes sure the user and the agent exist and both take part in the room.
+   * @param userId - The user ID of the sender.
+   * @param roomId - The room the message was sent in.
+   * @param userName - The username of the sender.
+   * @param userScreenName - The display name of the sender.
+   * @param source - The client the message came from.
+   */
+  async ensureConnection(
+    userId: UUID,
+    roomId: UUID,
+    userName?: string,
+    userScreenName?: string,
+    source?: string,
+  ) {
+    await Promise.all([
+      this.ensureUserExists(
+        this.agentId,
+        this.character.name,
+        this.character.name,
+        source ?? null,
+      ),
+      this.ensureUserExists(
+        userId,
+        userName ?? null,
+        userScreenName ?? null,
+        source ?? null,
+      ),
+      this.ensureRoomExists(roomId),
+    ]);
+
+    await Promise.all([
+      this.ensureParticipantInRoom(userId, roomId),
+      this.ensureParticipantInRoom(this.agentId, roomId),
+    ]);
+  }
+
+  /**
+   * Ensure the existence of a room between the agent and a user. If no room exists, a new room is created and the user
+   * and agent are added as participants. The room ID is returned.
+   * @param roomId - The room ID to ensure the existence of.
+   * @returns The room ID of the room between the agent and the user.
+   * @throws An error if the room cannot be created.
+   */
+  async ensureRoomExists(roomId: UUID) {
+    const room = await this.databaseAdapter.getRoom(roomId);
+    if (!room) {
+      await this.databaseAdapter.createRoom(roomId);
+      console.log(`Room ${roomId} created successfully.`);
+    }
+  }
+
+  /**
+   * Compose the state of the agent into an object that can be passed or used for response generation.
+   * @param message The message to compose the state from.
+   * @returns The state of the agent.
+   */
+  async composeState(
+    message: Memory,
+    additionalKeys: { [key: string]: unknown } = {},
+  ): Promise<State> {
+    const { userId, roomId } = message;
+
+    const conversationLength = this.getConversationLength();
+
+    const [actorsData, recentMessagesData, recentFactsData, similarFacts] =
+      await Promise.all([
+        getActorDetails({ runtime: this, roomId }),
+        this.messageManager.getMemories({
+          roomId,
+          count: conversationLength,
+          unique: false,
+        }),
+        this.factManager.getMemories({
+          roomId,
+          count: recentFactsCount,
+        }),
+        message.embedding
+          ? this.factManager.searchMemoriesByEmbedding(message.embedding, {
+              roomId,
+              count: relevantFactsCount,
+            })
+          : Promise.resolve([]),
+      ]);
+
+    const relevantFactsData = similarFacts.filter(
+      (fact) => !recentFactsData.some((recent) => recent.id === fact.id),
+    );
+
+    const senderName = actorsData?.find(
+      (actor) => actor.id === userId,
+    )?.name;
+
+    const initialState = {
+      agentId: this.agentId,
+      agentName: this.character.name,
+      bio: formatBio(this.character),
+      lore: formatLore(this.character),
+      characterMessageExamples: formatMessageExamples(this.character),
+      topics: this.character.topics.join(", "),
+      adjectives: this.character.adjectives.join(", "),
+      messageDirections: addHeader(
+        `# Message Directions for ${this.character.name}`,
+        formatMessageDirections(this.character),
+      ),
+      postDirections: this.character.style.post.join("\n"),
+      roomId,
+      userId,
+      senderName,
+      actors: addHeader(
+        `# Actors\n`,
+        formatActors({ actors: actorsData ?? [] }),
+      ),
+      actorsData,
+      recentMessages: addHeader(
+        "# Conversation Messages",
+        formatMessages({ messages: recentMessagesData, actors: actorsData }),
+      ),
+      recentMessagesData,
+      recentFacts: formatFacts(recentFactsData),
+      recentFactsData,
+      relevantFacts: formatFacts(relevantFactsData),
+      relevantFactsData,
+      ...additionalKeys,
+    } as State;
+
+    const [actionsData, providers] = await Promise.all([
+      this.getValidActions(message, initialState),
+      getProviders(this, message, initialState),
+    ]);
+
+    return {
+      ...initialState,
+      actionsData,
+      actionNames:
+        actionsData.length > 0
+          ? `Possible response actions: ${formatActionNames(actionsData)}`
+          : "",
+      actions: addHeader(
+        "# Available Actions",
+        formatActions(actionsData),
+      ),
+      actionExamples: composeActionExamples(actionsData, 10),
+      providers: addHeader(
+        `# Additional Information About ${this.character.name} and The World`,
+        providers,
+      ),
+    } as State;
+  }
+
+  /**
+   * Returns the registered actions whose validator accepts the message.
+   * @param message The message being responded to.
+   * @param state The current state.
+   */
+  private async getValidActions(message: Memory, state: State) {
+    const validated = await Promise.all(
+      this.actions.map(async (action) => {
+        try {
+          return (await action.validate(this, message, state)) ? action : null;
+        } catch (error) {
+          console.error(`Error validating action ${action.name}:`, error);
+          return null;
+        }
+      }),
+    );
+    return validated.filter((action): action is Action => action !== null);
+  }
+
+  /**
+   * Refreshes the recent messages of a previously composed state, e.g. after the agent has responded.
+   * @param state The state to update.
+   * @returns The updated state.
+   */
+  async updateRecentMessageState(state: State): Promise<State> {
+    const conversationLength = this.getConversationLength();
+    const recentMessagesData = await this.messageManager.getMemories({
+      roomId: state.roomId,
+      count: conversationLength,
+      unique: false,
+    });
+
+    const recentMessages = formatMessages({
+      actors: state.actorsData ?? [],
+      messages: recentMessagesData.map((memory: Memory) => {
+        const newMemory = { ...memory };
+        delete newMemory.embedding;
+        return newMemory;
+      }),
+    });
+
+    return {
+      ...state,
+      recentMessages: addHeader("# Conversation Messages", recentMessages),
+      recentMessagesData,
+    } as State;
+  }
+}
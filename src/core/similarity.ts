@@ -0,0 +1,51 @@
+/**
+ * Computes the cosine similarity of two embedding vectors.
+ * @param a The first vector.
+ * @param b The second vector.
+ * @returns A number between -1 and 1, or 0 if the vectors can't be compared.
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>) {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Computes the Levenshtein (edit) distance between two strings.
+ * @param a The first string.
+ * @param b The second string.
+ * @returns The number of single character insertions, deletions or substitutions needed to turn `a` into `b`.
+ */
+export function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
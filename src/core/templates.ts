@@ -4,7 +4,6 @@ import {
 } from "./parsing";
 
 export const messageHandlerTemplate =
-  // {{goals}}
     `# Action Examples
   {{actionExamples}}
   (Action examples are for reference only. Do not use the information from them in your response.)
@@ -15,6 +15,8 @@ export interface Content {
   url?: string; // The actual URL of the message or post, i.e. tweet URL or message link in discord
   inReplyTo?: UUID; // If this is a message in a thread, or a reply, store this
   attachments?: Media[];
+  proposal?: { walletId: UUID; transactionIndex: string }; // A multisig proposal the message asks the user to vote on.
+  confirmation?: { transferId: string }; // A held transfer the message asks the user to confirm.
   [key: string]: unknown; // Allows for additional properties to be included dynamically.
 }
 
@@ -57,6 +59,7 @@ export enum GoalStatus {
   DONE = "DONE",
   FAILED = "FAILED",
   IN_PROGRESS = "IN_PROGRESS",
+  CANCELLED = "CANCELLED",
 }
 
 /**
@@ -232,6 +235,115 @@ export interface Room {
   participants: Participant[];
 }
 
+/**
+ * Represents a user's Squads multisig wallet, with the user and the agent as members. Keys are base58 encoded.
+ */
+export interface Wallet {
+  id: UUID;
+  userId: UUID; // The user the wallet belongs to.
+  owner: string; // The public key the user supplied as their member key.
+  createKey: string; // The public key the multisig PDA is derived from.
+  multisigPda: string;
+  vaultPda: string;
+  createdAt?: number;
+}
+
+/**
+ * Represents a name a user gave to one of their multisig's vaults, e.g. "savings" or "trading".
+ */
+export interface Vault {
+  id: UUID;
+  multisigPda: string; // The multisig the vault belongs to, base58 encoded.
+  vaultIndex: number;
+  name: string; // Lowercase, and unique within the multisig.
+  createdAt?: number;
+}
+
+export type SpendingLimitPeriod = "OneTime" | "Day" | "Week" | "Month";
+
+/**
+ * Represents a Squads spending limit, which lets some members spend from a vault without a proposal. Keys are base58 encoded.
+ */
+export interface SpendingLimit {
+  id: UUID;
+  multisigPda: string; // The multisig the spending limit belongs to.
+  createKey: string; // The public key the spending limit PDA is derived from.
+  spendingLimitPda: string;
+  vaultIndex: number; // The vault the spending limit spends from.
+  mint: string; // The SPL mint, or the default public key for SOL.
+  amount: string; // The amount that can be spent per period, in base units.
+  period: SpendingLimitPeriod; // How often the amount resets.
+  members: string[]; // The members who can spend under the limit.
+  destinations: string[]; // The addresses that can receive funds, or empty for any address.
+  createdAt?: number;
+}
+
+export type ProposalStatus =
+  | "Draft"
+  | "Active"
+  | "Rejected"
+  | "Approved"
+  | "Executing"
+  | "Executed"
+  | "Cancelled";
+
+/**
+ * Represents a Squads proposal the agent created, as last seen on chain.
+ */
+export interface Proposal {
+  id: UUID;
+  multisigPda: string; // The multisig the proposal belongs to, base58 encoded.
+  transactionIndex: string; // The index of the vault transaction, as a decimal string since it is a u64.
+  status: ProposalStatus; // The proposal's status when it was last read from chain.
+  signature?: string; // The signature of the transaction that created the proposal.
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+/**
+ * Represents value the agent moved out of a vault for a user, counted against the daily USD caps of the transaction policy.
+ */
+export interface Spend {
+  id: UUID;
+  userId?: UUID; // The user the agent moved the value for, if it acted for one.
+  multisigPda: string;
+  usdValue: number; // The USD value of what was moved, priced when it was proposed or sent.
+  signature?: string;
+  createdAt?: number;
+}
+
+export type AuditAction =
+  | "create_multisig"
+  | "create_spending_limit"
+  | "remove_spending_limit"
+  | "spend"
+  | "propose"
+  | "approve"
+  | "reject"
+  | "cancel"
+  | "execute";
+
+export type AuditStatus = "success" | "failed" | "blocked";
+
+/**
+ * Represents an entry of the audit log, which records every action taken on a multisig. Entries are never changed once written.
+ */
+export interface AuditEntry {
+  id: UUID;
+  userId?: UUID; // The user who triggered the action, if one did.
+  username?: string; // Their Telegram username, for reading the log.
+  message?: string; // The message or command that triggered the action.
+  multisigPda: string;
+  action: AuditAction;
+  transactionIndex?: string; // The vault transaction the action is about, as a decimal string.
+  member?: string; // The member who voted, for votes.
+  instructions: string[]; // What the action does, one decoded instruction or setting per line.
+  signature?: string;
+  status: AuditStatus; // "blocked" when the transaction policy stopped the action.
+  error?: string;
+  createdAt: number;
+}
+
 export type Media = {
   id: string;
   url: string;
@@ -323,6 +435,11 @@ export interface IDatabaseAdapter {
     tableName: string,
     unique?: boolean,
   ): Promise<void>;
+  updateMemoryEmbedding(
+    memoryId: UUID,
+    embedding: number[],
+    tableName: string,
+  ): Promise<void>;
   removeMemory(memoryId: UUID, tableName: string): Promise<void>;
   removeAllMemories(roomId: UUID, tableName: string): Promise<void>;
   countMemories(
@@ -364,6 +481,42 @@ export interface IDatabaseAdapter {
     userB: UUID;
   }): Promise<Relationship | null>;
   getRelationships(params: { userId: UUID }): Promise<Relationship[]>;
+  getWallet(params: { userId: UUID }): Promise<Wallet | null>;
+  createWallet(wallet: Wallet): Promise<void>;
+  getVaults(params: { multisigPda: string }): Promise<Vault[]>;
+  createVault(vault: Vault): Promise<void>;
+  removeVault(vaultId: UUID): Promise<void>;
+  getSpendingLimits(params: {
+    multisigPda: string;
+    vaultIndex?: number;
+  }): Promise<SpendingLimit[]>;
+  createSpendingLimit(spendingLimit: SpendingLimit): Promise<void>;
+  removeSpendingLimit(spendingLimitId: UUID): Promise<void>;
+  getProposals(params: {
+    multisigPda: string;
+    statuses?: ProposalStatus[];
+  }): Promise<Proposal[]>;
+  createProposal(proposal: Proposal): Promise<void>;
+  getSpends(params: { userId?: UUID; since: number }): Promise<Spend[]>;
+  createSpend(spend: Spend): Promise<void>;
+  updateSpendSignature(params: {
+    spendId: UUID;
+    signature: string;
+  }): Promise<void>;
+  removeSpend(spendId: UUID): Promise<void>;
+  getAuditEntries(params: {
+    userId?: UUID;
+    multisigPda?: string;
+    actions?: AuditAction[];
+    since?: number;
+    until?: number;
+    count?: number;
+  }): Promise<AuditEntry[]>;
+  createAuditEntry(entry: AuditEntry): Promise<void>;
+  updateProposalStatus(params: {
+    proposalId: UUID;
+    status: ProposalStatus;
+  }): Promise<void>;
 }
 
 export interface IMemoryManager {
@@ -396,6 +549,7 @@ export interface IMemoryManager {
     },
   ): Promise<Memory[]>;
   createMemory(memory: Memory, unique?: boolean): Promise<void>;
+  saveEmbedding(memory: Memory): Promise<void>;
   removeMemory(memoryId: UUID): Promise<void>;
   removeAllMemories(roomId: UUID): Promise<void>;
   countMemories(roomId: UUID, unique?: boolean): Promise<number>;
@@ -417,13 +571,13 @@ export interface IAgentRuntime {
   descriptionManager: IMemoryManager;
   factManager: IMemoryManager;
   loreManager: IMemoryManager;
-  imageDescriptionService: IImageRecognitionService;
-  transcriptionService: ITranscriptionService;
-  videoService: IVideoService;
-  llamaService: ILlamaService;
-  browserService: IBrowserService;
-  speechService: ISpeechService;
-  pdfService: IPdfService;
+  imageDescriptionService?: IImageRecognitionService;
+  transcriptionService?: ITranscriptionService;
+  videoService?: IVideoService;
+  llamaService?: ILlamaService;
+  browserService?: IBrowserService;
+  speechService?: ISpeechService;
+  pdfService?: IPdfService;
 
   trimTokens(text: string, maxTokens: number, model: string): string;
   splitChunks(
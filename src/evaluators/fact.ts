@@ -0,0 +1,140 @@
+import { composeContext } from "@/core/context";
+import { parseJsonArrayFromText } from "@/core/parsing";
+import { stringToUuid } from "@/core/uuid";
+import {
+  type Evaluator,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@/core/types";
+
+/**
+ * Facts whose embedding is at least this similar to a known fact are dropped as duplicates.
+ */
+const duplicateFactThreshold = 0.95;
+
+type Claim = {
+  claim: string;
+  type: "fact" | "opinion" | "status";
+  in_bio: boolean;
+  already_known: boolean;
+};
+
+export const factsTemplate = `# Task: Extract claims from the conversation as an array of claims in JSON format.
+TIP: Only include new claims from the conversation, not claims that are already known.
+
+About {{agentName}}:
+{{bio}}
+
+# Known facts
+{{recentFacts}}
+{{relevantFacts}}
+
+{{recentMessages}}
+
+# Instructions
+Extract any claims from the conversation above that are not already present in the known facts.
+- "fact" claims are true about the world or the participants, such as a wallet address someone owns or a token they hold
+- "opinion" claims are someone's personal take, such as liking or distrusting a token
+- "status" claims are true for now but will change, such as someone being away
+Set "in_bio" to true if the claim is about {{agentName}} and already covered by the bio above.
+Set "already_known" to true if the claim is already in the known facts.
+
+Response should be a JSON object array inside a JSON markdown block. Correct response format:
+\`\`\`json
+[
+  {"claim": string, "type": "fact" | "opinion" | "status", "in_bio": boolean, "already_known": boolean},
+  {"claim": string, "type": "fact" | "opinion" | "status", "in_bio": boolean, "already_known": boolean},
+  ...
+]
+\`\`\``;
+
+const isClaim = (value: unknown): value is Claim =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Claim).claim === "string" &&
+  (value as Claim).claim.trim() !== "";
+
+export const factEvaluator: Evaluator = {
+  name: "GET_FACTS",
+  similes: ["GET_CLAIMS", "EXTRACT_CLAIMS", "EXTRACT_FACTS", "LEARN_FACTS"],
+  description:
+    "Extract factual claims about the participants and the world from the recent conversation and remember the new ones.",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    return Boolean(message.content.text);
+  },
+  handler: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    state = state ?? (await runtime.composeState(message));
+
+    const context = composeContext({ state, template: factsTemplate });
+    const response = await runtime.completion({ context, temperature: 0 });
+    const claims = (parseJsonArrayFromText(response) ?? []).filter(isClaim);
+
+    const facts = claims.filter(
+      (claim) => claim.type === "fact" && !claim.in_bio && !claim.already_known,
+    );
+
+    const stored: Memory[] = [];
+    for (const fact of facts) {
+      const text = fact.claim.trim();
+      const memory = await runtime.factManager.addEmbeddingToMemory({
+        id: stringToUuid(`${message.roomId}-${text}`),
+        userId: runtime.agentId,
+        roomId: message.roomId,
+        content: { text },
+        createdAt: Date.now(),
+      });
+
+      const duplicates = await runtime.factManager.searchMemoriesByEmbedding(
+        memory.embedding!,
+        {
+          roomId: message.roomId,
+          match_threshold: duplicateFactThreshold,
+          count: 1,
+        },
+      );
+      if (duplicates.length > 0) continue;
+
+      await runtime.factManager.createMemory(memory, true);
+      stored.push(memory);
+    }
+
+    return stored;
+  },
+  examples: [
+    {
+      context: `Actors in the scene:
+{{user1}}: Crypto trader, new to the group.
+{{user2}}: Agent helping the group manage their treasury.
+
+Facts about the actors:
+None`,
+      messages: [
+        {
+          user: "{{user1}}",
+          content: {
+            text: "gm, I keep most of my bags in a Phantom wallet, mostly JUP and BONK",
+          },
+        },
+        {
+          user: "{{user2}}",
+          content: { text: "gm! want me to run a report on either of those?" },
+        },
+        {
+          user: "{{user1}}",
+          content: {
+            text: "nah, I honestly think BONK is going to zero. I'm off to bed anyway",
+          },
+        },
+      ],
+      outcome: `\`\`\`json
+[
+  {"claim": "{{user1}} keeps their tokens in a Phantom wallet", "type": "fact", "in_bio": false, "already_known": false},
+  {"claim": "{{user1}} holds JUP and BONK", "type": "fact", "in_bio": false, "already_known": false},
+  {"claim": "{{user1}} thinks BONK is going to zero", "type": "opinion", "in_bio": false, "already_known": false},
+  {"claim": "{{user1}} is going to bed", "type": "status", "in_bio": false, "already_known": false}
+]
+\`\`\``,
+    },
+  ],
+};
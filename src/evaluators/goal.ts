@@ -0,0 +1,151 @@
+import { composeContext } from "@/core/context";
+import { getGoals, updateGoal } from "@/core/goals";
+import {
+  GoalStatus,
+  type Evaluator,
+  type Goal,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from "@/core/types";
+
+type GoalUpdate = {
+  id: string;
+  status?: GoalStatus;
+  objectives?: { description: string; completed: boolean }[];
+};
+
+export const goalsTemplate = `# Task: Update the goals of the conversation.
+Read the conversation and decide whether any of the objectives below have been completed, and whether any goal as a whole is done or has failed.
+Only mark an objective completed if the conversation clearly shows it happened.
+A goal is DONE once all of its objectives are completed, and FAILED if the conversation shows it can't or won't be achieved.
+
+{{goals}}
+
+{{recentMessages}}
+
+Response should be a JSON array inside a JSON markdown block, with one object per goal that changed and nothing for goals that didn't. Correct response format:
+\`\`\`json
+[
+  {"id": string, "status": "IN_PROGRESS" | "DONE" | "FAILED", "objectives": [{"description": string, "completed": boolean}]}
+]
+\`\`\``;
+
+const settledStatuses: string[] = [GoalStatus.DONE, GoalStatus.FAILED];
+
+/**
+ * Applies an update from the model to a goal. Objectives can only be completed, never
+ * uncompleted, and the goal can only move to DONE or FAILED.
+ * @returns The updated goal, or null if nothing changed.
+ */
+function applyUpdate(goal: Goal, update: GoalUpdate): Goal | null {
+  let changed = false;
+
+  const objectives = goal.objectives.map((objective) => {
+    const completed = update.objectives?.some(
+      (updated) =>
+        updated.completed && updated.description === objective.description,
+    );
+    if (completed && !objective.completed) {
+      changed = true;
+      return { ...objective, completed: true };
+    }
+    return objective;
+  });
+
+  let status = goal.status;
+  if (update.status && settledStatuses.includes(update.status)) {
+    status = update.status;
+  } else if (objectives.every((objective) => objective.completed)) {
+    status = GoalStatus.DONE;
+  }
+  changed ||= status !== goal.status;
+
+  return changed ? { ...goal, status, objectives } : null;
+}
+
+export const goalEvaluator: Evaluator = {
+  name: "UPDATE_GOAL",
+  similes: ["UPDATE_GOALS", "EDIT_GOAL", "UPDATE_GOAL_STATUS", "UPDATE_OBJECTIVES"],
+  description:
+    "Mark the objectives of the room's goals completed, and goals done or failed, based on the recent conversation.",
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const goals = await getGoals({ runtime, roomId: message.roomId, count: 1 });
+    return goals.length > 0;
+  },
+  handler: async (runtime: IAgentRuntime, message: Memory, state?: State) => {
+    state = state ?? (await runtime.composeState(message));
+
+    const goals = await getGoals({ runtime, roomId: message.roomId });
+    if (goals.length === 0) return [];
+
+    const context = composeContext({
+      state: { ...state, goals: JSON.stringify(goals, null, 2) },
+      template: goalsTemplate,
+    });
+    const updates = (await runtime.objectArrayCompletion({
+      context,
+      temperature: 0,
+    })) as GoalUpdate[];
+
+    const updatedGoals: Goal[] = [];
+    for (const update of updates) {
+      const goal = goals.find((goal) => goal.id === update?.id);
+      if (!goal) continue;
+
+      const updatedGoal = applyUpdate(goal, update);
+      if (!updatedGoal) continue;
+
+      await updateGoal({ runtime, goal: updatedGoal });
+      updatedGoals.push(updatedGoal);
+    }
+
+    return updatedGoals;
+  },
+  examples: [
+    {
+      context: `Actors in the scene:
+{{user1}}: New user setting up their wallet.
+{{user2}}: Agent helping the user get started.
+
+Goals:
+[
+  {
+    "id": "4d7bfa4e-9c1b-0f1e-8a4f-2f1d3c9e6b21",
+    "name": "Get started with a multisig wallet",
+    "status": "IN_PROGRESS",
+    "objectives": [
+      {"description": "Create the multisig wallet", "completed": true},
+      {"description": "Fund the vault", "completed": false},
+      {"description": "Make a first trade", "completed": false}
+    ]
+  }
+]`,
+      messages: [
+        {
+          user: "{{user1}}",
+          content: { text: "just sent 2 SOL to the vault address" },
+        },
+        {
+          user: "{{user2}}",
+          content: {
+            text: "got it, I can see the 2 SOL in the vault. ready for your first trade?",
+          },
+        },
+      ],
+      outcome: `\`\`\`json
+[
+  {
+    "id": "4d7bfa4e-9c1b-0f1e-8a4f-2f1d3c9e6b21",
+    "status": "IN_PROGRESS",
+    "objectives": [
+      {"description": "Create the multisig wallet", "completed": true},
+      {"description": "Fund the vault", "completed": true},
+      {"description": "Make a first trade", "completed": false}
+    ]
+  }
+]
+\`\`\``,
+    },
+  ],
+};
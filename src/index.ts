@@ -1,8 +1,47 @@
 import { TelegramClient } from "./clients/telegram";
+import { AgentRuntime } from "./core/runtime";
+import { defaultCharacter } from "./core/defaultCharacter";
+import { getCharacterPath, loadCharacter } from "./core/characters";
+import { SqliteDatabaseAdapter } from "./adapters/sqlite";
+import { InMemoryDatabaseAdapter } from "./adapters/inMemory";
+import ImageDescriptionService from "./services/image";
+import { tokenReportAction } from "./actions/tokenReport";
+import { moveFundsAction } from "./actions/moveFunds";
+import { factEvaluator } from "./evaluators/fact";
+import { goalEvaluator } from "./evaluators/goal";
+import { goalsProvider } from "./providers/goals";
+
+const characterPath = getCharacterPath();
+const character = characterPath
+  ? loadCharacter(characterPath)
+  : defaultCharacter;
+
+// Secrets in the character file take precedence over the environment
+const getSetting = (key: string) =>
+  character.settings?.secrets?.[key] || process.env[key];
+
+const databaseAdapter =
+  getSetting("DATABASE_ADAPTER") === "memory"
+    ? new InMemoryDatabaseAdapter()
+    : new SqliteDatabaseAdapter(getSetting("SQLITE_FILE") ?? "./data/db.sqlite");
+
+const runtime = new AgentRuntime({
+  character,
+  token: getSetting("OPEN_AI_KEY")!,
+  databaseAdapter,
+  actions: [tokenReportAction, moveFundsAction],
+  evaluators: [factEvaluator, goalEvaluator],
+  providers: [goalsProvider],
+  imageDescriptionService: ImageDescriptionService.getInstance(
+    getSetting("OPEN_AI_KEY")!
+  ),
+});
+
+await runtime.initialize();
 
 const telegramClient = new TelegramClient(
-  process.env.BOT_TOKEN!,
-  process.env.OPEN_AI_KEY!
+  runtime,
+  getSetting("BOT_TOKEN")!
 );
 
 telegramClient.start();
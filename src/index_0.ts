@@ -1,13 +1,12 @@
+import * as multisig from "@sqds/multisig";
 import MultiSigService from "@/services/multisig";
 import { connection } from "@/constant";
+import { TransactionSender } from "@/services/transactions";
 import {
   Keypair,
   PublicKey,
-  Transaction,
   SystemProgram,
   LAMPORTS_PER_SOL,
-  TransactionMessage,
-  VersionedTransaction,
 } from "@solana/web3.js";
 import bs58 from "bs58";
 
@@ -17,30 +16,53 @@ const agent = Keypair.fromSecretKey(bs58.decode(process.env.AGENT_KEY!));
 console.log(feePayer.publicKey.toBase58());
 console.log(agent.publicKey.toBase58());
 
+const sender = new TransactionSender(connection, feePayer, {
+  commitment: "finalized",
+});
+
 const multisigService = new MultiSigService(
   connection,
   feePayer,
   agent.publicKey
 );
 
-const { ix, create_key } = await multisigService.createMultiSig();
+const { ix, create_key } = await multisigService.createMultiSig({
+  members: [
+    { key: feePayer.publicKey, permissions: ["initiate", "vote", "execute"] },
+    { key: agent.publicKey, permissions: ["initiate", "vote", "execute"] },
+  ],
+  threshold: 1,
+});
+
+let { signature } = await sender.send([ix], {
+  signers: [create_key],
+});
+
+console.log(signature);
 
-const { ix: addSpendingLimitIx } = await multisigService.addSpendingLimit();
+// The multisig is autonomous, so the spending limit is added through a config proposal
+const { action: addSpendingLimit } = multisigService.addSpendingLimit({
+  mint: new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"),
+  amount: BigInt(1_000_000),
+  period: multisig.types.Period.Day,
+  members: [agent.publicKey],
+});
 
-let tx = new Transaction();
-tx.add(ix);
-tx.add(addSpendingLimitIx);
+const config = await multisigService.proposeConfigTx([addSpendingLimit]);
 
-tx.feePayer = feePayer.publicKey;
-tx.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
-tx.sign(feePayer, create_key);
-// tx.partialSign(agent);
+({ signature } = await sender.send(
+  [config.config_ix, config.create_ix, config.approve_ix],
+  { signers: [agent] }
+));
 
-let txHash = await connection.sendRawTransaction(tx.serialize());
+console.log(signature);
 
-console.log(txHash);
+({ signature } = await sender.send(
+  [await multisigService.executeConfigTx(config.transaction_index)],
+  { signers: [agent] }
+));
 
-await connection.confirmTransaction(txHash, "finalized");
+console.log(signature);
 
 const transfer_ix = SystemProgram.transfer({
   fromPubkey: multisigService.vaultPDA!,
@@ -57,47 +79,20 @@ let {
   create_ix,
   transfer_ix: transfer_ix_2,
   approve_ix,
-  // execute_ix,
+  transaction_index,
 } = await multisigService.sendTx([transfer_ix]);
 
-const message = new TransactionMessage({
-  payerKey: agent.publicKey,
-  recentBlockhash: (await connection.getLatestBlockhash()).blockhash,
-  instructions: [transfer_ix_2, create_ix, approve_ix],
-}).compileToV0Message();
-
-let ex_tx = new VersionedTransaction(message);
-
-// tx.feePayer = agent.publicKey;
-// tx.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
-ex_tx.sign([agent]);
-
-txHash = await connection.sendRawTransaction(ex_tx.serialize());
-
-console.log(txHash);
-
-await connection.confirmTransaction(txHash, "finalized");
-
-let ix_execute = await multisigService.executeTx();
-
-const ix_msg_execute = new TransactionMessage({
-  payerKey: agent.publicKey,
-  recentBlockhash: (await connection.getLatestBlockhash()).blockhash,
-  instructions: [ix_execute.instruction],
-}).compileToV0Message(ix_execute.lookupTableAccounts);
-
-let ex_tx_execute = new VersionedTransaction(ix_msg_execute);
-ex_tx_execute.sign([agent]);
-
-txHash = await connection.sendRawTransaction(ex_tx_execute.serialize());
+({ signature } = await sender.send([transfer_ix_2, create_ix, approve_ix], {
+  signers: [agent],
+}));
 
-console.log(txHash);
+console.log(signature);
 
-// tx = new Transaction();
-// tx.add(execute_ix.instruction);
+let ix_execute = await multisigService.executeTx(transaction_index);
 
-// tx.feePayer = agent.publicKey;
-// tx.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
-// tx.sign(agent);
+({ signature } = await sender.send([ix_execute.instruction], {
+  signers: [agent],
+  lookupTableAccounts: ix_execute.lookupTableAccounts,
+}));
 
-// console.log(txHash);
+console.log(signature);
@@ -0,0 +1,23 @@
+import { addHeader } from "@/core/context";
+import { formatGoalsAsString, getGoals } from "@/core/goals";
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+} from "@/core/types";
+
+/**
+ * Renders the goals still in progress in the room, so the agent can steer the
+ * conversation towards their next objective.
+ */
+export const goalsProvider: Provider = {
+  get: async (runtime: IAgentRuntime, message: Memory) => {
+    const goals = await getGoals({ runtime, roomId: message.roomId });
+    if (goals.length === 0) return "";
+
+    return addHeader(
+      `# Goals ${runtime.character.name} is helping with`,
+      formatGoalsAsString({ goals }),
+    );
+  },
+};
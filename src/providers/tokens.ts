@@ -1,18 +1,40 @@
 import { Connection, PublicKey } from '@solana/web3.js';
-import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
-import axios from 'axios';
+import {
+  AccountState,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getDefaultAccountState,
+  getEpochFee,
+  getInterestBearingMintConfigState,
+  getNonTransferable,
+  getPermanentDelegate,
+  getTransferFeeConfig,
+  getTransferHook,
+  unpackMint,
+  type Mint,
+} from '@solana/spl-token';
 import { BigNumber } from 'bignumber.js';
 import NodeCache from 'node-cache';
-
-// Types for token metadata
-interface TokenMetadata {
-  updateAuthority: string;
-  creators?: Array<{
-    address: string;
-    verified: boolean;
-    share: number;
-  }>;
-}
+import {
+  decodeMetadata,
+  fetchOffChainMetadata,
+  getMetadataAddress,
+  type OffChainMetadata,
+  type TokenMetadata,
+} from '@/services/metadata';
+import { axiosHttpClient, type HttpClient } from '@/services/http';
+import MarketData, {
+  DexScreenerProvider,
+  JupiterProvider,
+  type MarketDataProvider,
+  type MarketPair,
+  type PriceData,
+} from '@/services/marketData';
+import HolderScanner, {
+  type HolderScanProgressCallback,
+  type HolderSource,
+} from '@/services/holders';
+import { assessRisk, type RiskAssessment } from '@/services/risk';
 
 // Types for token data
 interface TokenSupply {
@@ -22,57 +44,97 @@ interface TokenSupply {
   uiAmountString: string;
 }
 
-interface TokenHolder {
+export interface TokenHolder {
   publicKey: string;
   amount: bigint;
   percentage: string;
 }
 
-interface PriceData {
-  price: number;
-  timestamp: number;
-}
-
-interface MarketPair {
-  dexId: string;
-  url?: string;
-  priceUsd?: string;
-  volume?: {
-    h24?: number;
+// Token-2022 extensions that change what holding or trading the token means.
+// Authorities are omitted when none is set.
+interface TokenExtensions {
+  transferFee?: {
+    basisPoints: number; // The fee of the current epoch.
+    maximumFee: bigint; // In base units.
+    authority?: string; // Can change the fee.
+    withdrawAuthority?: string; // Can collect the withheld fees.
   };
-  boosts?: {
-    active: boolean;
+  permanentDelegate?: string; // Can transfer or burn from any account.
+  nonTransferable?: boolean;
+  transferHook?: {
+    programId: string; // Runs on every transfer.
+    authority?: string; // Can change the program.
   };
-  liquidity?: {
-    usd?: number;
+  interestBearing?: {
+    rate: number; // In basis points per year.
+    authority?: string;
   };
+  defaultAccountState?: 'initialized' | 'frozen';
 }
 
-interface TokenReport {
+export interface TokenReport {
   tokenAddress: string;
+  tokenProgram: 'token' | 'token-2022';
   totalSupply: bigint;
   decimals: number;
+  mintAuthority?: string; // Missing once revoked.
+  freezeAuthority?: string; // Missing once revoked.
+  extensions: TokenExtensions;
+  metadata?: TokenMetadata;
+  offChainMetadata?: OffChainMetadata;
   owner?: TokenHolder;
   creator?: TokenHolder;
   top10Holders: TokenHolder[];
-  totalHolders: number;
+  totalHolders?: number; // Missing when only the largest accounts were scanned.
+  holdersSource: HolderSource; // How the holders were found.
   priceData?: PriceData;
   marketPairs: MarketPair[];
+  marketPairsSource?: string; // The provider the pairs came from.
+  riskAssessment: RiskAssessment;
+}
+
+export interface TokenReportOptions {
+  marketDataProviders?: MarketDataProvider[]; // Jupiter, then DexScreener, if omitted.
+  httpClient?: HttpClient;
+  holderScanner?: HolderScanner; // A getProgramAccounts scanner if omitted.
+  // 'all' scans every holder, falling back to the largest ones if the scan fails.
+  // 'top' only reads the largest ones, which is fast on any mint but leaves the count unknown.
+  holders?: 'all' | 'top';
+  onProgress?: HolderScanProgressCallback; // Called as holders are scanned.
 }
 
 export default class TokenReportGenerator {
   private connection: Connection;
   private tokenPublicKey: PublicKey;
   private cache: NodeCache;
+  private httpClient: HttpClient;
+  private marketData: MarketData;
+  private holderScanner: HolderScanner;
+  private holders: 'all' | 'top';
+  private onProgress?: HolderScanProgressCallback;
 
   constructor(
     tokenAddress: string,
+    connection: Connection,
     cache: NodeCache,
-    rpcUrl: string = 'https://api.mainnet-beta.solana.com'
+    options: TokenReportOptions = {}
   ) {
-    this.connection = new Connection(rpcUrl);
+    const httpClient = options.httpClient ?? axiosHttpClient;
+    this.connection = connection;
     this.tokenPublicKey = new PublicKey(tokenAddress);
     this.cache = cache;
+    this.httpClient = httpClient;
+    this.marketData = new MarketData(
+      options.marketDataProviders ?? [
+        new JupiterProvider(httpClient),
+        new DexScreenerProvider(httpClient),
+      ],
+      cache
+    );
+    this.holderScanner =
+      options.holderScanner ?? new HolderScanner(connection, { cache, httpClient });
+    this.holders = options.holders ?? 'all';
+    this.onProgress = options.onProgress;
   }
 
   private calculatePercentage(amount: bigint, total: bigint): string {
@@ -81,129 +143,126 @@ export default class TokenReportGenerator {
       : '0.00';
   }
 
-  private async getMetadataPDA(): Promise<TokenMetadata | null> {
+  private async getMetadata(): Promise<TokenMetadata | null> {
     try {
-      const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
-      const [metadataPDA] = PublicKey.findProgramAddressSync(
-        [
-          Buffer.from('metadata'),
-          METADATA_PROGRAM_ID.toBuffer(),
-          this.tokenPublicKey.toBuffer(),
-        ],
-        METADATA_PROGRAM_ID
+      const accountInfo = await this.connection.getAccountInfo(
+        getMetadataAddress(this.tokenPublicKey)
       );
-
-      const accountInfo = await this.connection.getAccountInfo(metadataPDA);
       if (!accountInfo) return null;
 
-      // Basic parsing of metadata account data
-      // Note: This is a simplified version. In production, you'd want to use proper
-      // borsh deserialization for the full metadata structure
-      const updateAuthorityStart = 1 + 32; // After key and mint
-      const updateAuthority = new PublicKey(accountInfo.data.slice(updateAuthorityStart, updateAuthorityStart + 32));
-
-      // Return basic metadata
-      return {
-        updateAuthority: updateAuthority.toBase58(),
-      };
+      const metadata = decodeMetadata(accountInfo.data);
+      return metadata.mint === this.tokenPublicKey.toBase58() ? metadata : null;
     } catch (error) {
       console.error('Error fetching metadata:', error);
       return null;
     }
   }
 
-  private async getAllHolders(): Promise<TokenHolder[]> {
-    const accounts = await this.connection.getProgramAccounts(
-      TOKEN_PROGRAM_ID,
-      {
-        filters: [
-          { dataSize: 165 },
-          {
-            memcmp: {
-              offset: 0,
-              bytes: this.tokenPublicKey.toBase58(),
-            },
-          },
-        ],
-      }
-    );
+  private async getMint(): Promise<{ mint: Mint; programId: PublicKey }> {
+    const accountInfo = await this.connection.getAccountInfo(this.tokenPublicKey);
+    const programId = accountInfo?.owner;
+    if (
+      !programId ||
+      (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID))
+    ) {
+      throw new Error(`${this.tokenPublicKey.toBase58()} is not a token mint`);
+    }
 
-    const holders = new Map<string, bigint>();
+    return {
+      mint: unpackMint(this.tokenPublicKey, accountInfo, programId),
+      programId,
+    };
+  }
 
-    accounts.forEach(account => {
-      const data = account.account.data;
-      const amount = BigInt(
-        new DataView(data.buffer, data.byteOffset + 64, 8)
-          .getBigUint64(0, true)
-          .toString()
-      );
-      const owner = new PublicKey(data.slice(32, 64)).toBase58();
+  private async getExtensions(mint: Mint): Promise<TokenExtensions> {
+    const authority = (key: PublicKey) =>
+      key.equals(PublicKey.default) ? undefined : key.toBase58();
+    const extensions: TokenExtensions = {};
+
+    const transferFeeConfig = getTransferFeeConfig(mint);
+    if (transferFeeConfig) {
+      const { epoch } = await this.connection.getEpochInfo();
+      const fee = getEpochFee(transferFeeConfig, BigInt(epoch));
+      extensions.transferFee = {
+        basisPoints: fee.transferFeeBasisPoints,
+        maximumFee: fee.maximumFee,
+        authority: authority(transferFeeConfig.transferFeeConfigAuthority),
+        withdrawAuthority: authority(transferFeeConfig.withdrawWithheldAuthority),
+      };
+    }
 
-      holders.set(
-        owner,
-        (holders.get(owner) || BigInt(0)) + amount
-      );
-    });
+    const permanentDelegate = getPermanentDelegate(mint);
+    if (permanentDelegate && authority(permanentDelegate.delegate)) {
+      extensions.permanentDelegate = permanentDelegate.delegate.toBase58();
+    }
 
-    return Array.from(holders.entries())
-      .map(([publicKey, amount]) => ({
-        publicKey,
-        amount,
-        percentage: '0' // Will be calculated later
-      }))
-      .sort((a, b) => Number(b.amount - a.amount));
-  }
+    if (getNonTransferable(mint)) {
+      extensions.nonTransferable = true;
+    }
 
-  private async getPriceData(): Promise<PriceData | undefined> {
-    try {
-      const response = await axios.get(
-        `https://api.jup.ag/price/v2?ids=${this.tokenPublicKey.toBase58()}`
-      );
-      const data = response.data.data[this.tokenPublicKey.toBase58()];
-      return {
-        price: data.price,
-        timestamp: Date.now()
+    const transferHook = getTransferHook(mint);
+    if (transferHook && authority(transferHook.programId)) {
+      extensions.transferHook = {
+        programId: transferHook.programId.toBase58(),
+        authority: authority(transferHook.authority),
       };
-    } catch (error) {
-      console.error('Failed to fetch price data:', error);
-      return undefined;
     }
+
+    const interestBearing = getInterestBearingMintConfigState(mint);
+    if (interestBearing) {
+      extensions.interestBearing = {
+        rate: interestBearing.currentRate,
+        authority: authority(interestBearing.rateAuthority),
+      };
+    }
+
+    const defaultAccountState = getDefaultAccountState(mint);
+    if (defaultAccountState) {
+      extensions.defaultAccountState =
+        defaultAccountState.state === AccountState.Frozen ? 'frozen' : 'initialized';
+    }
+
+    return extensions;
   }
 
-  private async getMarketPairs(): Promise<MarketPair[]> {
-    try {
-      const response = await axios.get(
-        `https://api.dexscreener.com/latest/dex/tokens/${this.tokenPublicKey.toBase58()}`
-      );
-      return response.data.pairs || [];
-    } catch (error) {
-      console.error('Failed to fetch market pairs:', error);
-      return [];
+  private async getHolders(programId: PublicKey) {
+    if (this.holders === 'all') {
+      try {
+        return await this.holderScanner.scan(this.tokenPublicKey, programId, this.onProgress);
+      } catch (error) {
+        console.error('Error scanning all holders, reading the largest ones instead:', error);
+      }
     }
+    return await this.holderScanner.getTopHolders(this.tokenPublicKey, 20, this.onProgress);
   }
 
   public async generateReport(): Promise<TokenReport> {
-    // Get token supply and decimals
-    const { value: tokenSupply } = await this.connection.getTokenSupply(this.tokenPublicKey);
-    const totalSupply = BigInt(tokenSupply.amount);
-    const decimals = tokenSupply.decimals;
+    // Get the mint, its supply, decimals and the program that owns it
+    const { mint, programId } = await this.getMint();
+    const totalSupply = mint.supply;
+    const decimals = mint.decimals;
+    const extensions = await this.getExtensions(mint);
 
-    console.log("Fetched value and total supply")
+    console.log("Fetched mint, total supply and extensions")
 
-    // Get metadata
-    const metadata = await this.getMetadataPDA();
+    // Get metadata, and the JSON its URI points to
+    const metadata = await this.getMetadata();
+    const offChainMetadata = metadata
+      ? await fetchOffChainMetadata(metadata.uri, this.httpClient)
+      : null;
 
     console.log("Fetched token metadata")
     
-    // Get all holders
-    const holders = await this.getAllHolders();
+    // Get the holders
+    const holderScan = await this.getHolders(programId);
 
-    console.log("Fetched all holders")
+    console.log(`Fetched ${holderScan.holders.length} holders from ${holderScan.source}`)
 
-    // Calculate percentages for all holders
-    holders.forEach(holder => {
-      holder.percentage = this.calculatePercentage(holder.amount, totalSupply);
-    });
+    // Calculate percentages for all holders, on copies since scans are cached
+    const holders = holderScan.holders.map(holder => ({
+      ...holder,
+      percentage: this.calculatePercentage(holder.amount, totalSupply),
+    }));
 
     console.log("Calculated percentages for all holders")
 
@@ -214,8 +273,11 @@ export default class TokenReportGenerator {
     if (metadata) {
       owner = holders.find(h => h.publicKey === metadata.updateAuthority);
       
-      if (metadata.creators && metadata.creators.length > 0) {
-        creator = holders.find(h => h.publicKey === metadata.creators?.[0]?.address);
+      // Only a verified creator signed the metadata, anyone can be listed unverified
+      const firstCreator =
+        metadata.creators.find(c => c.verified) ?? metadata.creators[0];
+      if (firstCreator) {
+        creator = holders.find(h => h.publicKey === firstCreator.address);
       }
     }
 
@@ -227,32 +289,158 @@ export default class TokenReportGenerator {
     console.log("Fetched top 10 holders")
 
     // Get price and market data
-    const [priceData, marketPairs] = await Promise.all([
-      this.getPriceData(),
-      this.getMarketPairs()
+    const [priceData, { pairs: marketPairs, source: marketPairsSource }] = await Promise.all([
+      this.marketData.getPrice(this.tokenPublicKey.toBase58()),
+      this.marketData.getMarketPairs(this.tokenPublicKey.toBase58())
     ]);
 
     console.log("Fetched price and market data")
 
-    return {
+    const report = {
       tokenAddress: this.tokenPublicKey.toBase58(),
+      tokenProgram: programId.equals(TOKEN_2022_PROGRAM_ID) ? 'token-2022' as const : 'token' as const,
       totalSupply,
       decimals,
+      mintAuthority: mint.mintAuthority?.toBase58(),
+      freezeAuthority: mint.freezeAuthority?.toBase58(),
+      extensions,
+      metadata: metadata ?? undefined,
+      offChainMetadata: offChainMetadata ?? undefined,
       owner,
       creator,
       top10Holders,
-      totalHolders: holders.length,
+      totalHolders: holderScan.totalHolders,
+      holdersSource: holderScan.source,
       priceData,
-      marketPairs
+      marketPairs,
+      marketPairsSource
     };
+
+    // Score the risks once everything they look at is known
+    const riskAssessment = assessRisk(report, holders);
+
+    console.log("Assessed risks")
+
+    return { ...report, riskAssessment };
+  }
+
+  private formatExtensions(report: TokenReport): string[] {
+    const { extensions } = report;
+    const authority = (key?: string) => key ?? 'none';
+    const lines: string[] = [];
+
+    if (extensions.transferFee) {
+      const { basisPoints, maximumFee, authority: feeAuthority, withdrawAuthority } =
+        extensions.transferFee;
+      lines.push(
+        `Transfer Fee: ${(basisPoints / 100).toFixed(2)}% (max ${new BigNumber(maximumFee.toString())
+          .dividedBy(10 ** report.decimals).toFixed()}), fee authority: ${authority(feeAuthority)}, withdraw authority: ${authority(withdrawAuthority)}`
+      );
+    }
+    if (extensions.permanentDelegate) {
+      lines.push(
+        `Permanent Delegate: ${extensions.permanentDelegate} (can move or burn tokens from any holder)`
+      );
+    }
+    if (extensions.nonTransferable) {
+      lines.push('Non-Transferable: holders can\'t transfer the token');
+    }
+    if (extensions.transferHook) {
+      lines.push(
+        `Transfer Hook: program ${extensions.transferHook.programId} runs on every transfer, authority: ${authority(extensions.transferHook.authority)}`
+      );
+    }
+    if (extensions.interestBearing) {
+      lines.push(
+        `Interest Bearing: ${(extensions.interestBearing.rate / 100).toFixed(2)}% per year, rate authority: ${authority(extensions.interestBearing.authority)}`
+      );
+    }
+    if (extensions.defaultAccountState) {
+      lines.push(
+        `Default Account State: ${extensions.defaultAccountState}${extensions.defaultAccountState === 'frozen' ? ' (new accounts are frozen until the freeze authority thaws them)' : ''}`
+      );
+    }
+
+    return lines;
+  }
+
+  private formatMetadata(metadata: TokenMetadata, offChainMetadata?: OffChainMetadata): string[] {
+    const lines = [
+      metadata.isMutable
+        ? `Mutable: yes, update authority ${metadata.updateAuthority} can still change the name, symbol and URI`
+        : 'Mutable: no, the metadata is final',
+    ];
+
+    if (metadata.tokenStandard) {
+      lines.push(`Token Standard: ${metadata.tokenStandard}`);
+    }
+    if (metadata.uri) {
+      lines.push(`URI: ${metadata.uri}`);
+    }
+    if (metadata.sellerFeeBasisPoints > 0) {
+      lines.push(`Seller Fee: ${(metadata.sellerFeeBasisPoints / 100).toFixed(2)}%`);
+    }
+    lines.push(`Primary Sale Happened: ${metadata.primarySaleHappened ? 'yes' : 'no'}`);
+    metadata.creators.forEach(c => {
+      lines.push(`Creator: ${c.address} (${c.share}% share, ${c.verified ? 'verified' : 'unverified'})`);
+    });
+    if (metadata.collection) {
+      lines.push(
+        `Collection: ${metadata.collection.key} (${metadata.collection.verified ? 'verified' : 'unverified'})`
+      );
+    }
+    if (typeof offChainMetadata?.description === 'string' && offChainMetadata.description) {
+      lines.push(`Description: ${offChainMetadata.description}`);
+    }
+    if (typeof offChainMetadata?.external_url === 'string' && offChainMetadata.external_url) {
+      lines.push(`Website: ${offChainMetadata.external_url}`);
+    }
+
+    return lines;
+  }
+
+  private formatRiskAssessment(riskAssessment: RiskAssessment): string {
+    const levelIcons = { low: '🟢', medium: '🟠', high: '🔴' };
+    const severityIcons = { info: '✅', low: '🟡', medium: '🟠', high: '🔴', critical: '⛔' };
+
+    let output = `${levelIcons[riskAssessment.level]} Risk Score: ${riskAssessment.score}/100 (${riskAssessment.level} risk)\n`;
+    riskAssessment.findings.forEach(finding => {
+      output += `${severityIcons[finding.severity]} ${finding.title}: ${finding.explanation}\n`;
+    });
+    return output;
   }
 
   public async generateReportString(): Promise<string> {
     const report = await this.generateReport();
-    let output = `Token Report for ${report.tokenAddress}\n\n`;
+
+    // The verdict comes first, it's what most people ask the report for
+    let output = `${this.formatRiskAssessment(report.riskAssessment)}\n`;
+
+    output += report.metadata?.name
+      ? `Token Report for ${report.metadata.name}${report.metadata.symbol ? ` (${report.metadata.symbol})` : ''}\nAddress: ${report.tokenAddress}\n\n`
+      : `Token Report for ${report.tokenAddress}\n\n`;
     
     output += `Total Supply: ${new BigNumber(report.totalSupply.toString())
       .dividedBy(10 ** report.decimals).toFixed()}\n`;
+    output += `Token Program: ${report.tokenProgram === 'token-2022' ? 'Token-2022' : 'SPL Token'}\n`;
+
+    const extensionLines = this.formatExtensions(report);
+    if (extensionLines.length > 0) {
+      output += `\nToken-2022 Extensions:\n`;
+      extensionLines.forEach(line => {
+        output += `- ${line}\n`;
+      });
+    }
+
+    if (report.metadata) {
+      output += `\nMetadata:\n`;
+      this.formatMetadata(report.metadata, report.offChainMetadata).forEach(line => {
+        output += `- ${line}\n`;
+      });
+      output += '\n';
+    } else {
+      output += `\nMetadata: Not available\n\n`;
+    }
     
     if (report.owner) {
       output += `Owner Address: ${report.owner.publicKey}\n`;
@@ -278,14 +466,16 @@ export default class TokenReportGenerator {
         .dividedBy(10 ** report.decimals).toFixed()} (${holder.percentage}%)\n`;
     });
     
-    output += `\nTotal Holders: ${report.totalHolders}\n`;
+    output += report.totalHolders !== undefined
+      ? `\nTotal Holders: ${report.totalHolders}\n`
+      : `\nTotal Holders: unknown (only the largest accounts were scanned)\n`;
     
     if (report.priceData) {
-      output += `\nCurrent Price: $${report.priceData.price.toFixed(6)}\n`;
+      output += `\nCurrent Price: $${report.priceData.price.toFixed(6)} (source: ${report.priceData.source})\n`;
     }
     
     if (report.marketPairs.length > 0) {
-      output += '\nMarket Pairs:\n';
+      output += `\nMarket Pairs (source: ${report.marketPairsSource}):\n`;
       report.marketPairs.forEach((pair, index) => {
         output += `\nPair ${index + 1}:\n`;
         output += `- DEX: ${pair.dexId || 'Unknown'}\n`;
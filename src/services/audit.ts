@@ -0,0 +1,196 @@
+import { PolicyViolationError } from "@/services/policy";
+import { TransactionSendError } from "@/services/transactions";
+import {
+  type AuditAction,
+  type AuditEntry,
+  type AuditStatus,
+  type IAgentRuntime,
+  type UUID,
+} from "@/core/types";
+
+/**
+ * Who asked for an action: the Telegram user and the message that triggered it.
+ */
+export interface AuditOrigin {
+  userId?: UUID;
+  username?: string;
+  message?: string;
+}
+
+/**
+ * What an action is about, before it is known how it ended.
+ */
+export type AuditRecord = Pick<
+  AuditEntry,
+  "multisigPda" | "action" | "transactionIndex" | "member" | "instructions"
+>;
+
+export interface AuditFilter {
+  userId?: UUID;
+  multisigPda?: string;
+  actions?: AuditAction[];
+  since?: number; // Timestamp in milliseconds, inclusive.
+  until?: number; // Timestamp in milliseconds, exclusive.
+  count?: number;
+}
+
+const csvColumns: (keyof AuditEntry)[] = [
+  "id",
+  "createdAt",
+  "userId",
+  "username",
+  "message",
+  "multisigPda",
+  "action",
+  "transactionIndex",
+  "member",
+  "instructions",
+  "signature",
+  "status",
+  "error",
+];
+
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/**
+ * Keeps the append-only audit trail of what the agent does on multisigs: every creation,
+ * spending limit change, proposal, vote and execution, whether it succeeded, failed or
+ * was blocked by the transaction policy, along with who asked for it.
+ */
+class AuditLog {
+  private runtime: IAgentRuntime;
+  private origin: AuditOrigin;
+
+  /**
+   * Class constructor
+   * @param runtime - The agent runtime, used for persistence
+   * @param origin - The user and message the recorded actions come from
+   */
+  constructor(runtime: IAgentRuntime, origin: AuditOrigin = {}) {
+    this.runtime = runtime;
+    this.origin = origin;
+  }
+
+  /**
+   * Appends an entry to the log.
+   * @param record - The action and what it is about
+   * @param outcome - How it ended, with its signature or error
+   */
+  async record(
+    record: AuditRecord,
+    outcome: { status: AuditStatus; signature?: string; error?: string }
+  ): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      id: crypto.randomUUID() as UUID,
+      ...this.origin,
+      ...record,
+      ...outcome,
+      createdAt: Date.now(),
+    };
+    for (const key of Object.keys(entry) as (keyof AuditEntry)[]) {
+      if (entry[key] === undefined) delete entry[key];
+    }
+    await this.runtime.databaseAdapter.createAuditEntry(entry);
+    return entry;
+  }
+
+  /**
+   * Runs an action and records how it ended. Errors are recorded, then rethrown.
+   * @param record - The action and what it is about
+   * @param run - Sends the action
+   * @param resultDetails - Reads the signature, and the transaction index if the action
+   * created one, from what the action returns. By default a string result is the signature.
+   */
+  async track<T>(
+    record: AuditRecord,
+    run: () => Promise<T>,
+    resultDetails: (
+      result: T
+    ) => Pick<AuditEntry, "signature" | "transactionIndex"> = (result) => ({
+      signature: typeof result === "string" ? result : undefined,
+    })
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await run();
+    } catch (error) {
+      await this.recordSafely(record, {
+        status: error instanceof PolicyViolationError ? "blocked" : "failed",
+        signature:
+          error instanceof TransactionSendError ? error.signature : undefined,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+    const { transactionIndex, signature } = resultDetails(result);
+    await this.recordSafely(
+      {
+        ...record,
+        transactionIndex: transactionIndex ?? record.transactionIndex,
+      },
+      { status: "success", signature }
+    );
+    return result;
+  }
+
+  /**
+   * The action already happened on chain, so failing to record it must not fail it.
+   */
+  private async recordSafely(
+    record: AuditRecord,
+    outcome: { status: AuditStatus; signature?: string; error?: string }
+  ) {
+    try {
+      await this.record(record, outcome);
+    } catch (error) {
+      console.error(
+        `❌ Error recording ${record.action} in the audit log:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Reads entries from the log, newest first.
+   * @param filter - Only the entries of this user or multisig, these actions, or this time range
+   */
+  async query(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    return await this.runtime.databaseAdapter.getAuditEntries(filter);
+  }
+
+  /**
+   * Exports entries as JSON Lines, one entry per line, oldest first.
+   * @param filter - Which entries to export
+   */
+  async exportJsonl(filter: AuditFilter = {}): Promise<string> {
+    const entries = (await this.query(filter)).reverse();
+    return entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+  }
+
+  /**
+   * Exports entries as CSV with a header row, oldest first. Instructions are joined with newlines.
+   * @param filter - Which entries to export
+   */
+  async exportCsv(filter: AuditFilter = {}): Promise<string> {
+    const entries = (await this.query(filter)).reverse();
+    const rows = entries.map((entry) =>
+      csvColumns
+        .map((column) => {
+          const value = entry[column];
+          if (value === undefined) return "";
+          if (column === "createdAt") {
+            return new Date(value as number).toISOString();
+          }
+          return csvField(
+            Array.isArray(value) ? value.join("\n") : String(value)
+          );
+        })
+        .join(",")
+    );
+    return [csvColumns.join(","), ...rows].map((row) => row + "\r\n").join("");
+  }
+}
+
+export default AuditLog;
@@ -0,0 +1,323 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import NodeCache from "node-cache";
+import {
+  axiosHttpClient,
+  withTimeout,
+  type HttpClient,
+} from "@/services/http";
+import type { TokenHolder } from "@/providers/tokens";
+import type { IAgentRuntime } from "@/core/types";
+
+/**
+ * How long a mint's holders are cached, in seconds.
+ */
+const defaultTtl = 600;
+
+/**
+ * How long a full scan may take before it is given up, in milliseconds.
+ */
+const defaultScanTimeout = 120_000;
+
+/**
+ * Token accounts per page of a DAS holder query, the most Helius returns.
+ */
+const dasPageSize = 1000;
+
+/**
+ * getTokenLargestAccounts returns at most this many accounts.
+ */
+const maxLargestAccounts = 20;
+
+/**
+ * The owner and amount of a token account, the only fields a scan reads. They are
+ * at the same offsets in Token and Token-2022 accounts.
+ */
+const holderSlice = { offset: 32, length: 40 };
+const ownerSlice = { offset: 32, length: 32 };
+
+export type HolderSource = "rpc" | "das" | "largest-accounts";
+
+export interface HolderScanProgress {
+  source: HolderSource;
+  accounts: number; // The token accounts read so far.
+  page?: number; // The last page read, for paginated scans.
+  done: boolean;
+}
+
+export type HolderScanProgressCallback = (progress: HolderScanProgress) => void;
+
+/**
+ * The holders of a mint, by owner, largest first. Their percentage is left for the
+ * caller to compute against the supply.
+ */
+export interface HolderScan {
+  holders: TokenHolder[];
+  totalHolders?: number; // Missing when only the largest accounts were read.
+  complete: boolean; // Whether every holder was read.
+  source: HolderSource;
+  scannedAt: number;
+}
+
+export interface HolderScannerOptions {
+  dasUrl?: string; // A DAS RPC endpoint with getTokenAccounts, e.g. Helius'.
+  cache?: NodeCache; // Where scans are cached. Nothing is cached if omitted.
+  ttl?: number; // In seconds, 10 minutes if omitted.
+  scanTimeout?: number; // In milliseconds, 2 minutes if omitted.
+  httpClient?: HttpClient;
+}
+
+type DasTokenAccountsResponse = {
+  result?: {
+    token_accounts?: { owner: string; amount: number | bigint }[];
+  };
+  error?: { message?: string };
+};
+
+function toHolders(balances: Map<string, bigint>): TokenHolder[] {
+  return Array.from(balances.entries())
+    .filter(([, amount]) => amount > 0n)
+    .map(([publicKey, amount]) => ({ publicKey, amount, percentage: "0" }))
+    .sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0));
+}
+
+function addBalance(balances: Map<string, bigint>, owner: string, amount: bigint) {
+  balances.set(owner, (balances.get(owner) ?? 0n) + amount);
+}
+
+/**
+ * Reads the owner from a token account sliced from its owner on.
+ */
+function readOwner(data: Buffer) {
+  return new PublicKey(data.subarray(0, 32)).toBase58();
+}
+
+/**
+ * Reads the amount from a token account sliced from its owner on.
+ */
+function readAmount(data: Buffer) {
+  return data.readBigUInt64LE(32);
+}
+
+/**
+ * Finds who holds a mint, in a way that scales to mints with millions of holders:
+ * a paginated DAS query when one is configured, otherwise a getProgramAccounts scan
+ * that only fetches each account's owner and amount. When only the largest holders
+ * are needed, they are read from getTokenLargestAccounts instead.
+ */
+class HolderScanner {
+  private connection: Connection;
+  private dasUrl?: string;
+  private cache?: NodeCache;
+  private ttl: number;
+  private scanTimeout: number;
+  private httpClient: HttpClient;
+
+  /**
+   * Class constructor
+   * @param connection - The Solana connection object
+   * @param options - The DAS endpoint, cache, cache TTL, scan timeout and HTTP client
+   */
+  constructor(connection: Connection, options: HolderScannerOptions = {}) {
+    this.connection = connection;
+    this.dasUrl = options.dasUrl;
+    this.cache = options.cache;
+    this.ttl = options.ttl ?? defaultTtl;
+    this.scanTimeout = options.scanTimeout ?? defaultScanTimeout;
+    this.httpClient = options.httpClient ?? axiosHttpClient;
+  }
+
+  private async cached(
+    key: string,
+    scan: () => Promise<HolderScan>
+  ): Promise<HolderScan> {
+    const cached = this.cache?.get<HolderScan>(key);
+    if (cached) return cached;
+
+    const result = await scan();
+    this.cache?.set(key, result, this.ttl);
+    return result;
+  }
+
+  /**
+   * Reads every holder of a mint.
+   * @param mint - The mint
+   * @param programId - The token program that owns the mint
+   * @param onProgress - Called as accounts are read
+   * @throws If the scan fails or takes longer than the scan timeout.
+   */
+  async scan(
+    mint: PublicKey,
+    programId: PublicKey = TOKEN_PROGRAM_ID,
+    onProgress?: HolderScanProgressCallback
+  ): Promise<HolderScan> {
+    return await this.cached(`holders:${mint.toBase58()}:all`, () =>
+      withTimeout(
+        this.dasUrl
+          ? this.scanDas(mint, this.dasUrl, onProgress)
+          : this.scanProgramAccounts(mint, programId, onProgress),
+        this.scanTimeout,
+        "The holder scan"
+      )
+    );
+  }
+
+  /**
+   * Reads the largest holders of a mint, without scanning the others.
+   * @param mint - The mint
+   * @param count - How many token accounts to read, at most 20
+   * @param onProgress - Called once the accounts are read
+   */
+  async getTopHolders(
+    mint: PublicKey,
+    count: number = maxLargestAccounts,
+    onProgress?: HolderScanProgressCallback
+  ): Promise<HolderScan> {
+    const limit = Math.min(count, maxLargestAccounts);
+    return await this.cached(
+      `holders:${mint.toBase58()}:top${limit}`,
+      async () => {
+        const { value: largest } =
+          await this.connection.getTokenLargestAccounts(mint);
+        const accounts = largest.slice(0, limit);
+        const infos = await this.connection.getMultipleAccountsInfo(
+          accounts.map((account) => account.address),
+          { dataSlice: ownerSlice }
+        );
+
+        const balances = new Map<string, bigint>();
+        infos.forEach((info, index) => {
+          if (!info) return;
+          addBalance(
+            balances,
+            readOwner(info.data),
+            BigInt(accounts[index].amount)
+          );
+        });
+        onProgress?.({
+          source: "largest-accounts",
+          accounts: accounts.length,
+          done: true,
+        });
+
+        return {
+          holders: toHolders(balances),
+          complete: false,
+          source: "largest-accounts",
+          scannedAt: Date.now(),
+        };
+      }
+    );
+  }
+
+  private async scanProgramAccounts(
+    mint: PublicKey,
+    programId: PublicKey,
+    onProgress?: HolderScanProgressCallback
+  ): Promise<HolderScan> {
+    onProgress?.({ source: "rpc", accounts: 0, done: false });
+
+    // Token-2022 accounts carrying extensions are longer than the 165 bytes of a plain
+    // account, so only the legacy program can filter on size. Mints can't match the
+    // filter on the first 32 bytes, since those start with the mint authority's option tag.
+    const accounts = await this.connection.getProgramAccounts(programId, {
+      dataSlice: holderSlice,
+      filters: [
+        ...(programId.equals(TOKEN_PROGRAM_ID) ? [{ dataSize: 165 }] : []),
+        { memcmp: { offset: 0, bytes: mint.toBase58() } },
+      ],
+    });
+
+    const balances = new Map<string, bigint>();
+    for (const { account } of accounts) {
+      addBalance(balances, readOwner(account.data), readAmount(account.data));
+    }
+    onProgress?.({ source: "rpc", accounts: accounts.length, done: true });
+
+    const holders = toHolders(balances);
+    return {
+      holders,
+      totalHolders: holders.length,
+      complete: true,
+      source: "rpc",
+      scannedAt: Date.now(),
+    };
+  }
+
+  private async scanDas(
+    mint: PublicKey,
+    dasUrl: string,
+    onProgress?: HolderScanProgressCallback
+  ): Promise<HolderScan> {
+    const balances = new Map<string, bigint>();
+    let accounts = 0;
+
+    for (let page = 1; ; page++) {
+      // Amounts can be above 2^53, where a JSON number would be rounded
+      const response = (await this.httpClient.postJson(
+        dasUrl,
+        {
+          jsonrpc: "2.0",
+          id: "holders",
+          method: "getTokenAccounts",
+          params: {
+            mint: mint.toBase58(),
+            page,
+            limit: dasPageSize,
+            options: { showZeroBalance: false },
+          },
+        },
+        { bigInts: true }
+      )) as DasTokenAccountsResponse;
+      if (response.error) {
+        throw new Error(
+          `DAS getTokenAccounts failed: ${response.error.message ?? "unknown error"}`
+        );
+      }
+
+      const tokenAccounts = response.result?.token_accounts ?? [];
+      for (const { owner, amount } of tokenAccounts) {
+        addBalance(balances, owner, BigInt(amount));
+      }
+      accounts += tokenAccounts.length;
+
+      const done = tokenAccounts.length < dasPageSize;
+      onProgress?.({ source: "das", accounts, page, done });
+      if (done) break;
+    }
+
+    const holders = toHolders(balances);
+    return {
+      holders,
+      totalHolders: holders.length,
+      complete: true,
+      source: "das",
+      scannedAt: Date.now(),
+    };
+  }
+}
+
+/**
+ * Builds a holder scanner from the settings: HOLDERS_DAS_URL names a DAS endpoint
+ * for paginated scans, and HOLDERS_CACHE_TTL how long scans are cached, in seconds.
+ * @param runtime - The agent runtime, used for settings
+ * @param connection - The Solana connection object
+ * @param cache - Where scans are cached
+ */
+export function loadHolderScanner(
+  runtime: IAgentRuntime,
+  connection: Connection,
+  cache?: NodeCache
+): HolderScanner {
+  const ttl = runtime.getSetting("HOLDERS_CACHE_TTL");
+  if (ttl !== null && !/^\d+$/.test(ttl)) {
+    throw new Error("HOLDERS_CACHE_TTL must be a number of seconds");
+  }
+  return new HolderScanner(connection, {
+    dasUrl: runtime.getSetting("HOLDERS_DAS_URL") ?? undefined,
+    cache,
+    ttl: ttl === null ? undefined : Number(ttl),
+  });
+}
+
+export default HolderScanner;
@@ -0,0 +1,95 @@
+import axios from "axios";
+import JSONbig from "json-bigint";
+
+export interface HttpRequestOptions {
+  timeout?: number; // In milliseconds, 10 seconds if omitted.
+  headers?: Record<string, string>;
+  maxRedirects?: number; // 0 to refuse redirects, 5 if omitted.
+  bigInts?: boolean; // Parse integers too large for a number as bigints instead of rounding them.
+  address?: { address: string; family: number }; // Connect to this address instead of resolving the URL's host.
+}
+
+const bigIntJson = JSONbig({ useNativeBigInt: true });
+
+/**
+ * Makes axios connect to a given address, so the host isn't resolved again after it was checked.
+ */
+function pinAddress(options?: HttpRequestOptions) {
+  const pinned = options?.address;
+  return pinned
+    ? {
+        lookup: async () => ({
+          address: pinned.address,
+          family: pinned.family === 6 ? (6 as const) : (4 as const),
+        }),
+      }
+    : {};
+}
+
+/**
+ * Replaces axios' JSON parsing when the response has integers too large for a number.
+ */
+function parseResponse(options?: HttpRequestOptions) {
+  return options?.bigInts
+    ? {
+        responseType: "text" as const,
+        transformResponse: (data: string) => bigIntJson.parse(data),
+      }
+    : {};
+}
+
+/**
+ * Fetches JSON over HTTP. Injected so reports can be generated offline or through a proxy.
+ */
+export interface HttpClient {
+  getJson(url: string, options?: HttpRequestOptions): Promise<unknown>;
+  postJson(
+    url: string,
+    body: unknown,
+    options?: HttpRequestOptions
+  ): Promise<unknown>;
+}
+
+export const axiosHttpClient: HttpClient = {
+  getJson: async (url, options) => {
+    const response = await axios.get(url, {
+      timeout: options?.timeout ?? 10_000,
+      headers: options?.headers,
+      maxRedirects: options?.maxRedirects ?? 5,
+      maxContentLength: 1_000_000,
+      ...pinAddress(options),
+      ...parseResponse(options),
+    });
+    return response.data;
+  },
+  postJson: async (url, body, options) => {
+    const response = await axios.post(url, body, {
+      timeout: options?.timeout ?? 10_000,
+      headers: options?.headers,
+      maxRedirects: options?.maxRedirects ?? 5,
+      maxContentLength: 10_000_000,
+      ...pinAddress(options),
+      ...parseResponse(options),
+    });
+    return response.data;
+  },
+};
+
+/**
+ * Rejects if a promise doesn't settle in time. The promise itself keeps running.
+ * @param promise - The promise
+ * @param ms - How long to wait, in milliseconds
+ * @param name - What is awaited, for the error message
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, name: string) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`${name} didn't answer within ${ms}ms`)),
+        ms
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
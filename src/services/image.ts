@@ -3,8 +3,11 @@ import fs from "fs";
 import gifFrames from "gif-frames";
 import os from "os";
 import path from "path";
-import { type IAgentRuntime } from "@/core/types";
-class ImageDescriptionService {
+import {
+  type IAgentRuntime,
+  type IImageRecognitionService,
+} from "@/core/types";
+class ImageDescriptionService implements IImageRecognitionService {
   private static instance: ImageDescriptionService | null = null;
   private apiKey: string;
 
@@ -19,6 +22,11 @@ class ImageDescriptionService {
     return ImageDescriptionService.instance;
   }
 
+  /**
+   * Nothing to load: images are described by the OpenAI API.
+   */
+  async initialize(): Promise<void> {}
+
   async describeImage(imageUrl: string): Promise<{ title: string; description: string }> {
     try {
       const response = await fetch(
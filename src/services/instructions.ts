@@ -0,0 +1,310 @@
+import * as multisig from "@sqds/multisig";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeInstruction as decodeTokenInstruction,
+  decodeTransferCheckedWithFeeInstruction,
+} from "@solana/spl-token";
+
+const solDecimals = 9;
+
+const programNames: Record<string, string> = {
+  [SystemProgram.programId.toBase58()]: "System",
+  [TOKEN_PROGRAM_ID.toBase58()]: "Token",
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: "Token-2022",
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: "Associated Token",
+  [ComputeBudgetProgram.programId.toBase58()]: "Compute Budget",
+  [multisig.PROGRAM_ADDRESS]: "Squads",
+};
+
+/**
+ * An instruction decoded far enough to show a person what it does.
+ * Amounts are in base units; transfers of SOL have no mint.
+ */
+export interface DescribedInstruction {
+  programId: string;
+  program: string; // The program's name, or its address if it isn't a known one.
+  type: string; // The instruction's name, e.g. "Transfer", "SetAuthority", or "Unknown".
+  source?: string; // The account funds move out of.
+  destination?: string; // The account funds move into. For token transfers, a token account. Missing for burns.
+  mint?: string;
+  amount?: bigint;
+  decimals?: number;
+  summary: string; // One line describing the instruction.
+}
+
+/**
+ * Formats an amount in base units as a decimal number, without losing precision.
+ * @param amount - The amount in base units.
+ * @param decimals - The decimals of the mint.
+ */
+export function formatAmount(amount: bigint, decimals: number): string {
+  const negative = amount < 0n;
+  const digits = (negative ? -amount : amount)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Parses a decimal amount into base units, e.g. "1.5" with 9 decimals is 1500000000.
+ * @returns The amount, or null if it isn't a positive number with at most `decimals` decimals.
+ */
+export function parseAmount(text: string, decimals: number): bigint | null {
+  const match = text.match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match || (match[2]?.length ?? 0) > decimals) return null;
+  const amount = BigInt(match[1] + (match[2] ?? "").padEnd(decimals, "0"));
+  return amount > 0n ? amount : null;
+}
+
+/**
+ * Decodes System and SPL Token instructions, and names the program of any other.
+ * @param ix - The instruction
+ */
+export function describeInstruction(
+  ix: TransactionInstruction
+): DescribedInstruction {
+  const programId = ix.programId.toBase58();
+  const program = programNames[programId] ?? programId;
+  const unknown: DescribedInstruction = {
+    programId,
+    program,
+    type: "Unknown",
+    summary: `Call ${program}`,
+  };
+
+  if (ix.programId.equals(SystemProgram.programId)) {
+    try {
+      const type = SystemInstruction.decodeInstructionType(ix);
+      const lamportsMove = decodeLamportsMove(ix, type);
+      if (!lamportsMove) {
+        return { ...unknown, type, summary: `System ${type}` };
+      }
+      const { from, to, lamports } = lamportsMove;
+      const amount = BigInt(lamports.toString());
+      return {
+        programId,
+        program,
+        type,
+        source: from.toBase58(),
+        destination: to.toBase58(),
+        amount,
+        decimals: solDecimals,
+        summary:
+          type === "Create" || type === "CreateWithSeed"
+            ? `Create account ${to.toBase58()} with ${formatAmount(amount, solDecimals)} SOL`
+            : `Send ${formatAmount(amount, solDecimals)} SOL to ${to.toBase58()}`,
+      };
+    } catch {
+      return unknown;
+    }
+  }
+
+  if (
+    ix.programId.equals(TOKEN_PROGRAM_ID) ||
+    ix.programId.equals(TOKEN_2022_PROGRAM_ID)
+  ) {
+    if (ix.data[0] === TokenInstruction.TransferFeeExtension) {
+      return describeTransferFeeInstruction(ix, unknown);
+    }
+
+    let decoded;
+    try {
+      decoded = decodeTokenInstruction(ix, ix.programId);
+    } catch {
+      // Other Token-2022 extension instructions aren't decoded
+      const type = TokenInstruction[ix.data[0]] ?? "Unknown";
+      return { ...unknown, type, summary: `${program} ${type}` };
+    }
+
+    const type = TokenInstruction[decoded.data.instruction];
+    if (decoded.data.instruction === TokenInstruction.Transfer) {
+      const { source, destination } = decoded.keys as {
+        source: { pubkey: PublicKey };
+        destination: { pubkey: PublicKey };
+      };
+      const amount = BigInt(decoded.data.amount.toString());
+      return {
+        programId,
+        program,
+        type,
+        source: source.pubkey.toBase58(),
+        destination: destination.pubkey.toBase58(),
+        amount,
+        summary: `Send ${amount} base units of a token to token account ${destination.pubkey.toBase58()}`,
+      };
+    }
+    if (decoded.data.instruction === TokenInstruction.TransferChecked) {
+      const { source, mint, destination } = decoded.keys as {
+        source: { pubkey: PublicKey };
+        mint: { pubkey: PublicKey };
+        destination: { pubkey: PublicKey };
+      };
+      const amount = BigInt(decoded.data.amount.toString());
+      const decimals = decoded.data.decimals as number;
+      return {
+        programId,
+        program,
+        type,
+        source: source.pubkey.toBase58(),
+        destination: destination.pubkey.toBase58(),
+        mint: mint.pubkey.toBase58(),
+        amount,
+        decimals,
+        summary: `Send ${formatAmount(amount, decimals)} of ${mint.pubkey.toBase58()} to token account ${destination.pubkey.toBase58()}`,
+      };
+    }
+    if (
+      decoded.data.instruction === TokenInstruction.Burn ||
+      decoded.data.instruction === TokenInstruction.BurnChecked
+    ) {
+      const { account, mint } = decoded.keys as {
+        account: { pubkey: PublicKey };
+        mint: { pubkey: PublicKey };
+      };
+      const amount = BigInt(decoded.data.amount.toString());
+      const decimals =
+        "decimals" in decoded.data
+          ? (decoded.data.decimals as number)
+          : undefined;
+      return {
+        programId,
+        program,
+        type,
+        source: account.pubkey.toBase58(),
+        mint: mint.pubkey.toBase58(),
+        amount,
+        decimals,
+        summary: `Burn ${decimals === undefined ? `${amount} base units` : formatAmount(amount, decimals)} of ${mint.pubkey.toBase58()}`,
+      };
+    }
+    return { ...unknown, type, summary: `${program} ${type}` };
+  }
+
+  if (ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+    const owner = ix.keys[2]?.pubkey.toBase58();
+    return {
+      ...unknown,
+      type: "Create",
+      summary: `Create a token account for ${owner}`,
+    };
+  }
+
+  return unknown;
+}
+
+/**
+ * Reads where a System instruction moves lamports, for the instructions that move them
+ * without closing or assigning an account.
+ * @returns The accounts and amount, or null if the instruction doesn't move lamports this way.
+ */
+function decodeLamportsMove(
+  ix: TransactionInstruction,
+  type: ReturnType<typeof SystemInstruction.decodeInstructionType>
+): { from: PublicKey; to: PublicKey; lamports: number | bigint } | null {
+  switch (type) {
+    case "Transfer": {
+      const { fromPubkey, toPubkey, lamports } =
+        SystemInstruction.decodeTransfer(ix);
+      return { from: fromPubkey, to: toPubkey, lamports };
+    }
+    case "TransferWithSeed": {
+      const { fromPubkey, toPubkey, lamports } =
+        SystemInstruction.decodeTransferWithSeed(ix);
+      return { from: fromPubkey, to: toPubkey, lamports };
+    }
+    case "WithdrawNonceAccount": {
+      const { noncePubkey, toPubkey, lamports } =
+        SystemInstruction.decodeNonceWithdraw(ix);
+      return { from: noncePubkey, to: toPubkey, lamports };
+    }
+    case "Create": {
+      const { fromPubkey, newAccountPubkey, lamports } =
+        SystemInstruction.decodeCreateAccount(ix);
+      return { from: fromPubkey, to: newAccountPubkey, lamports };
+    }
+    case "CreateWithSeed": {
+      const { fromPubkey, newAccountPubkey, lamports } =
+        SystemInstruction.decodeCreateWithSeed(ix);
+      return { from: fromPubkey, to: newAccountPubkey, lamports };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decodes Token-2022 transfer fee instructions, of which only TransferCheckedWithFee moves
+ * funds between holders.
+ */
+function describeTransferFeeInstruction(
+  ix: TransactionInstruction,
+  unknown: DescribedInstruction
+): DescribedInstruction {
+  try {
+    const { keys, data } = decodeTransferCheckedWithFeeInstruction(
+      ix,
+      ix.programId
+    );
+    return {
+      ...unknown,
+      type: "TransferCheckedWithFee",
+      source: keys.source.pubkey.toBase58(),
+      destination: keys.destination.pubkey.toBase58(),
+      mint: keys.mint.pubkey.toBase58(),
+      amount: data.amount,
+      decimals: data.decimals,
+      summary: `Send ${formatAmount(data.amount, data.decimals)} of ${keys.mint.pubkey.toBase58()} to token account ${keys.destination.pubkey.toBase58()}, paying a fee of ${formatAmount(data.fee, data.decimals)}`,
+    };
+  } catch {
+    const type = "TransferFeeExtension";
+    return { ...unknown, type, summary: `${unknown.program} ${type}` };
+  }
+}
+
+/**
+ * Describes a change a config transaction makes to a multisig, in one line.
+ * Spending limit amounts are in base units, since the mint's decimals aren't known here.
+ * @param action - The config action.
+ */
+export function describeConfigAction(
+  action: multisig.types.ConfigAction
+): string {
+  switch (action.__kind) {
+    case "AddMember":
+      return `Add member ${action.newMember.key.toBase58()}`;
+    case "RemoveMember":
+      return `Remove member ${action.oldMember.toBase58()}`;
+    case "ChangeThreshold":
+      return `Require ${action.newThreshold} votes per proposal`;
+    case "SetTimeLock":
+      return `Set the time lock to ${action.newTimeLock} seconds`;
+    case "AddSpendingLimit": {
+      const mint = action.mint.equals(PublicKey.default)
+        ? "SOL"
+        : action.mint.toBase58();
+      const destinations =
+        action.destinations.length > 0
+          ? ` to ${action.destinations.map((key) => key.toBase58()).join(", ")}`
+          : "";
+      return `Let ${action.members.map((key) => key.toBase58()).join(", ")} spend ${action.amount.toString()} base units of ${mint} per ${multisig.types.Period[action.period]} from vault ${action.vaultIndex}${destinations}`;
+    }
+    case "RemoveSpendingLimit":
+      return `Remove spending limit ${action.spendingLimit.toBase58()}`;
+    case "SetRentCollector":
+      return action.newRentCollector
+        ? `Send reclaimed rent to ${action.newRentCollector.toBase58()}`
+        : "Stop reclaiming rent";
+  }
+}
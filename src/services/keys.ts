@@ -0,0 +1,27 @@
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { type IAgentRuntime } from "@/core/types";
+
+/**
+ * Loads a keypair from a base58 encoded secret key setting, e.g. FEE_PAYER_KEY or AGENT_KEY.
+ * @param runtime - The runtime to read the setting from
+ * @param setting - The name of the setting holding the secret key
+ */
+export function loadKeypair(runtime: IAgentRuntime, setting: string): Keypair {
+  const secretKey = runtime.getSetting(setting);
+  if (!secretKey) {
+    throw new Error(`${setting} is not set`);
+  }
+  return Keypair.fromSecretKey(bs58.decode(secretKey));
+}
+
+/**
+ * Whether the keys wallets need are set: FEE_PAYER_KEY pays for the transactions and
+ * AGENT_KEY is the agent's member key in every multisig.
+ * @param runtime - The runtime to read the settings from
+ */
+export function walletKeysConfigured(runtime: IAgentRuntime): boolean {
+  return (
+    !!runtime.getSetting("FEE_PAYER_KEY") && !!runtime.getSetting("AGENT_KEY")
+  );
+}
@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import NodeCache from "node-cache";
+import MarketData, {
+  DexScreenerProvider,
+  FixtureProvider,
+  JupiterProvider,
+  type MarketDataProvider,
+  type MarketPair,
+} from "@/services/marketData";
+import type { HttpClient } from "@/services/http";
+
+const mint = "So11111111111111111111111111111111111111112";
+const otherMint = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+/**
+ * An HttpClient answering each URL from a map, and recording the URLs it was asked.
+ */
+function stubHttpClient(responses: Record<string, unknown>) {
+  const requested: string[] = [];
+  const httpClient: HttpClient = {
+    getJson: async (url) => {
+      requested.push(url);
+      if (!(url in responses)) throw new Error(`Unexpected request to ${url}`);
+      return responses[url];
+    },
+    postJson: async (url) => {
+      throw new Error(`Unexpected request to ${url}`);
+    },
+  };
+  return { httpClient, requested };
+}
+
+/**
+ * A provider pricing every token with a function, and counting its calls.
+ */
+function provider(
+  name: string,
+  getPrice: () => Promise<number | null>,
+  timeout?: number
+): MarketDataProvider & { calls: number } {
+  const result = {
+    name,
+    timeout,
+    calls: 0,
+    getPrice: async () => {
+      result.calls++;
+      return await getPrice();
+    },
+    getMarketPairs: async () => null,
+  };
+  return result;
+}
+
+describe("MarketData", () => {
+  test("asks the next provider when one fails or doesn't know the token", async () => {
+    const failing = provider("Failing", async () => {
+      throw new Error("down");
+    });
+    const unknown = new FixtureProvider({}, "Unknown");
+    const marketData = new MarketData([
+      failing,
+      unknown,
+      new FixtureProvider({ [mint]: { price: 150 } }, "Known"),
+    ]);
+
+    expect(await marketData.getPrice(mint)).toMatchObject({
+      price: 150,
+      source: "Known",
+    });
+    expect(failing.calls).toBe(1);
+    expect(await marketData.getPrice(otherMint)).toBeUndefined();
+  });
+
+  test("moves on from a provider that doesn't answer in time", async () => {
+    const hanging = provider("Hanging", () => new Promise(() => {}), 20);
+    const marketData = new MarketData([
+      hanging,
+      new FixtureProvider({ [mint]: { price: 150 } }),
+    ]);
+
+    expect(await marketData.getPrice(mint)).toMatchObject({
+      price: 150,
+      source: "Fixture",
+    });
+  });
+
+  test("returns a cached answer of an earlier provider before asking later ones", async () => {
+    const cache = new NodeCache();
+    const flaky = provider("Flaky", async () => 100);
+    const backup = provider("Backup", async () => 200);
+    const marketData = new MarketData([flaky, backup], cache);
+
+    expect((await marketData.getPrice(mint))?.price).toBe(100);
+    expect((await marketData.getPrice(mint))?.price).toBe(100);
+    expect(flaky.calls).toBe(1);
+    expect(backup.calls).toBe(0);
+
+    // A later provider's cached answer comes after asking the earlier ones again
+    cache.set(`market-data:Backup:price:${otherMint}`, 250);
+    expect(await marketData.getPrice(otherMint)).toMatchObject({
+      price: 100,
+      source: "Flaky",
+    });
+    expect(flaky.calls).toBe(2);
+  });
+
+  test("asks the providers for pairs in order, and returns none if none has any", async () => {
+    const pairs: MarketPair[] = [{ dexId: "raydium" }];
+    const marketData = new MarketData([
+      new FixtureProvider({ [mint]: { price: 150 } }),
+      new FixtureProvider({ [mint]: { pairs } }, "Pairs"),
+    ]);
+
+    expect(await marketData.getMarketPairs(mint)).toEqual({
+      pairs,
+      source: "Pairs",
+    });
+    expect(await marketData.getMarketPairs(otherMint)).toEqual({ pairs: [] });
+  });
+});
+
+describe("JupiterProvider", () => {
+  test("reads the price from the price API", async () => {
+    const { httpClient, requested } = stubHttpClient({
+      [`https://api.jup.ag/price/v2?ids=${mint}`]: {
+        data: { [mint]: { price: "151.5" } },
+      },
+      [`https://api.jup.ag/price/v2?ids=${otherMint}`]: {
+        data: { [otherMint]: null },
+      },
+    });
+    const jupiter = new JupiterProvider(httpClient);
+
+    expect(await jupiter.getPrice(mint, 1000)).toBe(151.5);
+    expect(await jupiter.getPrice(otherMint, 1000)).toBeNull();
+    expect(requested).toHaveLength(2);
+  });
+});
+
+describe("DexScreenerProvider", () => {
+  test("prices the token from the deepest pair it is the base token of", async () => {
+    const pairs: MarketPair[] = [
+      {
+        dexId: "quoted",
+        baseToken: { address: otherMint },
+        priceUsd: "1.00",
+        liquidity: { usd: 10_000_000 },
+      },
+      {
+        dexId: "shallow",
+        baseToken: { address: mint },
+        priceUsd: "149",
+        liquidity: { usd: 1_000 },
+      },
+      {
+        dexId: "deep",
+        baseToken: { address: mint },
+        priceUsd: "150",
+        liquidity: { usd: 1_000_000 },
+      },
+    ];
+    const { httpClient } = stubHttpClient({
+      [`https://api.dexscreener.com/latest/dex/tokens/${mint}`]: { pairs },
+      [`https://api.dexscreener.com/latest/dex/tokens/${otherMint}`]: {
+        pairs: [pairs[1]],
+      },
+    });
+    const dexScreener = new DexScreenerProvider(httpClient);
+
+    expect(await dexScreener.getPrice(mint, 1000)).toBe(150);
+    expect(await dexScreener.getMarketPairs(mint, 1000)).toEqual(pairs);
+    // Only quoted by its pairs, so DexScreener has no price for it
+    expect(await dexScreener.getPrice(otherMint, 1000)).toBeNull();
+  });
+});
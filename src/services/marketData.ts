@@ -0,0 +1,339 @@
+import { readFileSync } from "node:fs";
+import NodeCache from "node-cache";
+import {
+  axiosHttpClient,
+  withTimeout,
+  type HttpClient,
+} from "@/services/http";
+import type { IAgentRuntime } from "@/core/types";
+
+/**
+ * How long a provider gets to answer before the next one is asked, in milliseconds.
+ */
+const defaultTimeout = 10_000;
+
+/**
+ * How long answers are cached, in seconds. Prices move faster than pools.
+ */
+const priceTtl = 60;
+const pairsTtl = 300;
+
+export interface PriceData {
+  price: number; // In USD.
+  timestamp: number;
+  source: string; // The provider the price came from.
+}
+
+export interface MarketPair {
+  dexId: string;
+  baseToken?: { address: string; symbol?: string }; // The token the pair's price and market cap are for.
+  url?: string;
+  pairAddress?: string;
+  pairCreatedAt?: number; // Timestamp in milliseconds.
+  marketCap?: number;
+  fdv?: number;
+  priceUsd?: string;
+  volume?: {
+    h24?: number;
+  };
+  boosts?: {
+    active: boolean;
+  };
+  liquidity?: {
+    usd?: number;
+  };
+}
+
+/**
+ * A source of prices and trading pairs. Either method resolves to null when the
+ * source doesn't know the token, or doesn't offer that data at all, so the next
+ * source is asked instead.
+ */
+export interface MarketDataProvider {
+  name: string; // Shown in reports as the source of the numbers.
+  timeout?: number; // In milliseconds, 10 seconds if omitted.
+  getPrice(mint: string, timeout: number): Promise<number | null>;
+  getMarketPairs(mint: string, timeout: number): Promise<MarketPair[] | null>;
+}
+
+/**
+ * Prices from Jupiter's price API. Jupiter has no pair data.
+ */
+export class JupiterProvider implements MarketDataProvider {
+  name = "Jupiter";
+  private httpClient: HttpClient;
+
+  constructor(httpClient: HttpClient = axiosHttpClient) {
+    this.httpClient = httpClient;
+  }
+
+  async getPrice(mint: string, timeout: number) {
+    const response = (await this.httpClient.getJson(
+      `https://api.jup.ag/price/v2?ids=${mint}`,
+      { timeout }
+    )) as { data?: Record<string, { price?: string } | null> };
+    const price = Number(response.data?.[mint]?.price);
+    return Number.isFinite(price) ? price : null;
+  }
+
+  async getMarketPairs() {
+    return null;
+  }
+}
+
+/**
+ * Prices and pairs from DexScreener. The price is the one of the most liquid pair
+ * trading the token as its base token.
+ */
+export class DexScreenerProvider implements MarketDataProvider {
+  name = "DexScreener";
+  private httpClient: HttpClient;
+
+  constructor(httpClient: HttpClient = axiosHttpClient) {
+    this.httpClient = httpClient;
+  }
+
+  async getPrice(mint: string, timeout: number) {
+    const pairs = await this.getMarketPairs(mint, timeout);
+    // Pairs quoting the mint price the other token
+    const deepest = pairs
+      ?.filter((pair) => pair.baseToken?.address === mint && pair.priceUsd)
+      .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0))[0];
+    return deepest ? Number(deepest.priceUsd) : null;
+  }
+
+  async getMarketPairs(mint: string, timeout: number) {
+    const response = (await this.httpClient.getJson(
+      `https://api.dexscreener.com/latest/dex/tokens/${mint}`,
+      { timeout }
+    )) as { pairs?: MarketPair[] | null };
+    return response.pairs?.length ? response.pairs : null;
+  }
+}
+
+/**
+ * Prices and pairs from Birdeye's public API, which needs an API key.
+ */
+export class BirdeyeProvider implements MarketDataProvider {
+  name = "Birdeye";
+  private apiKey: string;
+  private httpClient: HttpClient;
+
+  constructor(apiKey: string, httpClient: HttpClient = axiosHttpClient) {
+    this.apiKey = apiKey;
+    this.httpClient = httpClient;
+  }
+
+  private async get(path: string, timeout: number) {
+    return (await this.httpClient.getJson(
+      `https://public-api.birdeye.so${path}`,
+      { timeout, headers: { "X-API-KEY": this.apiKey, "x-chain": "solana" } }
+    )) as { success?: boolean; data?: unknown };
+  }
+
+  async getPrice(mint: string, timeout: number) {
+    const response = await this.get(`/defi/price?address=${mint}`, timeout);
+    const price = Number((response.data as { value?: number } | null)?.value);
+    return response.success && Number.isFinite(price) ? price : null;
+  }
+
+  async getMarketPairs(mint: string, timeout: number) {
+    const response = await this.get(
+      `/defi/v2/markets?address=${mint}&sort_by=liquidity&sort_type=desc`,
+      timeout
+    );
+    const items =
+      (
+        response.data as {
+          items?: {
+            address: string;
+            source: string;
+            base?: { address: string; symbol?: string };
+            liquidity?: number;
+            price?: number;
+            volume24h?: number;
+          }[];
+        } | null
+      )?.items ?? [];
+    if (!response.success || items.length === 0) return null;
+
+    return items.map((item) => ({
+      dexId: item.source,
+      baseToken: item.base && {
+        address: item.base.address,
+        symbol: item.base.symbol,
+      },
+      pairAddress: item.address,
+      priceUsd: item.price?.toString(),
+      volume: { h24: item.volume24h },
+      liquidity: { usd: item.liquidity },
+    }));
+  }
+}
+
+/**
+ * Answers from fixed data, for tests and for generating reports offline.
+ */
+export class FixtureProvider implements MarketDataProvider {
+  name: string;
+  private fixtures: Record<string, { price?: number; pairs?: MarketPair[] }>;
+
+  /**
+   * Class constructor
+   * @param fixtures - The price and pairs of each mint, keyed by mint
+   * @param name - The source reports give for the numbers
+   */
+  constructor(
+    fixtures: Record<string, { price?: number; pairs?: MarketPair[] }>,
+    name: string = "Fixture"
+  ) {
+    this.fixtures = fixtures;
+    this.name = name;
+  }
+
+  async getPrice(mint: string) {
+    return this.fixtures[mint]?.price ?? null;
+  }
+
+  async getMarketPairs(mint: string) {
+    return this.fixtures[mint]?.pairs ?? null;
+  }
+}
+
+/**
+ * Reads market data from a list of providers: each question goes to the first
+ * provider, then to the next one whenever a provider fails, times out or has no
+ * answer. Answers are cached per provider, and carry the name of the one that gave them.
+ */
+class MarketData {
+  private providers: MarketDataProvider[];
+  private cache?: NodeCache;
+
+  /**
+   * Class constructor
+   * @param providers - The providers, in the order they are asked
+   * @param cache - Where answers are cached. Nothing is cached if omitted.
+   */
+  constructor(providers: MarketDataProvider[], cache?: NodeCache) {
+    this.providers = providers;
+    this.cache = cache;
+  }
+
+  private async ask<T>(
+    kind: "price" | "pairs",
+    mint: string,
+    ttl: number,
+    read: (provider: MarketDataProvider, timeout: number) => Promise<T | null>
+  ): Promise<{ value: T; source: string } | undefined> {
+    for (const provider of this.providers) {
+      const key = `market-data:${provider.name}:${kind}:${mint}`;
+      const cached = this.cache?.get<T>(key);
+      if (cached !== undefined) {
+        return { value: cached, source: provider.name };
+      }
+
+      const timeout = provider.timeout ?? defaultTimeout;
+      try {
+        const value = await withTimeout(
+          read(provider, timeout),
+          timeout,
+          provider.name
+        );
+        if (value === null) continue;
+
+        this.cache?.set(key, value, ttl);
+        return { value, source: provider.name };
+      } catch (error) {
+        console.error(
+          `Failed to fetch the ${kind} of ${mint} from ${provider.name}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Reads the USD price of a token.
+   * @param mint - The mint, base58 encoded
+   * @returns The price and its source, or undefined if no provider knows it.
+   */
+  async getPrice(mint: string): Promise<PriceData | undefined> {
+    const result = await this.ask(
+      "price",
+      mint,
+      priceTtl,
+      (provider, timeout) => provider.getPrice(mint, timeout)
+    );
+    return result
+      ? { price: result.value, timestamp: Date.now(), source: result.source }
+      : undefined;
+  }
+
+  /**
+   * Lists the pairs a token trades in.
+   * @param mint - The mint, base58 encoded
+   * @returns The pairs and their source, or no pairs if no provider knows any.
+   */
+  async getMarketPairs(
+    mint: string
+  ): Promise<{ pairs: MarketPair[]; source?: string }> {
+    const result = await this.ask(
+      "pairs",
+      mint,
+      pairsTtl,
+      (provider, timeout) => provider.getMarketPairs(mint, timeout)
+    );
+    return result
+      ? { pairs: result.value, source: result.source }
+      : { pairs: [] };
+  }
+}
+
+/**
+ * Builds the providers named by the MARKET_DATA_PROVIDERS setting, a comma separated
+ * list such as "jupiter,dexscreener,birdeye", asked in that order. Birdeye is skipped
+ * without a BIRDEYE_API_KEY, and "fixture" reads the JSON file at MARKET_DATA_FIXTURES.
+ * Defaults to Jupiter, then DexScreener, then Birdeye when it has a key.
+ * @param runtime - The agent runtime, used for settings
+ * @param httpClient - The client the providers fetch with
+ */
+export function loadMarketDataProviders(
+  runtime: IAgentRuntime,
+  httpClient: HttpClient = axiosHttpClient
+): MarketDataProvider[] {
+  const birdeyeApiKey = runtime.getSetting("BIRDEYE_API_KEY");
+  const names = (
+    runtime.getSetting("MARKET_DATA_PROVIDERS") ??
+    "jupiter,dexscreener,birdeye"
+  )
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.flatMap((name): MarketDataProvider[] => {
+    switch (name) {
+      case "jupiter":
+        return [new JupiterProvider(httpClient)];
+      case "dexscreener":
+        return [new DexScreenerProvider(httpClient)];
+      case "birdeye":
+        return birdeyeApiKey
+          ? [new BirdeyeProvider(birdeyeApiKey, httpClient)]
+          : [];
+      case "fixture": {
+        const file = runtime.getSetting("MARKET_DATA_FIXTURES");
+        if (!file) {
+          throw new Error(
+            "MARKET_DATA_FIXTURES must name a JSON file to use the fixture provider"
+          );
+        }
+        return [new FixtureProvider(JSON.parse(readFileSync(file, "utf8")))];
+      }
+      default:
+        throw new Error(`Unknown market data provider ${name}`);
+    }
+  });
+}
+
+export default MarketData;
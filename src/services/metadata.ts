@@ -0,0 +1,336 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { PublicKey } from "@solana/web3.js";
+import { axiosHttpClient, type HttpClient } from "@/services/http";
+
+export const metadataProgramId = new PublicKey(
+  "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s"
+);
+
+/**
+ * The kinds of asset a Metadata account can describe, in the order of the program's enum.
+ */
+const tokenStandards = [
+  "NonFungible",
+  "FungibleAsset",
+  "Fungible",
+  "NonFungibleEdition",
+  "ProgrammableNonFungible",
+  "ProgrammableNonFungibleEdition",
+] as const;
+
+export type TokenStandard = (typeof tokenStandards)[number];
+
+/**
+ * A decoded Metaplex Metadata account. Fields added by later versions of the
+ * program are missing from accounts written before them.
+ */
+export interface TokenMetadata {
+  updateAuthority: string;
+  mint: string;
+  name: string;
+  symbol: string;
+  uri: string;
+  sellerFeeBasisPoints: number;
+  creators: { address: string; verified: boolean; share: number }[];
+  primarySaleHappened: boolean;
+  isMutable: boolean; // Whether the update authority can still change the metadata.
+  tokenStandard?: TokenStandard;
+  collection?: { key: string; verified: boolean };
+}
+
+/**
+ * The JSON a Metadata account's URI points to. Only the fields reports use are typed.
+ */
+export interface OffChainMetadata {
+  name?: string;
+  symbol?: string;
+  description?: string;
+  image?: string;
+  external_url?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Reads Borsh encoded values in order.
+ */
+class BorshReader {
+  private data: Buffer;
+  private offset = 0;
+
+  constructor(data: Buffer) {
+    this.data = data;
+  }
+
+  get done() {
+    return this.offset >= this.data.length;
+  }
+
+  u8() {
+    const value = this.data.readUInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  u16() {
+    const value = this.data.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.data.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  bool() {
+    return this.u8() !== 0;
+  }
+
+  publicKey() {
+    const value = new PublicKey(
+      this.data.subarray(this.offset, this.offset + 32)
+    );
+    this.offset += 32;
+    return value.toBase58();
+  }
+
+  string() {
+    const length = this.u32();
+    if (this.offset + length > this.data.length) {
+      throw new Error("String runs past the end of the account");
+    }
+    const value = this.data.toString(
+      "utf8",
+      this.offset,
+      this.offset + length
+    );
+    this.offset += length;
+    return value;
+  }
+
+  option<T>(read: () => T): T | undefined {
+    return this.u8() === 1 ? read() : undefined;
+  }
+
+  vec<T>(read: () => T): T[] {
+    return Array.from({ length: this.u32() }, read);
+  }
+}
+
+/**
+ * Fixed size strings are padded with null bytes on chain.
+ */
+function trimPadding(value: string) {
+  return value.replace(/\0+$/, "").trim();
+}
+
+/**
+ * Derives the address of a mint's Metadata account.
+ * @param mint - The mint
+ */
+export function getMetadataAddress(mint: PublicKey): PublicKey {
+  const [address] = PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), metadataProgramId.toBuffer(), mint.toBuffer()],
+    metadataProgramId
+  );
+  return address;
+}
+
+/**
+ * Decodes a Metaplex Metadata account.
+ * @param data - The account data
+ * @throws If the data isn't a Metadata account.
+ */
+export function decodeMetadata(data: Buffer): TokenMetadata {
+  const reader = new BorshReader(data);
+
+  // Key::MetadataV1
+  if (reader.u8() !== 4) {
+    throw new Error("Not a Metadata account");
+  }
+
+  const updateAuthority = reader.publicKey();
+  const mint = reader.publicKey();
+  const name = trimPadding(reader.string());
+  const symbol = trimPadding(reader.string());
+  const uri = trimPadding(reader.string());
+  const sellerFeeBasisPoints = reader.u16();
+  const creators =
+    reader.option(() =>
+      reader.vec(() => ({
+        address: reader.publicKey(),
+        verified: reader.bool(),
+        share: reader.u8(),
+      }))
+    ) ?? [];
+  const primarySaleHappened = reader.bool();
+  const isMutable = reader.bool();
+
+  const metadata: TokenMetadata = {
+    updateAuthority,
+    mint,
+    name,
+    symbol,
+    uri,
+    sellerFeeBasisPoints,
+    creators,
+    primarySaleHappened,
+    isMutable,
+  };
+
+  // Accounts created before token standards and collections end here
+  if (reader.done) return metadata;
+  reader.option(() => reader.u8()); // Edition nonce
+
+  if (reader.done) return metadata;
+  const tokenStandard = reader.option(() => reader.u8());
+  if (tokenStandard !== undefined) {
+    metadata.tokenStandard = tokenStandards[tokenStandard];
+  }
+
+  if (reader.done) return metadata;
+  const collection = reader.option(() => ({
+    verified: reader.bool(),
+    key: reader.publicKey(),
+  }));
+  if (collection) {
+    metadata.collection = collection;
+  }
+
+  return metadata;
+}
+
+/**
+ * Rewrites decentralized storage URIs to HTTPS gateways. Other schemes than https,
+ * ipfs and ar aren't fetched.
+ * @returns The URL, or null if the scheme isn't allowed.
+ */
+function toHttpsUrl(uri: string) {
+  if (uri.startsWith("ipfs://")) {
+    return `https://ipfs.io/ipfs/${uri.slice("ipfs://".length)}`;
+  }
+  if (uri.startsWith("ar://")) {
+    return `https://arweave.net/${uri.slice("ar://".length)}`;
+  }
+  return uri.startsWith("https://") ? uri : null;
+}
+
+function isPrivateIpv4(address: string) {
+  const [a, b, c] = address.split(".").map(Number);
+  return (
+    a === 0 || // This network
+    a === 10 ||
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b < 128) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast and reserved
+  );
+}
+
+/**
+ * Expands an IPv6 address into its 8 groups.
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  // An embedded IPv4 address, as in ::ffff:127.0.0.1, is the last 2 groups
+  const ipv4 = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b, c, d] = ipv4.slice(1).map(Number);
+    text = `${text.slice(0, ipv4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part?: string) =>
+    part ? part.split(":").map((group) => parseInt(group, 16)) : [];
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  return [
+    ...headGroups,
+    ...Array(8 - headGroups.length - tailGroups.length).fill(0),
+    ...tailGroups,
+  ];
+}
+
+function isPrivateIpv6(address: string) {
+  const groups = ipv6Groups(address);
+  const [first] = groups;
+  // IPv4 mapped addresses, ::ffff:a.b.c.d, reach the IPv4 address
+  if (
+    groups.slice(0, 5).every((group) => group === 0) &&
+    groups[5] === 0xffff
+  ) {
+    const [high, low] = groups.slice(6);
+    return isPrivateIpv4(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".")
+    );
+  }
+  return (
+    groups.slice(0, 7).every((group) => group === 0) || // Unspecified and loopback
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+/**
+ * Resolves a host that resolves to public addresses only. Metadata URIs are chosen by
+ * whoever minted the token, so they must not reach the bot's own network.
+ * @returns The address to connect to, or null if the host has a private address or doesn't resolve.
+ */
+async function resolvePublicHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(host)
+      ? [{ address: host, family: isIP(host) }]
+      : await lookup(host, { all: true });
+  } catch {
+    return null;
+  }
+  const isPublic =
+    addresses.length > 0 &&
+    addresses.every(({ address, family }) =>
+      family === 4 ? !isPrivateIpv4(address) : !isPrivateIpv6(address)
+    );
+  return isPublic ? addresses[0] : null;
+}
+
+/**
+ * Fetches the JSON a Metadata account's URI points to. Only https, ipfs and ar URIs on
+ * public addresses are fetched, from the address that was checked, and redirects aren't followed.
+ * @param uri - The URI from the Metadata account
+ * @param httpClient - The client to fetch it with
+ * @returns The JSON, or null if there is no URI, it can't be fetched, or it doesn't serve a JSON object.
+ */
+export async function fetchOffChainMetadata(
+  uri: string,
+  httpClient: HttpClient = axiosHttpClient
+): Promise<OffChainMetadata | null> {
+  if (!uri) return null;
+
+  const url = toHttpsUrl(uri.trim());
+  if (!url) return null;
+
+  try {
+    const address = await resolvePublicHost(new URL(url).hostname);
+    if (!address) {
+      console.warn(
+        `Not fetching off-chain metadata from ${url}, its host isn't public`
+      );
+      return null;
+    }
+    // Resolving the host again, or following a redirect, could lead to a private address
+    const json = await httpClient.getJson(url, { maxRedirects: 0, address });
+    return json && typeof json === "object" && !Array.isArray(json)
+      ? (json as OffChainMetadata)
+      : null;
+  } catch (error) {
+    console.error(`Failed to fetch off-chain metadata from ${url}:`, error);
+    return null;
+  }
+}
@@ -1,4 +1,6 @@
 import * as multisig from "@sqds/multisig";
+import bs58 from "bs58";
+import BN from "bn.js";
 import {
   Connection,
   Keypair,
@@ -6,13 +8,127 @@ import {
   TransactionMessage,
   TransactionInstruction,
 } from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import {
+  simulateVaultTransaction,
+  type SimulationPreview,
+} from "@/services/simulation";
+
+const { Permission, Permissions } = multisig.types;
+
+type ConfigAction = multisig.types.ConfigAction;
+
+/**
+ * The longest time lock the Squads program accepts, three months in seconds.
+ */
+const maxTimeLock = 3 * 30 * 24 * 60 * 60;
+
+export type MemberPermission = "initiate" | "vote" | "execute";
+
+const permissionValues = {
+  initiate: Permission.Initiate,
+  vote: Permission.Vote,
+  execute: Permission.Execute,
+};
+
+export interface MultisigMember {
+  key: PublicKey;
+  permissions: MemberPermission[]; // What the member can do with proposals: create them, approve or reject them, execute them.
+}
+
+/**
+ * The on-chain state of a multisig.
+ */
+export interface MultisigInfo {
+  address: PublicKey;
+  createKey: PublicKey;
+  configAuthority: PublicKey | null; // Null for autonomous multisigs.
+  members: MultisigMember[];
+  threshold: number;
+  timeLock: number; // In seconds.
+  transactionIndex: bigint; // The index of the last transaction created.
+  vaultIndices: number[]; // The vaults in use: vault 0, and every vault a transaction or spending limit refers to.
+}
+
+// Byte offsets of the vault index in the accounts that refer to a vault:
+// discriminator, multisig, creator, index and bump come before it in VaultTransaction,
+// discriminator, multisig and createKey in SpendingLimit.
+const vaultTransactionVaultIndexOffset = 8 + 32 + 32 + 8 + 1;
+const spendingLimitVaultIndexOffset = 8 + 32 + 32;
+
+export interface SpendingLimitOptions {
+  mint?: PublicKey; // The SPL mint the limit is for, omit for SOL.
+  amount: bigint; // The amount that can be spent per period, in base units.
+  period: multisig.types.Period; // How often the amount resets.
+  members: PublicKey[]; // The members who can spend under the limit.
+  destinations?: PublicKey[]; // The addresses that can receive funds. Defaults to any address.
+  vaultIndex?: number; // The vault to spend from. Defaults to 0.
+}
+
+export interface CreateMultisigOptions {
+  members: MultisigMember[];
+  threshold: number; // How many votes a proposal needs to be approved.
+  timeLock?: number; // Seconds between a proposal's approval and when it can be executed. Defaults to 0.
+  configAuthority?: PublicKey; // Can change members, settings and spending limits without a proposal. Omit for an autonomous multisig, where they only change through config proposals.
+  rentCollector?: PublicKey | null; // Receives the rent of closed transaction accounts. Defaults to the fee payer, null to never reclaim it.
+}
+
+/**
+ * Checks that a multisig can be created with these options and is usable once created.
+ * @throws An error listing every problem found.
+ */
+export function validateMultisigOptions(options: CreateMultisigOptions) {
+  const errors: string[] = [];
+  const { members, threshold, timeLock = 0 } = options;
 
-const { Permissions, Period } = multisig.types;
+  if (members.length === 0) {
+    errors.push("at least one member is needed");
+  }
+
+  const keys = members.map((member) => member.key.toBase58());
+  const duplicates = keys.filter((key, i) => keys.indexOf(key) !== i);
+  for (const key of new Set(duplicates)) {
+    errors.push(`${key} is listed more than once`);
+  }
+
+  members.forEach((member, i) => {
+    if (member.permissions.length === 0) {
+      errors.push(`member ${keys[i]} needs at least one permission`);
+    }
+  });
+
+  const count = (permission: MemberPermission) =>
+    members.filter((member) => member.permissions.includes(permission)).length;
+  const voters = count("vote");
+
+  if (count("initiate") === 0) {
+    errors.push("at least one member needs the initiate permission");
+  }
+  if (count("execute") === 0) {
+    errors.push("at least one member needs the execute permission");
+  }
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    errors.push("threshold must be a positive integer");
+  } else if (threshold > voters) {
+    errors.push(
+      `threshold ${threshold} can't be reached by ${voters} voting member${voters === 1 ? "" : "s"}`
+    );
+  }
+  if (!Number.isInteger(timeLock) || timeLock < 0 || timeLock > maxTimeLock) {
+    errors.push(`timeLock must be a number of seconds from 0 to ${maxTimeLock}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid multisig options:\n${errors.map((error) => `- ${error}`).join("\n")}`
+    );
+  }
+}
 
 class MultiSigService {
   private connection: Connection;
   private feePayer: Keypair;
-  private createKey: Keypair;
+  private createKey: Keypair | PublicKey;
   private multisigPda: PublicKey;
   private configTreasury: PublicKey | null = null;
   private agent: PublicKey;
@@ -23,33 +139,132 @@ class MultiSigService {
    * @param connection - The Solana connection object
    * @param feePayer - The fee payer keypair
    * @param agent - The agent public key
-   * @param create_key - The create key keypair (optional). If not provided, a new keypair will be generated.
+   * @param create_key - The create key (optional). If not provided, a new keypair will be generated.
+   * Pass only the public key to operate an existing multisig; the keypair is needed to create one.
    */
   constructor(
     connection: Connection,
     feePayer: Keypair,
     agent: PublicKey,
-    create_key?: Keypair
+    create_key?: Keypair | PublicKey
   ) {
     this.connection = connection;
     this.feePayer = feePayer;
     this.createKey = create_key ? create_key : Keypair.generate();
     const [pda] = multisig.getMultisigPda({
-      createKey: this.createKey.publicKey,
+      createKey: this.createKeyPublicKey,
     });
     this.multisigPda = pda;
-    const [vaultPDA] = multisig.getVaultPda({
+    this.vaultPDA = this.getVaultPda(0);
+    this.agent = agent;
+  }
+
+  /**
+   * Derives the address of one of the multisig's vaults. Vault 0 is the default one.
+   * @param vaultIndex - The index of the vault.
+   */
+  getVaultPda(vaultIndex: number = 0): PublicKey {
+    const [vaultPda] = multisig.getVaultPda({
       multisigPda: this.multisigPda,
-      index: 0,
+      index: vaultIndex,
     });
-    this.vaultPDA = vaultPDA;
-    this.agent = agent;
+    return vaultPda;
+  }
+
+  /**
+   * Reads the SOL and token balances of a vault, in base units.
+   * @param vaultIndex - The index of the vault.
+   */
+  async getVaultBalances(vaultIndex: number = 0) {
+    const vault = this.getVaultPda(vaultIndex);
+    const [lamports, ...tokenAccounts] = await Promise.all([
+      this.connection.getBalance(vault),
+      this.connection.getParsedTokenAccountsByOwner(vault, {
+        programId: TOKEN_PROGRAM_ID,
+      }),
+      this.connection.getParsedTokenAccountsByOwner(vault, {
+        programId: TOKEN_2022_PROGRAM_ID,
+      }),
+    ]);
+
+    return {
+      vaultIndex,
+      address: vault,
+      lamports: BigInt(lamports),
+      tokens: tokenAccounts
+        .flatMap(({ value }) => value)
+        .map(({ pubkey, account }) => {
+          const { mint, tokenAmount } = account.data.parsed.info;
+          return {
+            account: pubkey,
+            mint: new PublicKey(mint),
+            amount: BigInt(tokenAmount.amount),
+            decimals: tokenAmount.decimals as number,
+          };
+        })
+        .filter((token) => token.amount > 0n),
+    };
+  }
+
+  /**
+   * Operates a multisig created elsewhere, e.g. in the Squads app, from its address.
+   * @param connection - The Solana connection object
+   * @param feePayer - The fee payer keypair
+   * @param agent - The agent public key
+   * @param multisigAddress - The address of the multisig account
+   * @throws If there is no multisig at the address.
+   */
+  static async fromAddress(
+    connection: Connection,
+    feePayer: Keypair,
+    agent: PublicKey,
+    multisigAddress: PublicKey
+  ): Promise<MultiSigService> {
+    const account = await multisig.accounts.Multisig.fromAccountAddress(
+      connection,
+      multisigAddress
+    );
+    const service = new MultiSigService(
+      connection,
+      feePayer,
+      agent,
+      account.createKey
+    );
+    if (!service.multisigAddress.equals(multisigAddress)) {
+      throw new Error(
+        `Multisig ${multisigAddress.toBase58()} isn't derived from its create key, it belongs to another program`
+      );
+    }
+    return service;
+  }
+
+  /**
+   * The public key the multisig PDA is derived from.
+   */
+  get createKeyPublicKey(): PublicKey {
+    return this.createKey instanceof Keypair
+      ? this.createKey.publicKey
+      : this.createKey;
+  }
+
+  /**
+   * The address of the multisig account.
+   */
+  get multisigAddress(): PublicKey {
+    return this.multisigPda;
   }
 
   /**
    * Initializes the MultiSig by creating the multisig account.
+   * @param options - The members with their permissions, the threshold and the authorities.
    */
-  async createMultiSig() {
+  async createMultiSig(options: CreateMultisigOptions) {
+    if (!(this.createKey instanceof Keypair)) {
+      throw new Error("The create key keypair is needed to create a multisig");
+    }
+
+    validateMultisigOptions(options);
+
     const programConfigPda = multisig.getProgramConfigPda({})[0];
     const programConfig =
       await multisig.accounts.ProgramConfig.fromAccountAddress(
@@ -63,21 +278,20 @@ class MultiSigService {
       createKey: this.createKey.publicKey,
       creator: this.feePayer.publicKey,
       multisigPda: this.multisigPda,
-      configAuthority: this.feePayer.publicKey,
-      timeLock: 0,
-      members: [
-        {
-          key: this.feePayer.publicKey,
-          permissions: Permissions.all(),
-        },
-        {
-          key: this.agent,
-          permissions: Permissions.all(),
-        },
-      ],
-      threshold: 1,
+      configAuthority: options.configAuthority ?? null,
+      timeLock: options.timeLock ?? 0,
+      members: options.members.map((member) => ({
+        key: member.key,
+        permissions: Permissions.fromPermissions(
+          member.permissions.map((permission) => permissionValues[permission])
+        ),
+      })),
+      threshold: options.threshold,
       treasury: this.configTreasury,
-      rentCollector: this.feePayer.publicKey,
+      rentCollector:
+        options.rentCollector === undefined
+          ? this.feePayer.publicKey
+          : options.rentCollector,
     });
 
     return {
@@ -87,9 +301,18 @@ class MultiSigService {
   }
 
   /**
-   * Adds a spending limit to the MultiSig account.
+   * Builds the config action adding a spending limit, to be proposed with proposeConfigTx.
+   * @param options - What can be spent, how often, by whom and where to.
+   * @returns The action, and the create key and address of the spending limit.
    */
-  async addSpendingLimit() {
+  addSpendingLimit(options: SpendingLimitOptions) {
+    if (options.members.length === 0) {
+      throw new Error("A spending limit needs at least one member");
+    }
+    if (options.amount <= 0n) {
+      throw new Error("A spending limit amount must be positive");
+    }
+
     const spendingLimitCreateKey = Keypair.generate().publicKey;
 
     const spendingLimitPda = multisig.getSpendingLimitPda({
@@ -97,95 +320,556 @@ class MultiSigService {
       createKey: spendingLimitCreateKey,
     })[0];
 
-    const ix = multisig.instructions.multisigAddSpendingLimit({
-      multisigPda: this.multisigPda,
-      configAuthority: this.feePayer.publicKey,
-      spendingLimit: spendingLimitPda,
-      rentPayer: this.feePayer.publicKey,
+    const action: ConfigAction = {
+      __kind: "AddSpendingLimit",
       createKey: spendingLimitCreateKey,
-      vaultIndex: 0,
-      mint: new PublicKey("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"),
-      amount: BigInt(1_000_000),
-      period: Period.Day,
-      members: [this.agent],
-      destinations: [],
-    });
+      vaultIndex: options.vaultIndex ?? 0,
+      // Squads uses the default public key for SOL limits
+      mint: options.mint ?? PublicKey.default,
+      amount: new BN(options.amount.toString()),
+      period: options.period,
+      members: options.members,
+      destinations: options.destinations ?? [],
+    };
 
     return {
-      ix: ix,
+      action,
       create_key: spendingLimitCreateKey,
+      spending_limit: spendingLimitPda,
     };
   }
 
-  async sendTx(ix: TransactionInstruction[]) {
-    const tx_message = new TransactionMessage({
-      payerKey: this.agent,
-      recentBlockhash: (await this.connection.getLatestBlockhash()).blockhash,
-      instructions: ix,
+  /**
+   * Builds the config action removing a spending limit, to be proposed with proposeConfigTx.
+   * @param spendingLimit - The address of the spending limit.
+   */
+  removeSpendingLimit(spendingLimit: PublicKey): ConfigAction {
+    return { __kind: "RemoveSpendingLimit", spendingLimit };
+  }
+
+  /**
+   * Builds the config action adding a member, to be proposed with proposeConfigTx.
+   * @param member - The member's key and permissions.
+   */
+  addMember(member: MultisigMember): ConfigAction {
+    return {
+      __kind: "AddMember",
+      newMember: {
+        key: member.key,
+        permissions: Permissions.fromPermissions(
+          member.permissions.map((permission) => permissionValues[permission])
+        ),
+      },
+    };
+  }
+
+  /**
+   * Builds the config action removing a member, to be proposed with proposeConfigTx.
+   * @param member - The member's key.
+   */
+  removeMember(member: PublicKey): ConfigAction {
+    return { __kind: "RemoveMember", oldMember: member };
+  }
+
+  /**
+   * Builds the config action changing how many votes a proposal needs, to be proposed with proposeConfigTx.
+   * @param threshold - The new threshold.
+   */
+  changeThreshold(threshold: number): ConfigAction {
+    return { __kind: "ChangeThreshold", newThreshold: threshold };
+  }
+
+  /**
+   * Spends from a vault under a spending limit, without a proposal. The agent signs as the member.
+   * @param spendingLimit - The spending limit account.
+   * @param amount - The amount to send, in base units.
+   * @param decimals - The decimals of the mint, 9 for SOL.
+   * @param destination - The wallet receiving the funds. For SPL tokens, its associated token account must exist.
+   * @param tokenProgram - The token program owning the mint, for SPL tokens.
+   */
+  useSpendingLimit({
+    spendingLimit,
+    amount,
+    decimals,
+    destination,
+    tokenProgram,
+  }: {
+    spendingLimit: { address: PublicKey; mint: PublicKey; vaultIndex: number };
+    amount: bigint;
+    decimals: number;
+    destination: PublicKey;
+    tokenProgram?: PublicKey;
+  }) {
+    // The Squads SDK takes the amount as a number
+    if (amount > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error(
+        `Can't spend ${amount} base units under a spending limit at once, the most is ${Number.MAX_SAFE_INTEGER}`
+      );
+    }
+
+    const isSol = spendingLimit.mint.equals(PublicKey.default);
+    return multisig.instructions.spendingLimitUse({
+      multisigPda: this.multisigPda,
+      member: this.agent,
+      spendingLimit: spendingLimit.address,
+      mint: isSol ? undefined : spendingLimit.mint,
+      vaultIndex: spendingLimit.vaultIndex,
+      amount: Number(amount),
+      decimals,
+      destination,
+      tokenProgram,
     });
+  }
 
-    console.log("step 1");
+  /**
+   * Fetches a spending limit account, including what is left to spend this period.
+   * @param spendingLimit - The address of the spending limit.
+   * @returns The account, or null if the limit isn't created yet or was removed.
+   */
+  async getSpendingLimit(spendingLimit: PublicKey) {
+    const accountInfo = await this.connection.getAccountInfo(spendingLimit);
+    return accountInfo
+      ? multisig.accounts.SpendingLimit.fromAccountInfo(accountInfo)[0]
+      : null;
+  }
 
-    const multisigInfo = await multisig.accounts.Multisig.fromAccountAddress(
+  /**
+   * Reads the multisig account: members, threshold, time lock and the index of the last transaction.
+   */
+  async getMultisigAccount() {
+    return await multisig.accounts.Multisig.fromAccountAddress(
       this.connection,
       this.multisigPda
     );
+  }
+
+  /**
+   * Reads the multisig's members, threshold, time lock, last transaction index and vaults in use.
+   */
+  async getInfo(): Promise<MultisigInfo> {
+    const account = await this.getMultisigAccount();
+    const vaultIndices = new Set([0, ...(await this.getUsedVaultIndices())]);
 
-    console.log("step 2");
+    return {
+      address: this.multisigPda,
+      createKey: account.createKey,
+      configAuthority: account.configAuthority.equals(PublicKey.default)
+        ? null
+        : account.configAuthority,
+      members: account.members.map((member) => ({
+        key: member.key,
+        permissions: (
+          Object.keys(permissionValues) as MemberPermission[]
+        ).filter((permission) =>
+          Permissions.has(member.permissions, permissionValues[permission])
+        ),
+      })),
+      threshold: account.threshold,
+      timeLock: account.timeLock,
+      transactionIndex: BigInt(account.transactionIndex.toString()),
+      vaultIndices: Array.from(vaultIndices).sort((a, b) => a - b),
+    };
+  }
 
-    // Get the updated transaction index
-    const currentTransactionIndex = Number(multisigInfo.transactionIndex);
-    const newTransactionIndex = BigInt(currentTransactionIndex + 1);
+  /**
+   * Finds the vault indices the multisig's vault transactions and spending limits refer to,
+   * reading only the vault index byte of each account.
+   */
+  private async getUsedVaultIndices(): Promise<number[]> {
+    const scan = async (discriminator: number[], vaultIndexOffset: number) => {
+      const accounts = await this.connection.getProgramAccounts(
+        multisig.PROGRAM_ID,
+        {
+          dataSlice: { offset: vaultIndexOffset, length: 1 },
+          filters: [
+            {
+              memcmp: {
+                offset: 0,
+                bytes: bs58.encode(Uint8Array.from(discriminator)),
+              },
+            },
+            { memcmp: { offset: 8, bytes: this.multisigPda.toBase58() } },
+          ],
+        }
+      );
+      return accounts.map(({ account }) => account.data[0]);
+    };
+
+    const [transactionVaults, spendingLimitVaults] = await Promise.all([
+      scan(
+        multisig.generated.vaultTransactionDiscriminator,
+        vaultTransactionVaultIndexOffset
+      ),
+      scan(
+        multisig.generated.spendingLimitDiscriminator,
+        spendingLimitVaultIndexOffset
+      ),
+    ]);
+    return [...transactionVaults, ...spendingLimitVaults];
+  }
+
+  /**
+   * Checks that the agent is a member of the multisig with the given permissions.
+   * @throws If the agent isn't a member or lacks one of the permissions.
+   */
+  async assertAgentCan(...permissions: MemberPermission[]) {
+    const account = await this.getMultisigAccount();
+    const member = account.members.find((member) =>
+      member.key.equals(this.agent)
+    );
+    if (!member) {
+      throw new Error(
+        `The agent ${this.agent.toBase58()} is not a member of multisig ${this.multisigPda.toBase58()}`
+      );
+    }
+
+    const missing = permissions.filter(
+      (permission) =>
+        !Permissions.has(member.permissions, permissionValues[permission])
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `The agent lacks the ${missing.join(" and ")} permission${missing.length === 1 ? "" : "s"} on multisig ${this.multisigPda.toBase58()}`
+      );
+    }
+  }
+
+  /**
+   * Dry-runs instructions as the vault would run them, without creating anything on chain,
+   * so the user can see what a transaction does before it is proposed.
+   * @param ix - The instructions the vault would run.
+   * @returns Whether they succeed, with the logs, compute units and balance changes.
+   */
+  async simulateTx(ix: TransactionInstruction[]): Promise<SimulationPreview> {
+    return await simulateVaultTransaction(this.connection, {
+      payer: this.feePayer.publicKey,
+      instructions: ix,
+    });
+  }
+
+  /**
+   * Builds the instructions creating a vault transaction, its proposal, and the agent's approval.
+   * @param ix - The instructions the vault will run.
+   * @param transactionIndex - The index to create the transaction at. Defaults to the one after
+   * the multisig's last transaction, which is only right if nobody else creates one first.
+   * @param vaultIndex - The vault that runs the instructions. Defaults to 0.
+   */
+  async sendTx(
+    ix: TransactionInstruction[],
+    transactionIndex?: bigint,
+    vaultIndex: number = 0
+  ) {
+    const tx_message = new TransactionMessage({
+      payerKey: this.agent,
+      recentBlockhash: (await this.connection.getLatestBlockhash()).blockhash,
+      instructions: ix,
+    });
+
+    await this.assertAgentCan("initiate", "vote");
+
+    const newTransactionIndex =
+      transactionIndex ??
+      BigInt((await this.getMultisigAccount()).transactionIndex.toString()) +
+        1n;
 
     const ix_transfer = multisig.instructions.vaultTransactionCreate({
       multisigPda: this.multisigPda,
       transactionIndex: newTransactionIndex,
       creator: this.agent,
-      vaultIndex: 0,
+      vaultIndex,
       ephemeralSigners: 0,
       transactionMessage: tx_message,
     });
 
-    console.log("step 3");
-
     const ix_create = multisig.instructions.proposalCreate({
       multisigPda: this.multisigPda,
       transactionIndex: newTransactionIndex,
       creator: this.agent,
     });
 
-    console.log("step 4");
+    const ix_approve = this.approveTx(newTransactionIndex);
+
+    return {
+      transfer_ix: ix_transfer,
+      create_ix: ix_create,
+      approve_ix: ix_approve,
+      transaction_index: newTransactionIndex,
+    };
+  }
+
+  /**
+   * Builds the instructions creating a config transaction, its proposal, and the agent's approval.
+   * Members, the threshold and spending limits change this way, with the other members' votes.
+   * @param actions - The changes to make.
+   * @param transactionIndex - The index to create the transaction at. Defaults to the one after
+   * the multisig's last transaction, which is only right if nobody else creates one first.
+   */
+  async proposeConfigTx(actions: ConfigAction[], transactionIndex?: bigint) {
+    await this.assertAgentCan("initiate", "vote");
 
-    const ix_approve = multisig.instructions.proposalApprove({
+    const newTransactionIndex =
+      transactionIndex ??
+      BigInt((await this.getMultisigAccount()).transactionIndex.toString()) +
+        1n;
+
+    const config_ix = multisig.instructions.configTransactionCreate({
       multisigPda: this.multisigPda,
-      member: this.agent,
       transactionIndex: newTransactionIndex,
+      creator: this.agent,
+      actions,
     });
 
-    console.log("step 5");
-
-    // const ix_execute = await multisig.instructions.vaultTransactionExecute({
-    //   connection: this.connection,
-    //   multisigPda: this.multisigPda,
-    //   transactionIndex: newTransactionIndex,
-    //   member: this.agent,
-    // });
-
-    console.log("step 6");
+    const create_ix = multisig.instructions.proposalCreate({
+      multisigPda: this.multisigPda,
+      transactionIndex: newTransactionIndex,
+      creator: this.agent,
+    });
 
     return {
-      transfer_ix: ix_transfer,
-      create_ix: ix_create,
-      approve_ix: ix_approve,
-      // execute_ix: ix_execute,
+      config_ix,
+      create_ix,
+      approve_ix: this.approveTx(newTransactionIndex),
+      transaction_index: newTransactionIndex,
     };
   }
 
-  async executeTx() {
+  /**
+   * Tells whether a transaction runs instructions from a vault or changes the multisig's config.
+   * @param transactionIndex - The index of the transaction.
+   * @returns The kind, or null if there is no transaction at this index.
+   */
+  async getTransactionKind(
+    transactionIndex: bigint
+  ): Promise<"vault" | "config" | null> {
+    const [transactionPda] = multisig.getTransactionPda({
+      multisigPda: this.multisigPda,
+      index: transactionIndex,
+    });
+    const accountInfo = await this.connection.getAccountInfo(transactionPda);
+    if (!accountInfo) return null;
+
+    const isConfig = multisig.generated.configTransactionDiscriminator.every(
+      (byte, i) => accountInfo.data[i] === byte
+    );
+    return isConfig ? "config" : "vault";
+  }
+
+  /**
+   * Reads the changes a config transaction makes.
+   * @param transactionIndex - The index of the transaction.
+   */
+  async getConfigTransaction(transactionIndex: bigint) {
+    const [transactionPda] = multisig.getTransactionPda({
+      multisigPda: this.multisigPda,
+      index: transactionIndex,
+    });
+    const { actions } =
+      await multisig.accounts.ConfigTransaction.fromAccountAddress(
+        this.connection,
+        transactionPda
+      );
+    return actions;
+  }
+
+  /**
+   * Builds the instruction executing an approved config transaction, passing the
+   * spending limits it adds or removes.
+   * @param transactionIndex - The index of the transaction.
+   */
+  async executeConfigTx(transactionIndex: bigint) {
+    const actions = await this.getConfigTransaction(transactionIndex);
+    const spendingLimits = actions.flatMap((action) => {
+      if (multisig.types.isConfigActionAddSpendingLimit(action)) {
+        return [
+          multisig.getSpendingLimitPda({
+            multisigPda: this.multisigPda,
+            createKey: action.createKey,
+          })[0],
+        ];
+      }
+      if (multisig.types.isConfigActionRemoveSpendingLimit(action)) {
+        return [action.spendingLimit];
+      }
+      return [];
+    });
+
+    return multisig.instructions.configTransactionExecute({
+      multisigPda: this.multisigPda,
+      transactionIndex,
+      member: this.agent,
+      rentPayer: this.feePayer.publicKey,
+      spendingLimits,
+    });
+  }
+
+  /**
+   * Reads the proposal of a transaction, or null if it has none or it was closed.
+   * @param transactionIndex - The index of the transaction.
+   */
+  async getProposal(transactionIndex: bigint) {
+    const [proposalPda] = multisig.getProposalPda({
+      multisigPda: this.multisigPda,
+      transactionIndex,
+    });
+    const accountInfo = await this.connection.getAccountInfo(proposalPda);
+    return accountInfo
+      ? multisig.accounts.Proposal.fromAccountInfo(accountInfo)[0]
+      : null;
+  }
+
+  /**
+   * Reads the proposals of a range of transactions, skipping the ones that have none.
+   * @param from - The first transaction index.
+   * @param to - The last transaction index, included.
+   */
+  async getProposals(from: bigint, to: bigint) {
+    const indices: bigint[] = [];
+    for (let index = from; index <= to; index++) {
+      indices.push(index);
+    }
+
+    const proposals = [];
+    // getMultipleAccountsInfo takes at most 100 addresses
+    for (let i = 0; i < indices.length; i += 100) {
+      const batch = indices.slice(i, i + 100);
+      const accountInfos = await this.connection.getMultipleAccountsInfo(
+        batch.map(
+          (transactionIndex) =>
+            multisig.getProposalPda({
+              multisigPda: this.multisigPda,
+              transactionIndex,
+            })[0]
+        )
+      );
+      for (const accountInfo of accountInfos) {
+        if (accountInfo) {
+          proposals.push(
+            multisig.accounts.Proposal.fromAccountInfo(accountInfo)[0]
+          );
+        }
+      }
+    }
+    return proposals;
+  }
+
+  /**
+   * Reads a vault transaction and rebuilds the instructions it will run, resolving
+   * the accounts it loads from address lookup tables.
+   * @param transactionIndex - The index of the transaction.
+   */
+  async getVaultTransaction(transactionIndex: bigint) {
+    const [transactionPda] = multisig.getTransactionPda({
+      multisigPda: this.multisigPda,
+      index: transactionIndex,
+    });
+    const { vaultIndex, message } =
+      await multisig.accounts.VaultTransaction.fromAccountAddress(
+        this.connection,
+        transactionPda
+      );
+
+    const staticKeys = message.accountKeys.map((key, i) => ({
+      pubkey: key,
+      isSigner: i < message.numSigners,
+      isWritable:
+        i < message.numWritableSigners ||
+        (i >= message.numSigners &&
+          i - message.numSigners < message.numWritableNonSigners),
+    }));
+
+    // Accounts loaded from lookup tables come after the static ones, writable ones first
+    const writableLoaded: PublicKey[] = [];
+    const readonlyLoaded: PublicKey[] = [];
+    for (const lookup of message.addressTableLookups) {
+      const { value: table } = await this.connection.getAddressLookupTable(
+        lookup.accountKey
+      );
+      if (!table) {
+        throw new Error(
+          `Lookup table ${lookup.accountKey.toBase58()} of transaction #${transactionIndex} not found`
+        );
+      }
+      lookup.writableIndexes.forEach((i) =>
+        writableLoaded.push(table.state.addresses[i])
+      );
+      lookup.readonlyIndexes.forEach((i) =>
+        readonlyLoaded.push(table.state.addresses[i])
+      );
+    }
+    const keys = [
+      ...staticKeys,
+      ...writableLoaded.map((pubkey) => ({
+        pubkey,
+        isSigner: false,
+        isWritable: true,
+      })),
+      ...readonlyLoaded.map((pubkey) => ({
+        pubkey,
+        isSigner: false,
+        isWritable: false,
+      })),
+    ];
+
+    const instructions = message.instructions.map(
+      (ix) =>
+        new TransactionInstruction({
+          programId: keys[ix.programIdIndex].pubkey,
+          keys: Array.from(ix.accountIndexes).map((i) => keys[i]),
+          data: Buffer.from(ix.data),
+        })
+    );
+
+    return { vaultIndex, instructions };
+  }
+
+  /**
+   * Builds the instruction approving a proposal.
+   * @param transactionIndex - The index of the transaction.
+   * @param member - The voting member. Defaults to the agent.
+   */
+  approveTx(transactionIndex: bigint, member: PublicKey = this.agent) {
+    return multisig.instructions.proposalApprove({
+      multisigPda: this.multisigPda,
+      member,
+      transactionIndex,
+    });
+  }
+
+  /**
+   * Builds the instruction rejecting a proposal.
+   * @param transactionIndex - The index of the transaction.
+   * @param member - The voting member. Defaults to the agent.
+   */
+  rejectTx(transactionIndex: bigint, member: PublicKey = this.agent) {
+    return multisig.instructions.proposalReject({
+      multisigPda: this.multisigPda,
+      member,
+      transactionIndex,
+    });
+  }
+
+  /**
+   * Builds the instruction voting to cancel an approved proposal.
+   * @param transactionIndex - The index of the transaction.
+   * @param member - The voting member. Defaults to the agent.
+   */
+  cancelTx(transactionIndex: bigint, member: PublicKey = this.agent) {
+    return multisig.instructions.proposalCancel({
+      multisigPda: this.multisigPda,
+      member,
+      transactionIndex,
+    });
+  }
+
+  /**
+   * Builds the instruction executing an approved vault transaction, with the lookup tables it needs.
+   * @param transactionIndex - The index of the transaction.
+   */
+  async executeTx(transactionIndex: bigint) {
     const ix_execute = await multisig.instructions.vaultTransactionExecute({
       connection: this.connection,
       multisigPda: this.multisigPda,
-      transactionIndex: BigInt(1),
+      transactionIndex,
       member: this.agent,
     });
 
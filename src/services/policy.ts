@@ -0,0 +1,592 @@
+import * as multisig from "@sqds/multisig";
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  NATIVE_MINT,
+  unpackAccount,
+} from "@solana/spl-token";
+import { describeInstruction } from "@/services/instructions";
+import { getMintInfo } from "@/services/transfers";
+import MarketData, { loadMarketDataProviders } from "@/services/marketData";
+import { cache } from "@/adapters/cache";
+import { stringToUuid } from "@/core/uuid";
+import { type IAgentRuntime, type UUID } from "@/core/types";
+
+const day = 24 * 60 * 60 * 1000;
+
+/**
+ * The mint SOL is priced as.
+ */
+const solMint = NATIVE_MINT.toBase58();
+
+/**
+ * Checking the daily caps and counting a transfer against them is serialized per cap
+ * within the process, so transfers started together can't each fit under what is left.
+ */
+const capQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Instructions that hand control of the vault's accounts to someone else, or close them,
+ * and config changes that hand control of the multisig to someone else.
+ */
+const defaultForbiddenInstructions = [
+  "SetAuthority",
+  "CloseAccount",
+  "Approve",
+  "ApproveChecked",
+  "Assign",
+  "AssignWithSeed",
+  "AddMember",
+  "RemoveMember",
+  "ChangeThreshold",
+  "SetTimeLock",
+  "SetRentCollector",
+];
+
+/**
+ * Instructions that can't move the vault's funds, so they need no value when a cap or
+ * destination list is set. Keyed by program and instruction type, or by program alone.
+ */
+const valueNeutralInstructions = new Set([
+  "Compute Budget",
+  "Associated Token Create",
+  "System Allocate",
+  "System AllocateWithSeed",
+  "System InitializeNonceAccount",
+  "System AdvanceNonceAccount",
+  "System UpgradeNonceAccount",
+  ...["Token", "Token-2022"].flatMap((program) =>
+    [
+      "InitializeAccount",
+      "InitializeAccount2",
+      "InitializeAccount3",
+      "InitializeImmutableOwner",
+      "SyncNative",
+      "Revoke",
+      "FreezeAccount",
+      "ThawAccount",
+    ].map((type) => `${program} ${type}`)
+  ),
+]);
+
+/**
+ * Rules the agent's transactions must follow on top of what the multisig enforces on chain.
+ * Every rule is optional; a missing rule doesn't restrict anything.
+ */
+export interface TransactionPolicy {
+  allowedPrograms?: string[]; // The only programs the instructions may call.
+  allowedDestinations?: string[]; // The only wallets funds may move to.
+  deniedDestinations?: string[]; // Wallets funds may never move to.
+  maxUsdPerUserPerDay?: number; // The USD value the agent may move out for one user per UTC day.
+  maxUsdPerDay?: number; // The USD value the agent may move out for all users together per UTC day.
+  forbiddenInstructions?: string[]; // Instruction types and config changes that are never allowed, e.g. "SetAuthority" or "AddMember". Defaults to authority and member changes and account closing.
+  maxInstructions?: number; // The most instructions, or config changes, a transaction may have.
+}
+
+export type PolicyRule = keyof TransactionPolicy;
+
+/**
+ * A rule a transaction breaks.
+ */
+export interface PolicyViolation {
+  rule: PolicyRule;
+  instructionIndex?: number; // The instruction breaking the rule, when it is a single one.
+  message: string;
+}
+
+/**
+ * Thrown when a transaction breaks the transaction policy, listing every rule it breaks.
+ */
+export class PolicyViolationError extends Error {
+  violations: PolicyViolation[];
+
+  constructor(violations: PolicyViolation[]) {
+    super(
+      `Blocked by the transaction policy:\n${violations
+        .map((violation) => `• ${violation.rule}: ${violation.message}`)
+        .join("\n")}`
+    );
+    this.name = "PolicyViolationError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * Reads the transaction policy from the TRANSACTION_POLICY setting, a JSON object with the
+ * fields of TransactionPolicy.
+ * @param runtime - The runtime to read the setting from
+ */
+export function loadTransactionPolicy(
+  runtime: IAgentRuntime
+): TransactionPolicy {
+  const setting = runtime.getSetting("TRANSACTION_POLICY");
+  let policy: TransactionPolicy;
+  try {
+    policy = setting ? JSON.parse(setting) : {};
+  } catch {
+    throw new Error("TRANSACTION_POLICY must be a JSON object");
+  }
+
+  const errors: string[] = [];
+  for (const field of [
+    "allowedPrograms",
+    "allowedDestinations",
+    "deniedDestinations",
+    "forbiddenInstructions",
+  ] as const) {
+    const value = policy[field];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((item) => typeof item === "string"))
+    ) {
+      errors.push(`${field} must be a list of strings`);
+    }
+  }
+  for (const field of [
+    "maxUsdPerUserPerDay",
+    "maxUsdPerDay",
+    "maxInstructions",
+  ] as const) {
+    const value = policy[field];
+    if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+      errors.push(`${field} must be a positive number`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid TRANSACTION_POLICY: ${errors.join(", ")}`);
+  }
+
+  return {
+    ...policy,
+    forbiddenInstructions:
+      policy.forbiddenInstructions ?? defaultForbiddenInstructions,
+  };
+}
+
+/**
+ * A transfer or burn found in a transaction, with the wallet it pays and its value.
+ */
+interface ValueTransfer {
+  instructionIndex: number;
+  destination?: string; // The receiving wallet, or the token account if its owner isn't known. Missing for burns.
+  mint: string; // Wrapped SOL for SOL.
+  amount: bigint;
+  decimals: number;
+}
+
+/**
+ * Checks the agent's transactions against the transaction policy before they are proposed or
+ * sent, and keeps count of the value moved against the daily USD caps.
+ */
+class PolicyEngine {
+  private runtime: IAgentRuntime;
+  private connection: Connection;
+  private policy: TransactionPolicy;
+  private marketData: MarketData;
+
+  /**
+   * Class constructor
+   * @param runtime - The agent runtime, used for settings and persistence
+   * @param connection - The Solana connection object
+   * @param policy - The policy to enforce. Defaults to the TRANSACTION_POLICY setting.
+   * @param marketData - Prices transfers for the daily caps. Defaults to the MARKET_DATA_PROVIDERS setting.
+   */
+  constructor(
+    runtime: IAgentRuntime,
+    connection: Connection,
+    policy: TransactionPolicy = loadTransactionPolicy(runtime),
+    marketData: MarketData = new MarketData(
+      loadMarketDataProviders(runtime),
+      cache
+    )
+  ) {
+    this.runtime = runtime;
+    this.connection = connection;
+    this.policy = policy;
+    this.marketData = marketData;
+  }
+
+  /**
+   * Lists the rules instructions break.
+   * @param ixs - The instructions the vault would run.
+   * @param userId - The user the agent acts for, whose daily cap the value counts against.
+   * @returns The violations, and the USD value the instructions move out.
+   */
+  async check(
+    ixs: TransactionInstruction[],
+    { userId }: { userId?: UUID } = {}
+  ): Promise<{ violations: PolicyViolation[]; usdValue: number }> {
+    const policy = this.policy;
+    const violations: PolicyViolation[] = [];
+
+    if (
+      policy.maxInstructions !== undefined &&
+      ixs.length > policy.maxInstructions
+    ) {
+      violations.push({
+        rule: "maxInstructions",
+        message: `The transaction has ${ixs.length} instructions, at most ${policy.maxInstructions} are allowed`,
+      });
+    }
+
+    const described = ixs.map(describeInstruction);
+    described.forEach((ix, instructionIndex) => {
+      if (
+        policy.allowedPrograms &&
+        !policy.allowedPrograms.includes(ix.programId)
+      ) {
+        violations.push({
+          rule: "allowedPrograms",
+          instructionIndex,
+          message: `Instruction ${instructionIndex} calls ${ix.program}, which isn't an allowed program`,
+        });
+      }
+      if (policy.forbiddenInstructions?.includes(ix.type)) {
+        violations.push({
+          rule: "forbiddenInstructions",
+          instructionIndex,
+          message: `Instruction ${instructionIndex} is a ${ix.program} ${ix.type}, which is forbidden`,
+        });
+      }
+    });
+
+    // An instruction that may move funds but isn't decoded can't be held to the
+    // destination lists or the caps, so it breaks whichever of them is set
+    const valueRule = (
+      [
+        "allowedDestinations",
+        "deniedDestinations",
+        "maxUsdPerUserPerDay",
+        "maxUsdPerDay",
+      ] as const
+    ).find((rule) => policy[rule] !== undefined);
+    if (valueRule) {
+      described.forEach((ix, instructionIndex) => {
+        if (
+          ix.amount === undefined &&
+          !valueNeutralInstructions.has(ix.program) &&
+          !valueNeutralInstructions.has(`${ix.program} ${ix.type}`)
+        ) {
+          violations.push({
+            rule: valueRule,
+            instructionIndex,
+            message: `Instruction ${instructionIndex} (${ix.summary}) may move funds in a way that can't be checked`,
+          });
+        }
+      });
+    }
+
+    const transfers = await this.findTransfers(ixs);
+
+    for (const transfer of transfers) {
+      if (transfer.destination === undefined) {
+        if (policy.allowedDestinations) {
+          violations.push({
+            rule: "allowedDestinations",
+            instructionIndex: transfer.instructionIndex,
+            message: `Instruction ${transfer.instructionIndex} burns funds, which isn't an allowed destination`,
+          });
+        }
+        continue;
+      }
+      if (
+        policy.allowedDestinations &&
+        !policy.allowedDestinations.includes(transfer.destination)
+      ) {
+        violations.push({
+          rule: "allowedDestinations",
+          instructionIndex: transfer.instructionIndex,
+          message: `Instruction ${transfer.instructionIndex} sends funds to ${transfer.destination}, which isn't an allowed destination`,
+        });
+      }
+      if (policy.deniedDestinations?.includes(transfer.destination)) {
+        violations.push({
+          rule: "deniedDestinations",
+          instructionIndex: transfer.instructionIndex,
+          message: `Instruction ${transfer.instructionIndex} sends funds to ${transfer.destination}, which is a denied destination`,
+        });
+      }
+    }
+
+    const usdValue = await this.getUsdValue(transfers, violations);
+    if (usdValue > 0) {
+      const since = Math.floor(Date.now() / day) * day;
+      if (policy.maxUsdPerUserPerDay !== undefined && userId) {
+        const spent = await this.getSpent({ userId, since });
+        if (spent + usdValue > policy.maxUsdPerUserPerDay) {
+          violations.push({
+            rule: "maxUsdPerUserPerDay",
+            message: `The transaction moves $${usdValue.toFixed(2)}, and $${spent.toFixed(2)} was already moved for this user today, over the cap of $${policy.maxUsdPerUserPerDay}`,
+          });
+        }
+      }
+      if (policy.maxUsdPerDay !== undefined) {
+        const spent = await this.getSpent({ since });
+        if (spent + usdValue > policy.maxUsdPerDay) {
+          violations.push({
+            rule: "maxUsdPerDay",
+            message: `The transaction moves $${usdValue.toFixed(2)}, and $${spent.toFixed(2)} was already moved today, over the cap of $${policy.maxUsdPerDay}`,
+          });
+        }
+      }
+    }
+
+    return { violations, usdValue };
+  }
+
+  /**
+   * Checks instructions against the policy.
+   * @throws PolicyViolationError if they break any rule.
+   * @returns The USD value the instructions move out.
+   */
+  async enforce(
+    ixs: TransactionInstruction[],
+    context: { userId?: UUID } = {}
+  ): Promise<number> {
+    const { violations, usdValue } = await this.check(ixs, context);
+    if (violations.length > 0) {
+      throw new PolicyViolationError(violations);
+    }
+    return usdValue;
+  }
+
+  /**
+   * Lists the rules a config transaction breaks. Only maxInstructions and
+   * forbiddenInstructions apply, as config changes don't move funds.
+   * @param actions - The changes the config transaction would make.
+   */
+  checkConfig(actions: multisig.types.ConfigAction[]): PolicyViolation[] {
+    const policy = this.policy;
+    const violations: PolicyViolation[] = [];
+
+    if (
+      policy.maxInstructions !== undefined &&
+      actions.length > policy.maxInstructions
+    ) {
+      violations.push({
+        rule: "maxInstructions",
+        message: `The config transaction has ${actions.length} changes, at most ${policy.maxInstructions} are allowed`,
+      });
+    }
+    actions.forEach((action, instructionIndex) => {
+      if (policy.forbiddenInstructions?.includes(action.__kind)) {
+        violations.push({
+          rule: "forbiddenInstructions",
+          instructionIndex,
+          message: `Change ${instructionIndex} is a ${action.__kind}, which is forbidden`,
+        });
+      }
+    });
+
+    return violations;
+  }
+
+  /**
+   * Checks a config transaction against the policy.
+   * @throws PolicyViolationError if it breaks any rule.
+   */
+  enforceConfig(actions: multisig.types.ConfigAction[]) {
+    const violations = this.checkConfig(actions);
+    if (violations.length > 0) {
+      throw new PolicyViolationError(violations);
+    }
+  }
+
+  /**
+   * Checks instructions against the policy and sends them, counting their value against
+   * the daily caps before they are sent, against the global cap even without a user. The value is reserved as a pending spend, which
+   * gets the signature once they are sent and is dropped if sending fails.
+   * @param send - Sends the instructions, e.g. as a proposal.
+   * @throws PolicyViolationError if they break any rule.
+   * @returns What send returned.
+   */
+  async enforceAndSend<T extends { signature: string }>(
+    ixs: TransactionInstruction[],
+    { userId, multisigPda }: { userId?: UUID; multisigPda: string },
+    send: () => Promise<T>
+  ): Promise<T> {
+    const reservation = await this.serialize(userId, async () => {
+      const usdValue = await this.enforce(ixs, { userId });
+      if (usdValue <= 0) return null;
+      const spend = {
+        id: stringToUuid(`${multisigPda}-${crypto.randomUUID()}`),
+        userId,
+        multisigPda,
+        usdValue,
+        createdAt: Date.now(),
+      };
+      await this.runtime.databaseAdapter.createSpend(spend);
+      return spend;
+    });
+
+    let result: T;
+    try {
+      result = await send();
+    } catch (error) {
+      if (reservation) {
+        await this.runtime.databaseAdapter.removeSpend(reservation.id);
+      }
+      throw error;
+    }
+    if (reservation) {
+      await this.runtime.databaseAdapter.updateSpendSignature({
+        spendId: reservation.id,
+        signature: result.signature,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Runs a cap check after the ones already started on the same caps: the user's, or
+   * everyone's when there is a cap for all users together.
+   */
+  private async serialize<T>(
+    userId: UUID | undefined,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const key =
+      this.policy.maxUsdPerDay !== undefined || !userId ? "all" : userId;
+    const previous = capQueues.get(key) ?? Promise.resolve();
+    const ran = previous.catch(() => {}).then(run);
+    capQueues.set(key, ran);
+    return await ran;
+  }
+
+  private async getSpent(params: { userId?: UUID; since: number }) {
+    const spends = await this.runtime.databaseAdapter.getSpends(params);
+    return spends.reduce((total, spend) => total + spend.usdValue, 0);
+  }
+
+  /**
+   * Finds the SOL and token transfers and the token burns in the instructions, with the
+   * wallets they pay. Token transfers name token accounts, so their owners are read from
+   * the instructions creating them or from chain.
+   */
+  private async findTransfers(
+    ixs: TransactionInstruction[]
+  ): Promise<ValueTransfer[]> {
+    const owners = new Map<string, string>();
+    for (const ix of ixs) {
+      if (ix.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && ix.keys[2]) {
+        owners.set(ix.keys[1].pubkey.toBase58(), ix.keys[2].pubkey.toBase58());
+      }
+    }
+
+    const described = ixs
+      .map((ix, instructionIndex) => ({
+        ...describeInstruction(ix),
+        instructionIndex,
+      }))
+      .filter((ix) => ix.amount !== undefined);
+
+    // Token accounts whose owner or mint the instructions don't tell
+    const unknown = Array.from(
+      new Set(
+        described
+          .filter((ix) => ix.program !== "System")
+          .flatMap((ix) => [
+            ...(!ix.destination || owners.has(ix.destination)
+              ? []
+              : [ix.destination]),
+            ...(ix.mint ? [] : [ix.source!]),
+          ])
+      )
+    ).map((address) => new PublicKey(address));
+    const accounts = new Map(
+      (await this.connection.getMultipleAccountsInfo(unknown)).flatMap(
+        (info, i) => {
+          if (!info) return [];
+          try {
+            return [
+              [
+                unknown[i].toBase58(),
+                unpackAccount(unknown[i], info, info.owner),
+              ] as const,
+            ];
+          } catch {
+            return [];
+          }
+        }
+      )
+    );
+
+    const transfers: ValueTransfer[] = [];
+    for (const ix of described) {
+      if (ix.program === "System") {
+        transfers.push({
+          instructionIndex: ix.instructionIndex,
+          destination: ix.destination!,
+          mint: solMint,
+          amount: ix.amount!,
+          decimals: ix.decimals!,
+        });
+        continue;
+      }
+
+      const mint = ix.mint ?? accounts.get(ix.source!)?.mint.toBase58();
+      const destination =
+        ix.destination &&
+        (owners.get(ix.destination) ??
+          accounts.get(ix.destination)?.owner.toBase58() ??
+          ix.destination);
+      if (!mint) continue; // The source doesn't exist, so the transfer can't move anything
+
+      transfers.push({
+        instructionIndex: ix.instructionIndex,
+        destination,
+        mint,
+        amount: ix.amount!,
+        decimals:
+          ix.decimals ??
+          (await getMintInfo(this.connection, new PublicKey(mint))).decimals,
+      });
+    }
+    return transfers;
+  }
+
+  /**
+   * Prices transfers in USD. When a daily cap is set, a transfer that can't be priced is a violation.
+   */
+  private async getUsdValue(
+    transfers: ValueTransfer[],
+    violations: PolicyViolation[]
+  ) {
+    const capped =
+      this.policy.maxUsdPerUserPerDay !== undefined ||
+      this.policy.maxUsdPerDay !== undefined;
+    if (!capped || transfers.length === 0) return 0;
+
+    const mints = Array.from(
+      new Set(transfers.map((transfer) => transfer.mint))
+    );
+    const prices = Object.fromEntries(
+      await Promise.all(
+        mints.map(
+          async (mint) =>
+            [mint, (await this.marketData.getPrice(mint))?.price] as const
+        )
+      )
+    );
+
+    let usdValue = 0;
+    for (const transfer of transfers) {
+      const price = prices[transfer.mint];
+      if (price === undefined) {
+        violations.push({
+          rule:
+            this.policy.maxUsdPerUserPerDay !== undefined
+              ? "maxUsdPerUserPerDay"
+              : "maxUsdPerDay",
+          instructionIndex: transfer.instructionIndex,
+          message: `Instruction ${transfer.instructionIndex} moves ${transfer.mint}, which has no USD price, so the daily cap can't be checked`,
+        });
+        continue;
+      }
+      usdValue += (Number(transfer.amount) / 10 ** transfer.decimals) * price;
+    }
+    return usdValue;
+  }
+}
+
+export default PolicyEngine;
@@ -0,0 +1,549 @@
+import * as multisig from "@sqds/multisig";
+import {
+  Connection,
+  Keypair,
+  TransactionInstruction,
+  type AddressLookupTableAccount,
+} from "@solana/web3.js";
+import MultiSigService from "@/services/multisig";
+import {
+  describeConfigAction,
+  describeInstruction,
+} from "@/services/instructions";
+import PolicyEngine from "@/services/policy";
+import AuditLog, { type AuditOrigin } from "@/services/audit";
+import { loadKeypair } from "@/services/keys";
+import {
+  loadTransactionSender,
+  type TransactionSender,
+} from "@/services/transactions";
+import { stringToUuid } from "@/core/uuid";
+import {
+  type AuditAction,
+  type IAgentRuntime,
+  type Proposal,
+  type ProposalStatus,
+} from "@/core/types";
+
+/**
+ * How many times creating a proposal is retried when another member took its index first.
+ */
+const maxCreateAttempts = 3;
+
+/**
+ * Proposals in these states can't change anymore.
+ */
+const finalStatuses: ProposalStatus[] = ["Rejected", "Executed", "Cancelled"];
+
+/**
+ * Proposal creation is serialized per multisig within the process, so two
+ * transfers started together don't both claim the same transaction index.
+ */
+const createQueues = new Map<string, Promise<unknown>>();
+
+const voteDescriptions = {
+  approve: "Approve proposal",
+  reject: "Reject proposal",
+  cancel: "Cancel proposal",
+};
+
+export interface ProposalInfo {
+  transactionIndex: bigint;
+  status: ProposalStatus;
+  approved: string[]; // The members who approved, base58 encoded.
+  rejected: string[];
+  cancelled: string[];
+}
+
+function toProposalInfo(proposal: multisig.accounts.Proposal): ProposalInfo {
+  return {
+    transactionIndex: BigInt(proposal.transactionIndex.toString()),
+    status: proposal.status.__kind,
+    approved: proposal.approved.map((member) => member.toBase58()),
+    rejected: proposal.rejected.map((member) => member.toBase58()),
+    cancelled: proposal.cancelled.map((member) => member.toBase58()),
+  };
+}
+
+/**
+ * Creates the agent's proposals on a multisig and follows them through approval,
+ * rejection, cancellation and execution, keeping a record of them in the database.
+ */
+class ProposalManager {
+  private runtime: IAgentRuntime;
+  private multisigService: MultiSigService;
+  private agent: Keypair;
+  private sender: TransactionSender;
+  private policy: PolicyEngine;
+  private audit: AuditLog;
+  private origin: AuditOrigin;
+
+  /**
+   * Class constructor
+   * @param runtime - The agent runtime, used for settings and persistence
+   * @param connection - The Solana connection object
+   * @param multisigService - The multisig the proposals belong to
+   * @param origin - The user the proposals are made for, whose daily cap of the transaction policy
+   * they count against, and the message that asked for them, recorded in the audit log
+   */
+  constructor(
+    runtime: IAgentRuntime,
+    connection: Connection,
+    multisigService: MultiSigService,
+    origin: AuditOrigin = {}
+  ) {
+    this.runtime = runtime;
+    this.multisigService = multisigService;
+    this.agent = loadKeypair(runtime, "AGENT_KEY");
+    this.sender = loadTransactionSender(runtime, connection);
+    this.policy = new PolicyEngine(runtime, connection);
+    this.audit = new AuditLog(runtime, origin);
+    this.origin = origin;
+  }
+
+  private get multisigPda() {
+    return this.multisigService.multisigAddress.toBase58();
+  }
+
+  /**
+   * Sends instructions paid by the fee payer and signed by the agent.
+   * @returns The transaction signature.
+   */
+  private async send(
+    ixs: TransactionInstruction[],
+    lookupTableAccounts: AddressLookupTableAccount[] = []
+  ) {
+    const { signature } = await this.sender.send(ixs, {
+      signers: [this.agent],
+      lookupTableAccounts,
+    });
+    return signature;
+  }
+
+  private async getLastTransactionIndex() {
+    const multisigAccount = await this.multisigService.getMultisigAccount();
+    return BigInt(multisigAccount.transactionIndex.toString());
+  }
+
+  /**
+   * Proposes running instructions from the vault, approved by the agent.
+   * The index is read right before sending, and if another member creates a
+   * transaction in between, the proposal is rebuilt at the next free index.
+   * The value it moves counts against the daily caps as soon as it is proposed.
+   * @param ixs - The instructions the vault will run.
+   * @param vaultIndex - The vault that runs them. Defaults to 0.
+   * @throws PolicyViolationError if the instructions break the transaction policy.
+   * @returns The index of the created transaction and the signature that created it.
+   */
+  async createProposal(ixs: TransactionInstruction[], vaultIndex: number = 0) {
+    return await this.audit.track(
+      {
+        multisigPda: this.multisigPda,
+        action: "propose",
+        instructions: [
+          `From vault ${vaultIndex}`,
+          ...ixs.map((ix) => describeInstruction(ix).summary),
+        ],
+      },
+      async () =>
+        await this.policy.enforceAndSend(
+          ixs,
+          { userId: this.origin.userId, multisigPda: this.multisigPda },
+          () =>
+            this.enqueue(() =>
+              this.createProposalAtNextIndex(async (transactionIndex) => {
+                const { transfer_ix, create_ix, approve_ix } =
+                  await this.multisigService.sendTx(
+                    ixs,
+                    transactionIndex,
+                    vaultIndex
+                  );
+                return [transfer_ix, create_ix, approve_ix];
+              })
+            )
+        ),
+      ({ transactionIndex, signature }) => ({
+        transactionIndex: transactionIndex.toString(),
+        signature,
+      })
+    );
+  }
+
+  /**
+   * Proposes changing the multisig's members, threshold or spending limits, approved
+   * by the agent. The change only happens once the other members approve it too, and
+   * it is executed.
+   * @param actions - The changes to make.
+   * @param auditAction - What the change is recorded as in the audit log.
+   * @throws PolicyViolationError if the changes break the transaction policy.
+   * @returns The index of the created transaction and the signature that created it.
+   */
+  async createConfigProposal(
+    actions: multisig.types.ConfigAction[],
+    auditAction: AuditAction = "propose"
+  ) {
+    return await this.audit.track(
+      {
+        multisigPda: this.multisigPda,
+        action: auditAction,
+        instructions: [
+          "Propose a config change",
+          ...actions.map(describeConfigAction),
+        ],
+      },
+      async () => {
+        this.policy.enforceConfig(actions);
+        return await this.enqueue(() =>
+          this.createProposalAtNextIndex(async (transactionIndex) => {
+            const { config_ix, create_ix, approve_ix } =
+              await this.multisigService.proposeConfigTx(
+                actions,
+                transactionIndex
+              );
+            return [config_ix, create_ix, approve_ix];
+          })
+        );
+      },
+      ({ transactionIndex, signature }) => ({
+        transactionIndex: transactionIndex.toString(),
+        signature,
+      })
+    );
+  }
+
+  /**
+   * Runs a proposal creation after the ones already started on the multisig.
+   */
+  private async enqueue<T>(create: () => Promise<T>): Promise<T> {
+    const previous = createQueues.get(this.multisigPda) ?? Promise.resolve();
+    const created = previous.catch(() => {}).then(create);
+    createQueues.set(this.multisigPda, created);
+    return await created;
+  }
+
+  /**
+   * Creates a proposal at the next free transaction index.
+   * @param build - Builds the instructions creating the transaction, its proposal
+   * and the agent's approval at an index.
+   */
+  private async createProposalAtNextIndex(
+    build: (transactionIndex: bigint) => Promise<TransactionInstruction[]>
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      const transactionIndex = (await this.getLastTransactionIndex()) + 1n;
+      const ixs = await build(transactionIndex);
+
+      try {
+        const signature = await this.send(ixs);
+
+        const proposal: Proposal = {
+          id: stringToUuid(`${this.multisigPda}-${transactionIndex}`),
+          multisigPda: this.multisigPda,
+          transactionIndex: transactionIndex.toString(),
+          status: "Active",
+          signature,
+        };
+        await this.runtime.databaseAdapter.createProposal(proposal);
+
+        return { transactionIndex, signature };
+      } catch (error) {
+        const taken = (await this.getLastTransactionIndex()) >= transactionIndex;
+        if (!taken || attempt >= maxCreateAttempts) {
+          throw error;
+        }
+        console.log(
+          `Transaction index ${transactionIndex} of ${this.multisigPda} was taken, retrying`
+        );
+      }
+    }
+  }
+
+  /**
+   * Reads a proposal from chain.
+   * @param transactionIndex - The index of the transaction.
+   * @returns The proposal, or null if there is none at this index.
+   */
+  async getProposal(transactionIndex: bigint): Promise<ProposalInfo | null> {
+    const proposal = await this.multisigService.getProposal(transactionIndex);
+    return proposal ? toProposalInfo(proposal) : null;
+  }
+
+  /**
+   * Describes what a proposal's transaction will do, one line per instruction or config change.
+   * @param transactionIndex - The index of the transaction.
+   */
+  async describeProposal(transactionIndex: bigint): Promise<string> {
+    if (
+      (await this.multisigService.getTransactionKind(transactionIndex)) ===
+      "config"
+    ) {
+      const actions =
+        await this.multisigService.getConfigTransaction(transactionIndex);
+      return [
+        `🗳 Proposal #${transactionIndex} changing the multisig`,
+        ...actions.map((action) => `• ${describeConfigAction(action)}`),
+      ].join("\n");
+    }
+
+    const { vaultIndex, instructions } =
+      await this.multisigService.getVaultTransaction(transactionIndex);
+    return [
+      `🗳 Proposal #${transactionIndex} from vault ${vaultIndex}`,
+      ...instructions.map((ix) => `• ${describeInstruction(ix).summary}`),
+    ].join("\n");
+  }
+
+  /**
+   * Lists the multisig's proposals from chain, oldest first.
+   * @param statuses - Only list proposals in these states, e.g. ["Draft", "Active"] for pending ones.
+   */
+  async listProposals(statuses?: ProposalStatus[]): Promise<ProposalInfo[]> {
+    const lastIndex = await this.getLastTransactionIndex();
+    const proposals = (
+      await this.multisigService.getProposals(1n, lastIndex)
+    ).map(toProposalInfo);
+    return statuses
+      ? proposals.filter((proposal) => statuses.includes(proposal.status))
+      : proposals;
+  }
+
+  /**
+   * Approves a proposal as the agent.
+   * @returns The transaction signature.
+   */
+  async approve(transactionIndex: bigint) {
+    return await this.vote(
+      transactionIndex,
+      "approve",
+      this.multisigService.approveTx(transactionIndex)
+    );
+  }
+
+  /**
+   * Rejects a proposal as the agent.
+   * @returns The transaction signature.
+   */
+  async reject(transactionIndex: bigint) {
+    return await this.vote(
+      transactionIndex,
+      "reject",
+      this.multisigService.rejectTx(transactionIndex)
+    );
+  }
+
+  /**
+   * Votes as the agent to cancel an approved proposal that hasn't been executed.
+   * @returns The transaction signature.
+   */
+  async cancel(transactionIndex: bigint) {
+    return await this.vote(
+      transactionIndex,
+      "cancel",
+      this.multisigService.cancelTx(transactionIndex)
+    );
+  }
+
+  /**
+   * Executes an approved proposal's vault or config transaction.
+   * @param vaultIndex - The vault the caller expects the transaction to run from. When given,
+   * the transaction is only executed if it does, and config transactions aren't executed.
+   * @returns The transaction signature.
+   */
+  async execute(transactionIndex: bigint, vaultIndex?: number) {
+    await this.multisigService.assertAgentCan("execute");
+
+    if (
+      (await this.multisigService.getTransactionKind(transactionIndex)) ===
+      "config"
+    ) {
+      if (vaultIndex !== undefined) {
+        throw new Error(
+          `Proposal #${transactionIndex} changes the multisig, it doesn't run from vault ${vaultIndex}`
+        );
+      }
+      return await this.executeConfig(transactionIndex);
+    }
+
+    const transaction =
+      await this.multisigService.getVaultTransaction(transactionIndex);
+    if (vaultIndex !== undefined && transaction.vaultIndex !== vaultIndex) {
+      throw new Error(
+        `Proposal #${transactionIndex} runs from vault ${transaction.vaultIndex}, not vault ${vaultIndex}`
+      );
+    }
+
+    const proposal = await this.getProposal(transactionIndex);
+    if (proposal?.status !== "Approved") {
+      throw new Error(
+        `Proposal #${transactionIndex} can't be executed, it is ${proposal?.status ?? "missing"}`
+      );
+    }
+
+    return await this.audit.track(
+      {
+        multisigPda: this.multisigPda,
+        action: "execute",
+        transactionIndex: transactionIndex.toString(),
+        instructions: [
+          `From vault ${transaction.vaultIndex}`,
+          ...transaction.instructions.map(
+            (ix) => describeInstruction(ix).summary
+          ),
+        ],
+      },
+      async () => {
+        const { instruction, lookupTableAccounts } =
+          await this.multisigService.executeTx(transactionIndex);
+        const signature = await this.send([instruction], lookupTableAccounts);
+        await this.refresh(transactionIndex);
+        return signature;
+      }
+    );
+  }
+
+  private async executeConfig(transactionIndex: bigint) {
+    const actions =
+      await this.multisigService.getConfigTransaction(transactionIndex);
+
+    const proposal = await this.getProposal(transactionIndex);
+    if (proposal?.status !== "Approved") {
+      throw new Error(
+        `Proposal #${transactionIndex} can't be executed, it is ${proposal?.status ?? "missing"}`
+      );
+    }
+
+    return await this.audit.track(
+      {
+        multisigPda: this.multisigPda,
+        action: "execute",
+        transactionIndex: transactionIndex.toString(),
+        instructions: actions.map(describeConfigAction),
+      },
+      async () => {
+        const ix = await this.multisigService.executeConfigTx(transactionIndex);
+        const signature = await this.send([ix]);
+        await this.refresh(transactionIndex);
+        return signature;
+      }
+    );
+  }
+
+  private async vote(
+    transactionIndex: bigint,
+    action: "approve" | "reject" | "cancel",
+    ix: TransactionInstruction
+  ): Promise<string> {
+    await this.multisigService.assertAgentCan("vote");
+
+    return await this.audit.track(
+      {
+        multisigPda: this.multisigPda,
+        action,
+        transactionIndex: transactionIndex.toString(),
+        member: this.agent.publicKey.toBase58(),
+        instructions: [`${voteDescriptions[action]} #${transactionIndex}`],
+      },
+      async () => {
+        const signature = await this.send([ix]);
+        await this.refresh(transactionIndex);
+        return signature;
+      }
+    );
+  }
+
+  /**
+   * Records in the audit log a vote cast outside the agent, e.g. by the owner in their
+   * wallet, once it shows on chain. It has no signature, since the agent didn't send it.
+   * @param transactionIndex - The index of the transaction
+   * @param action - The vote
+   * @param member - The member who voted, base58 encoded
+   */
+  async recordVote(
+    transactionIndex: bigint,
+    action: "approve" | "reject" | "cancel",
+    member: string
+  ) {
+    await this.audit.record(
+      {
+        multisigPda: this.multisigPda,
+        action,
+        transactionIndex: transactionIndex.toString(),
+        member,
+        instructions: [`${voteDescriptions[action]} #${transactionIndex}`],
+      },
+      { status: "success" }
+    );
+  }
+
+  /**
+   * Records the on-chain status of a proposal.
+   */
+  private async refresh(transactionIndex: bigint) {
+    const proposal = await this.getProposal(transactionIndex);
+    if (!proposal) return;
+    await this.track(proposal);
+  }
+
+  private async track(proposal: ProposalInfo) {
+    const id = stringToUuid(`${this.multisigPda}-${proposal.transactionIndex}`);
+    const [existing] = (
+      await this.runtime.databaseAdapter.getProposals({
+        multisigPda: this.multisigPda,
+      })
+    ).filter((tracked) => tracked.id === id);
+
+    if (!existing) {
+      await this.runtime.databaseAdapter.createProposal({
+        id,
+        multisigPda: this.multisigPda,
+        transactionIndex: proposal.transactionIndex.toString(),
+        status: proposal.status,
+      });
+    } else if (existing.status !== proposal.status) {
+      await this.runtime.databaseAdapter.updateProposalStatus({
+        proposalId: id,
+        status: proposal.status,
+      });
+    }
+  }
+
+  /**
+   * Brings the recorded proposals up to date with the chain, e.g. after a restart:
+   * updates the status of the ones still open, and records the ones created meanwhile.
+   * @returns The recorded proposals.
+   */
+  async reconcile(): Promise<Proposal[]> {
+    const tracked = await this.runtime.databaseAdapter.getProposals({
+      multisigPda: this.multisigPda,
+    });
+    const lastTracked = tracked.reduce(
+      (last, proposal) =>
+        BigInt(proposal.transactionIndex) > last
+          ? BigInt(proposal.transactionIndex)
+          : last,
+      0n
+    );
+    const lastIndex = await this.getLastTransactionIndex();
+
+    for (const proposal of tracked) {
+      if (finalStatuses.includes(proposal.status)) continue;
+      await this.refresh(BigInt(proposal.transactionIndex));
+    }
+
+    if (lastIndex > lastTracked) {
+      const created = await this.multisigService.getProposals(
+        lastTracked + 1n,
+        lastIndex
+      );
+      for (const proposal of created) {
+        await this.track(toProposalInfo(proposal));
+      }
+    }
+
+    return await this.runtime.databaseAdapter.getProposals({
+      multisigPda: this.multisigPda,
+    });
+  }
+}
+
+export default ProposalManager;
@@ -0,0 +1,242 @@
+import { describe, expect, test } from "bun:test";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { assessRisk } from "@/services/risk";
+import type { MarketPair } from "@/services/marketData";
+import type { TokenHolder, TokenReport } from "@/providers/tokens";
+
+const tokenAddress = Keypair.generate().publicKey.toBase58();
+const now = Date.UTC(2026, 0, 31);
+const day = 24 * 60 * 60 * 1000;
+
+/**
+ * A report of a token with nothing wrong: revoked authorities, immutable
+ * metadata, and a deep month old pool. 1,000,000 tokens with 6 decimals.
+ */
+function report(
+  overrides: Partial<Omit<TokenReport, "riskAssessment">> = {}
+): Omit<TokenReport, "riskAssessment"> {
+  return {
+    tokenAddress,
+    tokenProgram: "token",
+    totalSupply: 1_000_000_000_000n,
+    decimals: 6,
+    extensions: {},
+    metadata: {
+      updateAuthority: Keypair.generate().publicKey.toBase58(),
+      mint: tokenAddress,
+      name: "Token",
+      symbol: "TKN",
+      uri: "",
+      sellerFeeBasisPoints: 0,
+      creators: [],
+      primarySaleHappened: false,
+      isMutable: false,
+    },
+    top10Holders: [],
+    holdersSource: "rpc",
+    marketPairs: [pair()],
+    marketPairsSource: "DexScreener",
+    ...overrides,
+  };
+}
+
+function pair(overrides: Partial<MarketPair> = {}): MarketPair {
+  return {
+    dexId: "raydium",
+    baseToken: { address: tokenAddress },
+    pairAddress: Keypair.generate().publicKey.toBase58(),
+    pairCreatedAt: now - 30 * day,
+    marketCap: 1_000_000,
+    liquidity: { usd: 200_000 },
+    ...overrides,
+  };
+}
+
+function holder(publicKey: string, share: number): TokenHolder {
+  return {
+    publicKey,
+    amount: BigInt(share * 10_000_000_000),
+    percentage: share.toFixed(2),
+  };
+}
+
+/**
+ * Holders owning the given percentages of the supply, largest first.
+ */
+function holders(...shares: number[]) {
+  return shares.map((share) =>
+    holder(Keypair.generate().publicKey.toBase58(), share)
+  );
+}
+
+function finding(
+  assessment: ReturnType<typeof assessRisk>,
+  check: string
+) {
+  return assessment.findings.find((finding) => finding.check === check);
+}
+
+describe("assessRisk", () => {
+  test("rates a token with nothing wrong as low risk", () => {
+    const assessment = assessRisk(report(), holders(5, 4, 3), now);
+
+    expect(assessment.score).toBe(0);
+    expect(assessment.level).toBe("low");
+    expect(
+      assessment.findings.every((finding) => finding.severity === "info")
+    ).toBe(true);
+  });
+
+  test("flags active mint and freeze authorities", () => {
+    const authority = Keypair.generate().publicKey.toBase58();
+    const assessment = assessRisk(
+      report({ mintAuthority: authority, freezeAuthority: authority }),
+      [],
+      now
+    );
+
+    expect(finding(assessment, "mint_authority")?.severity).toBe("critical");
+    expect(finding(assessment, "mint_authority")?.explanation).toContain(
+      authority
+    );
+    expect(finding(assessment, "freeze_authority")?.severity).toBe("high");
+    expect(assessment.score).toBe(65);
+    expect(assessment.level).toBe("high");
+    // The most severe findings come first
+    expect(assessment.findings[0].check).toBe("mint_authority");
+  });
+
+  test("rates the concentration of the largest holders", () => {
+    const assessment = assessRisk(report(), holders(25, 10, 5, 5, 5, 5), now);
+
+    expect(finding(assessment, "top1_concentration")?.severity).toBe("high");
+    expect(finding(assessment, "top10_concentration")?.severity).toBe("high");
+
+    const spread = assessRisk(report(), holders(12, 8, 5), now);
+    expect(finding(spread, "top1_concentration")?.severity).toBe("medium");
+    expect(finding(spread, "top10_concentration")?.severity).toBe("info");
+  });
+
+  test("doesn't count pools and burn addresses as holders", () => {
+    const pool = pair();
+    const bondingCurve = PublicKey.findProgramAddressSync(
+      [Buffer.from("bonding-curve"), new PublicKey(tokenAddress).toBuffer()],
+      new PublicKey("6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P")
+    )[0].toBase58();
+    const assessment = assessRisk(
+      report({ marketPairs: [pool] }),
+      [
+        holder(pool.pairAddress!, 40),
+        holder(bondingCurve, 30),
+        holder("1nc1nerator11111111111111111111111111111111", 10),
+        ...holders(5),
+      ],
+      now
+    );
+
+    const top1 = finding(assessment, "top1_concentration");
+    expect(top1?.severity).toBe("info");
+    expect(top1?.title).toContain("5.00%");
+    expect(top1?.explanation).toContain(
+      "Not counting raydium pool, Pump.fun bonding curve, Incinerator."
+    );
+  });
+
+  test("compares the liquidity to the market cap", () => {
+    const noPools = assessRisk(report({ marketPairs: [] }), [], now);
+    expect(finding(noPools, "liquidity")?.severity).toBe("high");
+    expect(finding(noPools, "liquidity")?.title).toBe("No liquidity found");
+
+    const shallow = assessRisk(
+      report({
+        marketPairs: [
+          pair({ marketCap: 5_000_000, liquidity: { usd: 40_000 } }),
+        ],
+      }),
+      [],
+      now
+    );
+    expect(finding(shallow, "liquidity")?.severity).toBe("high");
+    expect(finding(shallow, "liquidity")?.title).toContain("0.80%");
+
+    const thin = assessRisk(
+      report({
+        marketPairs: [
+          pair({ marketCap: 1_000_000, liquidity: { usd: 30_000 } }),
+        ],
+      }),
+      [],
+      now
+    );
+    expect(finding(thin, "liquidity")?.severity).toBe("medium");
+
+    const tiny = assessRisk(
+      report({
+        marketPairs: [
+          pair({ marketCap: 100_000, liquidity: { usd: 9_000 } }),
+        ],
+      }),
+      [],
+      now
+    );
+    expect(finding(tiny, "liquidity")?.severity).toBe("high");
+  });
+
+  test("takes the market cap from pairs trading the token as their base", () => {
+    const quoted = pair({
+      baseToken: { address: Keypair.generate().publicKey.toBase58() },
+      marketCap: 1_000_000_000,
+      liquidity: { usd: 50_000 },
+    });
+    const assessment = assessRisk(
+      report({
+        marketPairs: [quoted, pair({ marketCap: undefined, fdv: 2_000_000 })],
+      }),
+      [],
+      now
+    );
+
+    // $250,000 of liquidity against the base pair's $2,000,000, not the cap of
+    // the token the other pair prices
+    expect(finding(assessment, "liquidity")?.title).toContain("12.50%");
+    expect(finding(assessment, "liquidity")?.title).toContain("$2,000,000");
+  });
+
+  test("falls back to the price times the supply for the market cap", () => {
+    const assessment = assessRisk(
+      report({
+        marketPairs: [pair({ marketCap: undefined })],
+        priceData: { price: 2, timestamp: now, source: "Jupiter" },
+      }),
+      [],
+      now
+    );
+
+    expect(finding(assessment, "liquidity")?.title).toContain(
+      "10.00% of the $2,000,000 market cap (Jupiter)"
+    );
+  });
+
+  test("rates how old the oldest pool is", () => {
+    const age = (days: number) =>
+      finding(
+        assessRisk(
+          report({
+            marketPairs: [
+              pair({ pairCreatedAt: now - days * day }),
+              pair({ pairCreatedAt: now - day / 2 }),
+            ],
+          }),
+          [],
+          now
+        ),
+        "pair_age"
+      );
+
+    expect(age(0.5)?.severity).toBe("high");
+    expect(age(0.5)?.title).toBe("Oldest pool is 12 hours old (DexScreener)");
+    expect(age(3)?.severity).toBe("medium");
+    expect(age(10)?.severity).toBe("info");
+    expect(age(10)?.title).toBe("Oldest pool is 10 days old (DexScreener)");
+  });
+});
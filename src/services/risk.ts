@@ -0,0 +1,379 @@
+import { PublicKey } from "@solana/web3.js";
+import type { TokenHolder, TokenReport } from "@/providers/tokens";
+
+/**
+ * What the checks read from a report, which they come before.
+ */
+type ReportData = Omit<TokenReport, "riskAssessment">;
+
+export type RiskSeverity = "info" | "low" | "medium" | "high" | "critical";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskFinding {
+  check: string; // Which check found it, e.g. "mint_authority".
+  severity: RiskSeverity; // "info" for checks that passed.
+  title: string;
+  explanation: string;
+}
+
+/**
+ * A verdict on a token. The score goes from 0, nothing found, to 100, the most risky.
+ */
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  findings: RiskFinding[];
+}
+
+/**
+ * How much each finding adds to the score.
+ */
+const severityWeights: Record<RiskSeverity, number> = {
+  info: 0,
+  low: 5,
+  medium: 12,
+  high: 25,
+  critical: 40,
+};
+
+const pumpFunProgramId = new PublicKey(
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P"
+);
+
+/**
+ * Owners whose balance is liquidity or burnt rather than held by someone who can sell it.
+ */
+const knownProgramOwners = new Map([
+  ["5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", "Raydium AMM"],
+  ["GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL", "Raydium CPMM"],
+  ["1nc1nerator11111111111111111111111111111111", "Incinerator"],
+]);
+
+const hour = 60 * 60 * 1000;
+
+function formatUsd(value: number) {
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
+
+/**
+ * Names where a number came from, e.g. "$12,000 of liquidity (DexScreener)".
+ */
+function sourced(text: string, source?: string) {
+  return source ? `${text} (${source})` : text;
+}
+
+function percentage(amount: bigint, total: bigint) {
+  return total > 0n ? Number((amount * 10_000n) / total) / 100 : 0;
+}
+
+/**
+ * Lists the holders that are pools, bonding curves or burn addresses: the ones
+ * named in the known list, the pools of the token's market pairs, and its Pump.fun curve.
+ */
+function getProgramHolders(report: ReportData) {
+  const owners = new Map(knownProgramOwners);
+  for (const pair of report.marketPairs) {
+    if (pair.pairAddress) owners.set(pair.pairAddress, `${pair.dexId} pool`);
+  }
+  const [bondingCurve] = PublicKey.findProgramAddressSync(
+    [
+      Buffer.from("bonding-curve"),
+      new PublicKey(report.tokenAddress).toBuffer(),
+    ],
+    pumpFunProgramId
+  );
+  owners.set(bondingCurve.toBase58(), "Pump.fun bonding curve");
+  return owners;
+}
+
+function checkAuthorities(report: ReportData): RiskFinding[] {
+  return [
+    report.mintAuthority
+      ? {
+          check: "mint_authority",
+          severity: "critical",
+          title: "Mint authority is active",
+          explanation: `${report.mintAuthority} can mint new tokens at any time and dilute every holder.`,
+        }
+      : {
+          check: "mint_authority",
+          severity: "info",
+          title: "Mint authority is revoked",
+          explanation: "The supply is fixed, no one can mint more tokens.",
+        },
+    report.freezeAuthority
+      ? {
+          check: "freeze_authority",
+          severity: "high",
+          title: "Freeze authority is active",
+          explanation: `${report.freezeAuthority} can freeze any holder's account, stopping them from selling.`,
+        }
+      : {
+          check: "freeze_authority",
+          severity: "info",
+          title: "Freeze authority is revoked",
+          explanation: "No one can freeze holders' accounts.",
+        },
+  ];
+}
+
+function checkExtensions(report: ReportData): RiskFinding[] {
+  const { extensions } = report;
+  const findings: RiskFinding[] = [];
+
+  if (extensions.permanentDelegate) {
+    findings.push({
+      check: "permanent_delegate",
+      severity: "critical",
+      title: "Permanent delegate is set",
+      explanation: `${extensions.permanentDelegate} can transfer or burn tokens out of any holder's account.`,
+    });
+  }
+  if (extensions.nonTransferable) {
+    findings.push({
+      check: "non_transferable",
+      severity: "high",
+      title: "Token is non-transferable",
+      explanation: "Holders can't transfer, and so can't sell, the token.",
+    });
+  }
+  if (extensions.transferHook) {
+    findings.push({
+      check: "transfer_hook",
+      severity: "medium",
+      title: "Transfers run a hook program",
+      explanation: `Program ${extensions.transferHook.programId} runs on every transfer and can make them fail, e.g. to block sales.`,
+    });
+  }
+  if (extensions.transferFee && extensions.transferFee.basisPoints > 0) {
+    findings.push({
+      check: "transfer_fee",
+      severity: extensions.transferFee.basisPoints >= 500 ? "high" : "low",
+      title: `Transfers pay a ${(extensions.transferFee.basisPoints / 100).toFixed(2)}% fee`,
+      explanation: extensions.transferFee.authority
+        ? `Every transfer, buys and sells included, is taxed, and ${extensions.transferFee.authority} can raise the fee.`
+        : "Every transfer, buys and sells included, is taxed.",
+    });
+  }
+  if (extensions.defaultAccountState === "frozen") {
+    findings.push({
+      check: "default_account_state",
+      severity: "medium",
+      title: "New accounts start frozen",
+      explanation:
+        "Buyers can't move their tokens until the freeze authority thaws their account.",
+    });
+  }
+
+  return findings;
+}
+
+function checkConcentration(
+  report: ReportData,
+  holders: TokenHolder[]
+): RiskFinding[] {
+  if (holders.length === 0 || report.totalSupply === 0n) return [];
+
+  const programHolders = getProgramHolders(report);
+  const excluded = holders.filter((holder) =>
+    programHolders.has(holder.publicKey)
+  );
+  const wallets = holders.filter(
+    (holder) => !programHolders.has(holder.publicKey)
+  );
+  const excludedNote =
+    excluded.length > 0
+      ? ` Not counting ${excluded.map((holder) => programHolders.get(holder.publicKey)).join(", ")}.`
+      : "";
+
+  const top1 = percentage(wallets[0]?.amount ?? 0n, report.totalSupply);
+  const top10 = percentage(
+    wallets.slice(0, 10).reduce((sum, holder) => sum + holder.amount, 0n),
+    report.totalSupply
+  );
+
+  return [
+    {
+      check: "top1_concentration",
+      severity: top1 >= 20 ? "high" : top1 >= 10 ? "medium" : "info",
+      title: `Largest holder owns ${top1.toFixed(2)}% of the supply`,
+      explanation:
+        (top1 >= 10
+          ? `${wallets[0].publicKey} could crash the price by selling.`
+          : "No single wallet holds enough to move the price on its own.") +
+        excludedNote,
+    },
+    {
+      check: "top10_concentration",
+      severity: top10 >= 50 ? "high" : top10 >= 30 ? "medium" : "info",
+      title: `Top 10 holders own ${top10.toFixed(2)}% of the supply`,
+      explanation:
+        (top10 >= 30
+          ? "A few wallets control most of the supply, a sign of insiders or a coordinated dump."
+          : "The supply is spread over many wallets.") + excludedNote,
+    },
+  ];
+}
+
+function checkMetadata(report: ReportData): RiskFinding[] {
+  if (!report.metadata) {
+    return [
+      {
+        check: "metadata",
+        severity: "low",
+        title: "No metadata",
+        explanation:
+          "The token has no Metaplex metadata, so wallets can't show its name or image.",
+      },
+    ];
+  }
+  return [
+    report.metadata.isMutable
+      ? {
+          check: "metadata_mutability",
+          severity: "medium",
+          title: "Metadata is mutable",
+          explanation: `${report.metadata.updateAuthority} can change the token's name, symbol and image, e.g. to impersonate another token.`,
+        }
+      : {
+          check: "metadata_mutability",
+          severity: "info",
+          title: "Metadata is immutable",
+          explanation: "The token's name, symbol and image are final.",
+        },
+  ];
+}
+
+function checkLiquidity(report: ReportData): RiskFinding[] {
+  const liquidity = report.marketPairs.reduce(
+    (sum, pair) => sum + (pair.liquidity?.usd ?? 0),
+    0
+  );
+  if (liquidity === 0) {
+    return [
+      {
+        check: "liquidity",
+        severity: "high",
+        title: "No liquidity found",
+        explanation:
+          "There is no pool to sell into, so holders may not be able to exit.",
+      },
+    ];
+  }
+
+  // Pairs trading the token as their base report its market cap, otherwise it is the
+  // price times the whole supply. Pairs quoting the token report the other token's.
+  const supply = Number(report.totalSupply) / 10 ** report.decimals;
+  const basePairs = report.marketPairs.filter(
+    (pair) => pair.baseToken?.address === report.tokenAddress
+  );
+  const pairsMarketCap =
+    basePairs.find((pair) => pair.marketCap)?.marketCap ??
+    basePairs.find((pair) => pair.fdv)?.fdv;
+  const marketCap =
+    pairsMarketCap ??
+    (report.priceData ? report.priceData.price * supply : undefined);
+  const marketCapSource = pairsMarketCap
+    ? report.marketPairsSource
+    : report.priceData?.source;
+  const liquidityText = sourced(
+    `${formatUsd(liquidity)} of liquidity`,
+    report.marketPairsSource
+  );
+  if (!marketCap) {
+    return [
+      {
+        check: "liquidity",
+        severity: liquidity < 10_000 ? "high" : "info",
+        title: liquidityText,
+        explanation:
+          liquidity < 10_000
+            ? "Pools this shallow move a lot on every trade, and are easy to drain."
+            : "The market cap is unknown, so the depth can't be compared to it.",
+      },
+    ];
+  }
+
+  const ratio = (liquidity / marketCap) * 100;
+  return [
+    {
+      check: "liquidity",
+      severity:
+        ratio < 1 || liquidity < 10_000
+          ? "high"
+          : ratio < 5
+            ? "medium"
+            : "info",
+      title: `${liquidityText}, ${ratio.toFixed(2)}% of the ${sourced(`${formatUsd(marketCap)} market cap`, marketCapSource)}`,
+      explanation:
+        ratio < 5 || liquidity < 10_000
+          ? "Selling even a small part of the supply would crash the price, so the market cap can't be realized."
+          : "The pools are deep enough for the market cap.",
+    },
+  ];
+}
+
+function checkPairAge(report: ReportData, now: number): RiskFinding[] {
+  const created = report.marketPairs
+    .map((pair) => pair.pairCreatedAt)
+    .filter((createdAt): createdAt is number => !!createdAt);
+  if (created.length === 0) return [];
+
+  const age = now - Math.min(...created);
+  const days = age / (24 * hour);
+  const ageText =
+    age < 24 * hour
+      ? `${Math.floor(age / hour)} hours`
+      : `${Math.floor(days)} days`;
+  return [
+    {
+      check: "pair_age",
+      severity: age < 24 * hour ? "high" : days < 7 ? "medium" : "info",
+      title: sourced(
+        `Oldest pool is ${ageText} old`,
+        report.marketPairsSource
+      ),
+      explanation:
+        days < 7
+          ? "Most rugs happen in a token's first days, before it has a track record."
+          : "The token has traded long enough to have a track record.",
+    },
+  ];
+}
+
+/**
+ * Scores how risky a token is to buy: whether its authorities can still change the
+ * supply or freeze holders, how concentrated the supply is, whether its metadata can
+ * change, and how deep and old its markets are.
+ * @param report - The token's report
+ * @param holders - Every holder, largest first
+ * @param now - The current time in milliseconds, to age the pairs
+ */
+export function assessRisk(
+  report: ReportData,
+  holders: TokenHolder[],
+  now: number = Date.now()
+): RiskAssessment {
+  const findings = [
+    ...checkAuthorities(report),
+    ...checkExtensions(report),
+    ...checkConcentration(report, holders),
+    ...checkMetadata(report),
+    ...checkLiquidity(report),
+    ...checkPairAge(report, now),
+  ].sort((a, b) => severityWeights[b.severity] - severityWeights[a.severity]);
+
+  const score = Math.min(
+    100,
+    findings.reduce(
+      (sum, finding) => sum + severityWeights[finding.severity],
+      0
+    )
+  );
+  return {
+    score,
+    level: score >= 50 ? "high" : score >= 25 ? "medium" : "low",
+    findings,
+  };
+}
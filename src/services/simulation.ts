@@ -0,0 +1,214 @@
+import {
+  Connection,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type AccountInfo,
+  type AddressLookupTableAccount,
+} from "@solana/web3.js";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  unpackAccount,
+} from "@solana/spl-token";
+import { formatAmount } from "@/services/instructions";
+import { decodeTransactionError } from "@/services/transactions";
+import { getMintInfo } from "@/services/transfers";
+
+const solDecimals = 9;
+
+/**
+ * How many log lines the summary of a failed simulation shows.
+ */
+const summaryLogLines = 10;
+
+/**
+ * How the SOL or token balance of an account changes. Amounts are in base units.
+ */
+export interface BalanceChange {
+  account: string;
+  owner?: string; // For token accounts, the wallet they belong to.
+  mint?: string; // Missing for SOL.
+  decimals: number;
+  before: bigint;
+  after: bigint;
+  change: bigint;
+}
+
+/**
+ * The outcome of running a vault transaction against the current state of the chain, without sending it.
+ */
+export interface SimulationPreview {
+  success: boolean;
+  error?: string; // Why the simulation failed, with the decoded program error when there is one.
+  logs: string[];
+  unitsConsumed: number;
+  balanceChanges: BalanceChange[];
+  summary: string; // The preview in a few lines, to show the user.
+}
+
+/**
+ * The token account stored in an account, or null if it isn't one.
+ */
+function readTokenAccount(
+  address: PublicKey,
+  info: AccountInfo<Buffer> | null
+) {
+  if (
+    !info ||
+    !(
+      info.owner.equals(TOKEN_PROGRAM_ID) ||
+      info.owner.equals(TOKEN_2022_PROGRAM_ID)
+    )
+  ) {
+    return null;
+  }
+  try {
+    return unpackAccount(address, info, info.owner);
+  } catch {
+    return null; // A mint, or an account that isn't initialized yet
+  }
+}
+
+function formatChange(change: BalanceChange) {
+  const sign = change.change > 0n ? "+" : "";
+  const asset = change.mint ?? "SOL";
+  const account = change.owner
+    ? `${change.account} (token account of ${change.owner})`
+    : change.account;
+  return `• ${account}: ${sign}${formatAmount(change.change, change.decimals)} ${asset}`;
+}
+
+function summarize(preview: Omit<SimulationPreview, "summary">) {
+  if (!preview.success) {
+    return [
+      `⚠️ Simulation failed: ${preview.error}`,
+      ...(preview.logs.length > 0
+        ? ["Last logs:", ...preview.logs.slice(-summaryLogLines)]
+        : []),
+    ].join("\n");
+  }
+  return [
+    `🧪 Simulation succeeded, using ${preview.unitsConsumed} compute units`,
+    ...(preview.balanceChanges.length > 0
+      ? ["Balance changes:", ...preview.balanceChanges.map(formatChange)]
+      : ["No balance changes"]),
+  ].join("\n");
+}
+
+/**
+ * Simulates the instructions of a vault transaction as if the vault signed them, and
+ * reports the SOL and token balance changes of every account they write to.
+ * The fee payer only pays for the simulation, so its own balance isn't reported.
+ * @param connection - The Solana connection object
+ * @param options - The fee payer, the vault's instructions and the lookup tables they use
+ */
+export async function simulateVaultTransaction(
+  connection: Connection,
+  options: {
+    payer: PublicKey;
+    instructions: TransactionInstruction[];
+    lookupTableAccounts?: AddressLookupTableAccount[];
+  }
+): Promise<SimulationPreview> {
+  const { payer, instructions, lookupTableAccounts = [] } = options;
+
+  const touched = Array.from(
+    new Map(
+      instructions
+        .flatMap((ix) => ix.keys)
+        .filter((key) => key.isWritable && !key.pubkey.equals(payer))
+        .map((key) => [key.pubkey.toBase58(), key.pubkey])
+    ).values()
+  );
+
+  // The blockhash is replaced by the node, and signatures aren't checked, so the vault can sign
+  const tx = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions,
+    }).compileToV0Message(lookupTableAccounts)
+  );
+
+  const before = await connection.getMultipleAccountsInfo(touched);
+  const { value } = await connection.simulateTransaction(tx, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: {
+      encoding: "base64",
+      addresses: touched.map((account) => account.toBase58()),
+    },
+  });
+
+  const logs = value.logs ?? [];
+  const unitsConsumed = value.unitsConsumed ?? 0;
+
+  if (value.err) {
+    const { description } = decodeTransactionError(value.err, tx, logs);
+    const preview = {
+      success: false,
+      error: description,
+      logs,
+      unitsConsumed,
+      balanceChanges: [],
+    };
+    return { ...preview, summary: summarize(preview) };
+  }
+
+  const after = (value.accounts ?? []).map(
+    (account): AccountInfo<Buffer> | null =>
+      account && {
+        ...account,
+        owner: new PublicKey(account.owner),
+        data: Buffer.from(account.data[0], "base64"),
+      }
+  );
+
+  const decimals = new Map<string, number>();
+  const balanceChanges: BalanceChange[] = [];
+
+  for (const [i, account] of touched.entries()) {
+    const lamportsBefore = BigInt(before[i]?.lamports ?? 0);
+    const lamportsAfter = BigInt(after[i]?.lamports ?? 0);
+    if (lamportsAfter !== lamportsBefore) {
+      balanceChanges.push({
+        account: account.toBase58(),
+        decimals: solDecimals,
+        before: lamportsBefore,
+        after: lamportsAfter,
+        change: lamportsAfter - lamportsBefore,
+      });
+    }
+
+    const tokenBefore = readTokenAccount(account, before[i]);
+    const tokenAfter = readTokenAccount(account, after[i] ?? null);
+    const tokenAccount = tokenAfter ?? tokenBefore;
+    if (!tokenAccount) continue;
+
+    const amountBefore = tokenBefore?.amount ?? 0n;
+    const amountAfter = tokenAfter?.amount ?? 0n;
+    if (amountAfter === amountBefore) continue;
+
+    const mint = tokenAccount.mint.toBase58();
+    if (!decimals.has(mint)) {
+      decimals.set(
+        mint,
+        (await getMintInfo(connection, tokenAccount.mint)).decimals
+      );
+    }
+    balanceChanges.push({
+      account: account.toBase58(),
+      owner: tokenAccount.owner.toBase58(),
+      mint,
+      decimals: decimals.get(mint)!,
+      before: amountBefore,
+      after: amountAfter,
+      change: amountAfter - amountBefore,
+    });
+  }
+
+  const preview = { success: true, logs, unitsConsumed, balanceChanges };
+  return { ...preview, summary: summarize(preview) };
+}
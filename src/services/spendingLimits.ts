@@ -0,0 +1,362 @@
+import * as multisig from "@sqds/multisig";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import MultiSigService from "@/services/multisig";
+import ProposalManager from "@/services/proposals";
+import PolicyEngine from "@/services/policy";
+import AuditLog, { type AuditOrigin } from "@/services/audit";
+import { buildVaultTransfer, getMintInfo } from "@/services/transfers";
+import { describeInstruction } from "@/services/instructions";
+import { loadKeypair } from "@/services/keys";
+import {
+  loadTransactionSender,
+  type TransactionSender,
+} from "@/services/transactions";
+import { stringToUuid } from "@/core/uuid";
+import {
+  type IAgentRuntime,
+  type SpendingLimit,
+  type SpendingLimitPeriod,
+  type UUID,
+  type Wallet,
+} from "@/core/types";
+
+const { Period } = multisig.types;
+
+/**
+ * Proposes, lists and removes the spending limits of a wallet, and lets the agent
+ * spend under them without going through a proposal.
+ */
+class SpendingLimitService {
+  private runtime: IAgentRuntime;
+  private connection: Connection;
+  private feePayer: Keypair;
+  private agent: Keypair;
+  private sender: TransactionSender;
+  private policy: PolicyEngine;
+  private audit: AuditLog;
+  private origin: AuditOrigin;
+
+  /**
+   * Class constructor
+   * @param runtime - The agent runtime, used for settings and persistence
+   * @param connection - The Solana connection object
+   * @param origin - The user and message the changes come from, recorded in the audit log
+   */
+  constructor(
+    runtime: IAgentRuntime,
+    connection: Connection,
+    origin: AuditOrigin = {}
+  ) {
+    this.runtime = runtime;
+    this.connection = connection;
+    this.feePayer = loadKeypair(runtime, "FEE_PAYER_KEY");
+    this.agent = loadKeypair(runtime, "AGENT_KEY");
+    this.sender = loadTransactionSender(runtime, connection);
+    this.policy = new PolicyEngine(runtime, connection);
+    this.audit = new AuditLog(runtime, origin);
+    this.origin = origin;
+  }
+
+  private getMultiSigService(wallet: Wallet): MultiSigService {
+    return new MultiSigService(
+      this.connection,
+      this.feePayer,
+      this.agent.publicKey,
+      new PublicKey(wallet.createKey)
+    );
+  }
+
+  private getProposalManager(wallet: Wallet): ProposalManager {
+    return new ProposalManager(
+      this.runtime,
+      this.connection,
+      this.getMultiSigService(wallet),
+      { userId: wallet.userId, ...this.origin }
+    );
+  }
+
+  /**
+   * Lists the spending limits of a wallet, with what is left to spend this period.
+   * Limits whose proposal isn't executed yet don't exist on chain, and are left out.
+   * @param wallet - The wallet
+   * @param vaultIndex - Only list the limits of this vault
+   */
+  async getSpendingLimits(
+    wallet: Wallet,
+    vaultIndex?: number
+  ): Promise<(SpendingLimit & { remainingAmount: string })[]> {
+    const spendingLimits = await this.runtime.databaseAdapter.getSpendingLimits({
+      multisigPda: wallet.multisigPda,
+      vaultIndex,
+    });
+    const multisigService = this.getMultiSigService(wallet);
+
+    const withRemaining = await Promise.all(
+      spendingLimits.map(async (spendingLimit) => {
+        const account = await multisigService.getSpendingLimit(
+          new PublicKey(spendingLimit.spendingLimitPda)
+        );
+        return account
+          ? {
+              ...spendingLimit,
+              remainingAmount: account.remainingAmount.toString(),
+            }
+          : null;
+      })
+    );
+    return withRemaining.filter((spendingLimit) => spendingLimit !== null);
+  }
+
+  /**
+   * Proposes a spending limit on a wallet's vault, approved by the agent, and records it.
+   * The limit exists once the owner approves the proposal too and it is executed.
+   * @param wallet - The wallet
+   * @param options - The mint (SOL if omitted), amount in base units, period, members, destinations and vault
+   * @returns The recorded limit, and the index of the proposal creating it.
+   */
+  async createSpendingLimit(
+    wallet: Wallet,
+    options: {
+      mint?: PublicKey;
+      amount: bigint;
+      period: SpendingLimitPeriod;
+      members: PublicKey[];
+      destinations?: PublicKey[];
+      vaultIndex?: number;
+    }
+  ): Promise<{ spendingLimit: SpendingLimit; transactionIndex: bigint }> {
+    const vaultIndex = options.vaultIndex ?? 0;
+    const mint = (options.mint ?? PublicKey.default).toBase58();
+    const members = options.members.map((member) => member.toBase58());
+    const destinations = (options.destinations ?? []).map((destination) =>
+      destination.toBase58()
+    );
+
+    const { action, create_key, spending_limit } =
+      this.getMultiSigService(wallet).addSpendingLimit({
+        ...options,
+        period: Period[options.period],
+      });
+    const { transactionIndex } = await this.getProposalManager(
+      wallet
+    ).createConfigProposal([action], "create_spending_limit");
+
+    const spendingLimit: SpendingLimit = {
+      id: stringToUuid(spending_limit.toBase58()),
+      multisigPda: wallet.multisigPda,
+      createKey: create_key.toBase58(),
+      spendingLimitPda: spending_limit.toBase58(),
+      vaultIndex,
+      mint,
+      amount: options.amount.toString(),
+      period: options.period,
+      members,
+      destinations,
+      createdAt: Date.now(),
+    };
+
+    await this.runtime.databaseAdapter.createSpendingLimit(spendingLimit);
+
+    return { spendingLimit, transactionIndex };
+  }
+
+  /**
+   * Proposes removing a spending limit from a wallet's vault, approved by the agent.
+   * The agent stops spending under it right away, even before the owner approves.
+   * @param wallet - The wallet
+   * @param spendingLimitId - The id of the spending limit
+   * @returns The index of the proposal removing it.
+   */
+  async removeSpendingLimit(wallet: Wallet, spendingLimitId: UUID) {
+    const spendingLimit = await this.findSpendingLimit(wallet, spendingLimitId);
+
+    const { transactionIndex } = await this.getProposalManager(
+      wallet
+    ).createConfigProposal(
+      [
+        this.getMultiSigService(wallet).removeSpendingLimit(
+          new PublicKey(spendingLimit.spendingLimitPda)
+        ),
+      ],
+      "remove_spending_limit"
+    );
+
+    await this.runtime.databaseAdapter.removeSpendingLimit(spendingLimit.id);
+
+    return transactionIndex;
+  }
+
+  /**
+   * Sends funds from a wallet's vault under a spending limit, signed by the agent.
+   * @param wallet - The wallet
+   * @param spendingLimitId - The id of the spending limit to spend under
+   * @param amount - The amount to send, in base units
+   * @param destination - The wallet receiving the funds
+   * @throws PolicyViolationError if the transfer breaks the transaction policy.
+   * @returns The transaction signature.
+   */
+  async spend(
+    wallet: Wallet,
+    spendingLimitId: UUID,
+    amount: bigint,
+    destination: PublicKey
+  ) {
+    const spendingLimit = await this.findSpendingLimit(wallet, spendingLimitId);
+
+    if (amount <= 0n) {
+      throw new Error("The amount to spend must be positive");
+    }
+    if (!spendingLimit.members.includes(this.agent.publicKey.toBase58())) {
+      throw new Error("The agent is not a member of this spending limit");
+    }
+    if (
+      spendingLimit.destinations.length > 0 &&
+      !spendingLimit.destinations.includes(destination.toBase58())
+    ) {
+      throw new Error(
+        `${destination.toBase58()} is not an allowed destination of this spending limit`
+      );
+    }
+
+    const mint = new PublicKey(spendingLimit.mint);
+    const multisigService = this.getMultiSigService(wallet);
+
+    // The policy judges the transfer the spending limit makes, as if the vault made it
+    const transfer = await buildVaultTransfer(this.connection, {
+      vault: multisigService.getVaultPda(spendingLimit.vaultIndex),
+      destination,
+      amount,
+      mint,
+    });
+
+    return await this.audit.track(
+      {
+        multisigPda: wallet.multisigPda,
+        action: "spend",
+        instructions: [
+          `From vault ${spendingLimit.vaultIndex} under spending limit ${spendingLimit.spendingLimitPda}`,
+          ...transfer.map((ix) => describeInstruction(ix).summary),
+        ],
+      },
+      async () => {
+        const { signature } = await this.policy.enforceAndSend(
+          transfer,
+          { userId: wallet.userId, multisigPda: wallet.multisigPda },
+          async () => ({
+            signature: await this.sendSpend(
+              multisigService,
+              spendingLimit,
+              amount,
+              destination
+            ),
+          })
+        );
+        return signature;
+      }
+    );
+  }
+
+  private async sendSpend(
+    multisigService: MultiSigService,
+    spendingLimit: SpendingLimit,
+    amount: bigint,
+    destination: PublicKey
+  ) {
+    const mint = new PublicKey(spendingLimit.mint);
+
+    const ixs: TransactionInstruction[] = [];
+    const { decimals, tokenProgram } = await getMintInfo(this.connection, mint);
+
+    if (tokenProgram) {
+      ixs.push(
+        createAssociatedTokenAccountIdempotentInstruction(
+          this.feePayer.publicKey,
+          getAssociatedTokenAddressSync(mint, destination, true, tokenProgram),
+          destination,
+          mint,
+          tokenProgram
+        )
+      );
+    }
+
+    ixs.push(
+      multisigService.useSpendingLimit({
+        spendingLimit: {
+          address: new PublicKey(spendingLimit.spendingLimitPda),
+          mint,
+          vaultIndex: spendingLimit.vaultIndex,
+        },
+        amount,
+        decimals,
+        destination,
+        tokenProgram,
+      })
+    );
+
+    const { signature } = await this.sender.send(ixs, {
+      signers: [this.agent],
+    });
+    return signature;
+  }
+
+  /**
+   * Finds a spending limit the agent can send an amount under right now.
+   * @param wallet - The wallet
+   * @param options - The mint (SOL if omitted), amount in base units, destination wallet and vault
+   * @returns The spending limit, or null if none covers the transfer and it needs a proposal.
+   */
+  async findUsableSpendingLimit(
+    wallet: Wallet,
+    options: {
+      mint?: PublicKey;
+      amount: bigint;
+      destination: PublicKey;
+      vaultIndex?: number;
+    }
+  ) {
+    const mint = (options.mint ?? PublicKey.default).toBase58();
+    const agent = this.agent.publicKey.toBase58();
+    const destination = options.destination.toBase58();
+
+    const spendingLimits = await this.getSpendingLimits(
+      wallet,
+      options.vaultIndex ?? 0
+    );
+    return (
+      spendingLimits.find(
+        (spendingLimit) =>
+          spendingLimit.mint === mint &&
+          spendingLimit.members.includes(agent) &&
+          (spendingLimit.destinations.length === 0 ||
+            spendingLimit.destinations.includes(destination)) &&
+          BigInt(spendingLimit.remainingAmount) >= options.amount
+      ) ?? null
+    );
+  }
+
+  private async findSpendingLimit(wallet: Wallet, spendingLimitId: UUID) {
+    const spendingLimits = await this.runtime.databaseAdapter.getSpendingLimits(
+      { multisigPda: wallet.multisigPda }
+    );
+    const spendingLimit = spendingLimits.find(
+      (spendingLimit) => spendingLimit.id === spendingLimitId
+    );
+    if (!spendingLimit) {
+      throw new Error(
+        `Spending limit ${spendingLimitId} not found on multisig ${wallet.multisigPda}`
+      );
+    }
+    return spendingLimit;
+  }
+}
+
+export default SpendingLimitService;
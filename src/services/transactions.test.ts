@@ -0,0 +1,224 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import * as multisig from "@sqds/multisig";
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  VersionedTransaction,
+  type SignatureStatus,
+} from "@solana/web3.js";
+import {
+  TransactionSendError,
+  TransactionSender,
+} from "@/services/transactions";
+
+/**
+ * The validator suite runs against a local solana-test-validator, started with e.g.
+ * `solana-test-validator --reset` and passed as
+ * `SOLANA_TEST_VALIDATOR_URL=http://127.0.0.1:8899 bun test src/services/transactions.test.ts`.
+ */
+const validatorUrl = process.env.SOLANA_TEST_VALIDATOR_URL;
+
+/**
+ * A connection answering from scripted signature statuses, block heights and the last
+ * valid block heights of its blockhashes, one per call.
+ */
+function stubConnection({
+  statuses,
+  blockHeights = [],
+  lastValidBlockHeights = [100],
+  logs = [],
+}: {
+  statuses: (Partial<SignatureStatus> | null)[];
+  blockHeights?: number[];
+  lastValidBlockHeights?: number[];
+  logs?: string[];
+}) {
+  let polls = 0;
+  let heightReads = 0;
+  let blockhashes = 0;
+  const sent: Uint8Array[] = [];
+  const connection = {
+    getLatestBlockhash: async () => ({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight:
+        lastValidBlockHeights[
+          Math.min(blockhashes++, lastValidBlockHeights.length - 1)
+        ],
+    }),
+    simulateTransaction: async () => ({
+      value: { err: null, logs: [], unitsConsumed: 1000 },
+    }),
+    getRecentPrioritizationFees: async () => [],
+    sendRawTransaction: async (raw: Uint8Array) => {
+      sent.push(raw);
+      return "signature";
+    },
+    getSignatureStatuses: async () => {
+      const status = statuses[Math.min(polls, statuses.length - 1)];
+      polls++;
+      return { value: [status ? { slot: 1, ...status } : null] };
+    },
+    getBlockHeight: async () =>
+      blockHeights[Math.min(heightReads++, blockHeights.length - 1)] ?? 0,
+    getTransaction: async () => ({ meta: { logMessages: logs } }),
+  } as unknown as Connection;
+  return { connection, sent };
+}
+
+function transfer(from: PublicKey, lamports = 1000) {
+  return SystemProgram.transfer({
+    fromPubkey: from,
+    toPubkey: Keypair.generate().publicKey,
+    lamports,
+  });
+}
+
+describe("TransactionSender", () => {
+  const payer = Keypair.generate();
+
+  test("waits for a landed transaction to reach the commitment after its blockhash expires", async () => {
+    const { connection } = stubConnection({
+      statuses: [
+        null,
+        { confirmationStatus: "processed" },
+        { confirmationStatus: "processed" },
+        { confirmationStatus: "confirmed", slot: 7 },
+      ],
+      blockHeights: [90, 150, 200],
+    });
+    const sender = new TransactionSender(connection, payer, {
+      rebroadcastInterval: 1,
+    });
+
+    expect(await sender.send([transfer(payer.publicKey)])).toEqual({
+      signature: "signature",
+      slot: 7,
+    });
+  });
+
+  test("rebroadcasts until the blockhash of the last attempt expires", async () => {
+    const { connection, sent } = stubConnection({
+      statuses: [null],
+      blockHeights: [90, 99, 101, 150, 201],
+      lastValidBlockHeights: [100, 200],
+    });
+    const sender = new TransactionSender(connection, payer, {
+      rebroadcastInterval: 1,
+      maxSendAttempts: 2,
+    });
+
+    const error = await sender
+      .send([transfer(payer.publicKey)])
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(TransactionSendError);
+    expect(error.reason).toBe("expired");
+    // Each attempt sends, then rebroadcasts on each poll before its expiry
+    expect(sent).toHaveLength(5);
+  });
+
+  test("signs the transaction again with a fresh blockhash once it expires", async () => {
+    const { connection, sent } = stubConnection({
+      statuses: [
+        null,
+        null,
+        null,
+        { confirmationStatus: "confirmed", slot: 9 },
+      ],
+      blockHeights: [101, 150],
+      lastValidBlockHeights: [100, 200],
+    });
+    const sender = new TransactionSender(connection, payer, {
+      rebroadcastInterval: 1,
+    });
+
+    expect(await sender.send([transfer(payer.publicKey)])).toEqual({
+      signature: "signature",
+      slot: 9,
+    });
+    const blockhashes = sent.map(
+      (raw) => VersionedTransaction.deserialize(raw).message.recentBlockhash
+    );
+    expect(blockhashes).toHaveLength(3);
+    expect(blockhashes[1]).not.toBe(blockhashes[0]);
+    expect(blockhashes[2]).toBe(blockhashes[1]);
+  });
+
+  test("decodes the Squads error a transaction failed with", async () => {
+    const code = 6005;
+    const { connection } = stubConnection({
+      statuses: [{ err: { InstructionError: [1, { Custom: code }] } }],
+    });
+    const sender = new TransactionSender(connection, payer, {
+      rebroadcastInterval: 1,
+    });
+    const squadsIx = new TransactionInstruction({
+      programId: multisig.PROGRAM_ID,
+      keys: [],
+      data: Buffer.alloc(0),
+    });
+
+    const error = await sender.send([squadsIx]).catch((error) => error);
+    expect(error).toBeInstanceOf(TransactionSendError);
+    expect(error.reason).toBe("failed");
+    expect(error.instructionIndex).toBe(1);
+    expect(error.programId).toBe(multisig.PROGRAM_ADDRESS);
+    expect(error.programError).toEqual({
+      code,
+      name: multisig.generated.errorFromCode(code)?.name,
+      message: multisig.generated.errorFromCode(code)?.message,
+    });
+  });
+});
+
+describe.skipIf(!validatorUrl)("TransactionSender on solana-test-validator", () => {
+  const payer = Keypair.generate();
+  let connection: Connection;
+  let sender: TransactionSender;
+
+  beforeAll(() => {
+    connection = new Connection(validatorUrl!, "confirmed");
+    sender = new TransactionSender(connection, payer, {
+      rebroadcastInterval: 200,
+    });
+  });
+
+  test("sends and confirms a transfer", async () => {
+    const airdrop = await connection.requestAirdrop(
+      payer.publicKey,
+      LAMPORTS_PER_SOL
+    );
+    await connection.confirmTransaction(
+      { signature: airdrop, ...(await connection.getLatestBlockhash()) },
+      "confirmed"
+    );
+
+    const destination = Keypair.generate().publicKey;
+    const { signature } = await sender.send([
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: destination,
+        lamports: LAMPORTS_PER_SOL / 10,
+      }),
+    ]);
+
+    expect(signature).toBeString();
+    expect(await connection.getBalance(destination)).toBe(
+      LAMPORTS_PER_SOL / 10
+    );
+  }, 30_000);
+
+  test("reports a transaction that fails simulation", async () => {
+    const error = await sender
+      .send([transfer(payer.publicKey, 10 * LAMPORTS_PER_SOL)])
+      .catch((error) => error);
+
+    expect(error).toBeInstanceOf(TransactionSendError);
+    expect(error.reason).toBe("simulation");
+    expect(error.instructionIndex).toBe(1);
+    expect(error.logs.length).toBeGreaterThan(0);
+  }, 30_000);
+});
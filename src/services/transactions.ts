@@ -0,0 +1,399 @@
+import * as multisig from "@sqds/multisig";
+import {
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type Commitment,
+  type TransactionError,
+} from "@solana/web3.js";
+import { loadKeypair } from "@/services/keys";
+import { type IAgentRuntime } from "@/core/types";
+
+/**
+ * The most compute units a transaction can use.
+ */
+const maxComputeUnits = 1_400_000;
+
+/**
+ * Headroom added to the simulated compute units, since the state can change before the transaction lands.
+ */
+const computeUnitMargin = 1.1;
+
+const commitmentLevels: Commitment[] = ["processed", "confirmed", "finalized"];
+
+export interface TransactionSenderOptions {
+  commitment?: Commitment; // The commitment to confirm at. Defaults to "confirmed".
+  computeUnitLimit?: number; // A fixed compute unit limit. Defaults to the simulated usage plus a margin.
+  priorityFee?: number | "auto"; // In micro-lamports per compute unit. "auto" uses the median recent fee of the written accounts. Defaults to "auto".
+  rebroadcastInterval?: number; // Milliseconds between rebroadcasts until the transaction lands. Defaults to 2000.
+  maxSendAttempts?: number; // How many times the transaction is signed with a fresh blockhash and sent before it counts as expired. Defaults to 3.
+}
+
+/**
+ * Thrown when a transaction fails simulation, fails on chain, or the blockhash of its last attempt
+ * expires before it lands.
+ */
+export class TransactionSendError extends Error {
+  reason: "simulation" | "failed" | "expired";
+  signature?: string; // Missing when the transaction was never sent.
+  logs: string[]; // The program logs, when there are any.
+  instructionIndex?: number; // The instruction that failed, counting the compute budget instructions.
+  programId?: string; // The program of the failed instruction.
+  programError?: { code: number; name?: string; message?: string }; // The failed program's custom error.
+
+  constructor(
+    message: string,
+    details: Omit<TransactionSendError, keyof Error | "logs"> & {
+      logs?: string[] | null;
+    }
+  ) {
+    super(message);
+    this.name = "TransactionSendError";
+    this.reason = details.reason;
+    this.signature = details.signature;
+    this.logs = details.logs ?? [];
+    this.instructionIndex = details.instructionIndex;
+    this.programId = details.programId;
+    this.programError = details.programError;
+  }
+}
+
+/**
+ * Works out which instruction and program failed from a transaction error, and decodes
+ * Squads program error codes into their names.
+ */
+export function decodeTransactionError(
+  err: TransactionError,
+  tx: VersionedTransaction,
+  logs: string[] | null | undefined
+) {
+  const details: Pick<
+    TransactionSendError,
+    "instructionIndex" | "programId" | "programError"
+  > = {};
+  let description = JSON.stringify(err);
+
+  if (typeof err === "object" && err !== null && "InstructionError" in err) {
+    const [index, instructionError] = (
+      err as { InstructionError: [number, unknown] }
+    ).InstructionError;
+    const instruction = tx.message.compiledInstructions[index];
+    const programId =
+      instruction &&
+      tx.message.staticAccountKeys[instruction.programIdIndex]?.toBase58();
+    details.instructionIndex = index;
+    details.programId = programId;
+    description = `instruction ${index} (${programId ?? "unknown program"}) failed: ${JSON.stringify(instructionError)}`;
+
+    if (
+      typeof instructionError === "object" &&
+      instructionError !== null &&
+      "Custom" in instructionError
+    ) {
+      const code = (instructionError as { Custom: number }).Custom;
+      const squadsError =
+        programId === multisig.PROGRAM_ADDRESS
+          ? multisig.generated.errorFromCode(code)
+          : null;
+      // Anchor programs log the error they fail with
+      const loggedError = logs
+        ?.find((log) => log.includes("Error Message:"))
+        ?.split("Error Message:")[1]
+        ?.trim();
+      details.programError = {
+        code,
+        name: squadsError?.name,
+        message: squadsError?.message ?? loggedError,
+      };
+      description = `instruction ${index} (${programId}) failed with error ${code}${squadsError ? ` ${squadsError.name}: ${squadsError.message}` : loggedError ? `: ${loggedError}` : ""}`;
+    }
+  }
+
+  return { description, details };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sends v0 transactions paid by a fee payer: prices and sizes the compute budget,
+ * rebroadcasts until the transaction lands, re-signs it with a fresh blockhash when
+ * its blockhash expires, and reports failures as TransactionSendError with the
+ * decoded program logs.
+ */
+export class TransactionSender {
+  private connection: Connection;
+  private payer: Keypair;
+  private options: Required<Omit<TransactionSenderOptions, "computeUnitLimit">> &
+    Pick<TransactionSenderOptions, "computeUnitLimit">;
+
+  /**
+   * Class constructor
+   * @param connection - The Solana connection object
+   * @param payer - The keypair paying the fees
+   * @param options - Commitment, compute budget and rebroadcast settings
+   */
+  constructor(
+    connection: Connection,
+    payer: Keypair,
+    options: TransactionSenderOptions = {}
+  ) {
+    this.connection = connection;
+    this.payer = payer;
+    this.options = {
+      commitment: options.commitment ?? "confirmed",
+      computeUnitLimit: options.computeUnitLimit,
+      priorityFee: options.priorityFee ?? "auto",
+      rebroadcastInterval: options.rebroadcastInterval ?? 2000,
+      maxSendAttempts: options.maxSendAttempts ?? 3,
+    };
+  }
+
+  get payerPublicKey(): PublicKey {
+    return this.payer.publicKey;
+  }
+
+  /**
+   * Sends instructions in a single transaction and waits until it reaches the configured commitment.
+   * @param ixs - The instructions, without compute budget instructions.
+   * @param signers - The signers besides the fee payer.
+   * @param lookupTableAccounts - Address lookup tables to compile the message with.
+   * @returns The signature and the slot the transaction landed in.
+   */
+  async send(
+    ixs: TransactionInstruction[],
+    {
+      signers = [],
+      lookupTableAccounts = [],
+    }: {
+      signers?: Keypair[];
+      lookupTableAccounts?: AddressLookupTableAccount[];
+    } = {}
+  ): Promise<{ signature: string; slot: number }> {
+    const { commitment, maxSendAttempts } = this.options;
+
+    const build = (
+      blockhash: string,
+      computeUnitLimit: number,
+      priorityFee: number
+    ) => {
+      const budgetIxs = [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+      ];
+      if (priorityFee > 0) {
+        budgetIxs.push(
+          ComputeBudgetProgram.setComputeUnitPrice({
+            microLamports: priorityFee,
+          })
+        );
+      }
+      const tx = new VersionedTransaction(
+        new TransactionMessage({
+          payerKey: this.payer.publicKey,
+          recentBlockhash: blockhash,
+          instructions: [...budgetIxs, ...ixs],
+        }).compileToV0Message(lookupTableAccounts)
+      );
+      tx.sign([this.payer, ...signers]);
+      return tx;
+    };
+
+    let latest = await this.connection.getLatestBlockhash(commitment);
+    const computeUnitLimit =
+      this.options.computeUnitLimit ??
+      (await this.estimateComputeUnits(
+        build(latest.blockhash, maxComputeUnits, 0)
+      ));
+    const priorityFee = await this.getPriorityFee(ixs);
+
+    for (let attempt = 1; ; attempt++) {
+      const tx = build(latest.blockhash, computeUnitLimit, priorityFee);
+      const result = await this.sendUntilExpired(
+        tx,
+        latest.lastValidBlockHeight
+      );
+      if (result.landed) return result.landed;
+
+      if (attempt >= maxSendAttempts) {
+        throw new TransactionSendError(
+          `Transaction ${result.signature} expired at block height ${latest.lastValidBlockHeight} before landing, after ${attempt} attempts`,
+          { reason: "expired", signature: result.signature }
+        );
+      }
+      // The expired transaction can no longer land, so signing it again can't send it twice
+      console.log(
+        `Transaction ${result.signature} expired before landing, signing it with a new blockhash`
+      );
+      latest = await this.connection.getLatestBlockhash(commitment);
+    }
+  }
+
+  /**
+   * Sends a signed transaction and rebroadcasts it until it reaches the configured
+   * commitment or its blockhash expires.
+   * @throws TransactionSendError if it fails on chain.
+   * @returns Its signature, and where it landed unless its blockhash expired first.
+   */
+  private async sendUntilExpired(
+    tx: VersionedTransaction,
+    lastValidBlockHeight: number
+  ): Promise<{
+    signature: string;
+    landed?: { signature: string; slot: number };
+  }> {
+    const { commitment, rebroadcastInterval } = this.options;
+    const rawTransaction = tx.serialize();
+
+    // Rebroadcasting is done here, and preflight already ran as the simulation if there was one
+    const signature = await this.connection.sendRawTransaction(rawTransaction, {
+      skipPreflight: this.options.computeUnitLimit === undefined,
+      preflightCommitment: commitment,
+      maxRetries: 0,
+    });
+
+    while (true) {
+      await sleep(rebroadcastInterval);
+
+      const {
+        value: [status],
+      } = await this.connection.getSignatureStatuses([signature]);
+
+      if (status?.err) {
+        const confirmed = await this.connection.getTransaction(signature, {
+          commitment: "confirmed",
+          maxSupportedTransactionVersion: 0,
+        });
+        const logs = confirmed?.meta?.logMessages;
+        const { description, details } = decodeTransactionError(
+          status.err,
+          tx,
+          logs
+        );
+        throw new TransactionSendError(
+          `Transaction ${signature} failed: ${description}`,
+          { reason: "failed", signature, logs, ...details }
+        );
+      }
+
+      if (
+        status?.confirmationStatus &&
+        commitmentLevels.indexOf(status.confirmationStatus) >=
+          commitmentLevels.indexOf(commitment)
+      ) {
+        return { signature, landed: { signature, slot: status.slot } };
+      }
+
+      // Once it has a status the transaction landed, and only has to reach the
+      // commitment, even if its blockhash expires meanwhile
+      if (status) continue;
+
+      const blockHeight = await this.connection.getBlockHeight(commitment);
+      if (blockHeight > lastValidBlockHeight) {
+        // It may have landed between reading its status and the block height
+        const {
+          value: [lastStatus],
+        } = await this.connection.getSignatureStatuses([signature]);
+        if (!lastStatus) return { signature };
+        continue;
+      }
+
+      await this.connection
+        .sendRawTransaction(rawTransaction, {
+          skipPreflight: true,
+          maxRetries: 0,
+        })
+        .catch((error) => console.error("Error rebroadcasting:", error));
+    }
+  }
+
+  /**
+   * Simulates the transaction to size its compute unit limit.
+   * @throws TransactionSendError if the simulation fails.
+   */
+  private async estimateComputeUnits(tx: VersionedTransaction) {
+    const { value } = await this.connection.simulateTransaction(tx, {
+      commitment: this.options.commitment,
+      sigVerify: false,
+    });
+
+    if (value.err) {
+      const { description, details } = decodeTransactionError(
+        value.err,
+        tx,
+        value.logs
+      );
+      throw new TransactionSendError(
+        `Transaction simulation failed: ${description}`,
+        { reason: "simulation", logs: value.logs, ...details }
+      );
+    }
+
+    return Math.min(
+      maxComputeUnits,
+      Math.ceil((value.unitsConsumed ?? maxComputeUnits) * computeUnitMargin)
+    );
+  }
+
+  /**
+   * The configured priority fee, or the median of the recent fees paid to write the same accounts.
+   */
+  private async getPriorityFee(ixs: TransactionInstruction[]) {
+    if (this.options.priorityFee !== "auto") {
+      return this.options.priorityFee;
+    }
+
+    const writableAccounts = Array.from(
+      new Map(
+        ixs
+          .flatMap((ix) => ix.keys)
+          .filter((key) => key.isWritable)
+          .map((key) => [key.pubkey.toBase58(), key.pubkey])
+      ).values()
+    );
+    const fees = (
+      await this.connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: writableAccounts.slice(0, 128),
+      })
+    )
+      .map((fee) => fee.prioritizationFee)
+      .sort((a, b) => a - b);
+
+    return fees.length > 0 ? fees[Math.floor(fees.length / 2)] : 0;
+  }
+}
+
+/**
+ * Creates a TransactionSender paid by the FEE_PAYER_KEY setting. The commitment can be set with
+ * SOLANA_COMMITMENT and a fixed priority fee with PRIORITY_FEE (micro-lamports per compute unit).
+ * @param runtime - The runtime to read the settings from
+ * @param connection - The Solana connection object
+ */
+export function loadTransactionSender(
+  runtime: IAgentRuntime,
+  connection: Connection
+): TransactionSender {
+  const commitment = runtime.getSetting("SOLANA_COMMITMENT");
+  if (commitment && !commitmentLevels.includes(commitment as Commitment)) {
+    throw new Error(
+      `SOLANA_COMMITMENT must be one of ${commitmentLevels.join(", ")}`
+    );
+  }
+
+  const priorityFee = runtime.getSetting("PRIORITY_FEE");
+  if (priorityFee && !/^\d+$/.test(priorityFee)) {
+    throw new Error("PRIORITY_FEE must be a number of micro-lamports");
+  }
+
+  return new TransactionSender(
+    connection,
+    loadKeypair(runtime, "FEE_PAYER_KEY"),
+    {
+      commitment: (commitment as Commitment) ?? undefined,
+      priorityFee: priorityFee ? Number(priorityFee) : undefined,
+    }
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  Connection,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from "@solana/spl-token";
+
+const solDecimals = 9;
+
+/**
+ * Reads the decimals of a mint and the token program that owns it.
+ * @param connection - The Solana connection object
+ * @param mint - The mint, or undefined for SOL
+ */
+export async function getMintInfo(
+  connection: Connection,
+  mint?: PublicKey
+): Promise<{ decimals: number; tokenProgram?: PublicKey }> {
+  if (!mint || mint.equals(PublicKey.default)) {
+    return { decimals: solDecimals };
+  }
+
+  const mintAccount = await connection.getAccountInfo(mint);
+  if (!mintAccount) {
+    throw new Error(`Mint ${mint.toBase58()} not found`);
+  }
+  const tokenProgram = mintAccount.owner;
+  const { decimals } = await getMint(
+    connection,
+    mint,
+    undefined,
+    tokenProgram
+  );
+  return { decimals, tokenProgram };
+}
+
+/**
+ * Builds the instructions sending SOL or tokens out of a vault, to run inside a vault transaction.
+ * For tokens, the vault pays for the destination's token account if it doesn't exist.
+ * @param connection - The Solana connection object
+ * @param options - The vault, destination wallet, amount in base units and mint (SOL if omitted)
+ */
+export async function buildVaultTransfer(
+  connection: Connection,
+  options: {
+    vault: PublicKey;
+    destination: PublicKey;
+    amount: bigint;
+    mint?: PublicKey;
+  }
+): Promise<TransactionInstruction[]> {
+  const { vault, destination, amount, mint } = options;
+
+  if (!mint || mint.equals(PublicKey.default)) {
+    return [
+      SystemProgram.transfer({
+        fromPubkey: vault,
+        toPubkey: destination,
+        lamports: amount,
+      }),
+    ];
+  }
+
+  const { decimals, tokenProgram } = await getMintInfo(connection, mint);
+  const destinationAta = getAssociatedTokenAddressSync(
+    mint,
+    destination,
+    true,
+    tokenProgram
+  );
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      vault,
+      destinationAta,
+      destination,
+      mint,
+      tokenProgram
+    ),
+    createTransferCheckedInstruction(
+      getAssociatedTokenAddressSync(mint, vault, true, tokenProgram),
+      mint,
+      destinationAta,
+      vault,
+      amount,
+      decimals,
+      [],
+      tokenProgram
+    ),
+  ];
+}
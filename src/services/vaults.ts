@@ -0,0 +1,348 @@
+import NodeCache from "node-cache";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import MultiSigService from "@/services/multisig";
+import ProposalManager from "@/services/proposals";
+import SpendingLimitService from "@/services/spendingLimits";
+import type { AuditOrigin } from "@/services/audit";
+import { loadKeypair } from "@/services/keys";
+import { buildVaultTransfer } from "@/services/transfers";
+import type { SimulationPreview } from "@/services/simulation";
+import { stringToUuid } from "@/core/uuid";
+import {
+  type IAgentRuntime,
+  type SpendingLimit,
+  type UUID,
+  type Vault,
+  type Wallet,
+} from "@/core/types";
+
+/**
+ * Vault indices are a u8 in the Squads program.
+ */
+const maxVaultIndex = 255;
+
+const vaultNamePattern = /^[a-z][a-z0-9_-]{0,31}$/;
+
+/**
+ * How long a held transfer waits for the user's confirmation, in seconds.
+ */
+const confirmationTtl = 5 * 60;
+
+/**
+ * Transfers waiting for the user's confirmation, by id.
+ */
+const heldTransfers = new NodeCache({
+  stdTTL: confirmationTtl,
+  useClones: false,
+});
+
+/**
+ * A vault of a wallet, with its name and what it holds. Amounts are in base units.
+ */
+export interface VaultInfo {
+  vaultIndex: number;
+  name: string | null; // Null if the user hasn't named it.
+  address: string;
+  lamports: bigint;
+  tokens: { mint: string; amount: bigint; decimals: number }[];
+  spendingLimits: (SpendingLimit & { remainingAmount: string })[];
+}
+
+/**
+ * A transfer out of a vault, simulated but not sent yet.
+ */
+export interface PreparedTransfer {
+  vaultIndex: number;
+  destination: PublicKey;
+  amount: bigint; // In base units.
+  mint?: PublicKey; // SOL if omitted.
+  instructions: TransactionInstruction[];
+  preview: SimulationPreview;
+}
+
+/**
+ * A prepared transfer waiting for the user to confirm it.
+ */
+export interface HeldTransfer {
+  walletId: UUID;
+  description: string; // What the transfer does, e.g. "1 SOL from savings to trading".
+  transfer: PreparedTransfer;
+}
+
+/**
+ * Manages the vaults of a wallet: names them so users can refer to them as e.g. "savings"
+ * or "trading", reports their balances and spending limits, and moves funds out of them.
+ */
+class VaultService {
+  private runtime: IAgentRuntime;
+  private connection: Connection;
+  private feePayer: Keypair;
+  private agent: Keypair;
+  private origin?: AuditOrigin;
+
+  /**
+   * Class constructor
+   * @param runtime - The agent runtime, used for settings and persistence
+   * @param connection - The Solana connection object
+   * @param origin - The user and message the transfers come from, recorded in the audit log
+   */
+  constructor(
+    runtime: IAgentRuntime,
+    connection: Connection,
+    origin?: AuditOrigin
+  ) {
+    this.runtime = runtime;
+    this.connection = connection;
+    this.feePayer = loadKeypair(runtime, "FEE_PAYER_KEY");
+    this.agent = loadKeypair(runtime, "AGENT_KEY");
+    this.origin = origin;
+  }
+
+  private getMultiSigService(wallet: Wallet): MultiSigService {
+    return new MultiSigService(
+      this.connection,
+      this.feePayer,
+      this.agent.publicKey,
+      new PublicKey(wallet.createKey)
+    );
+  }
+
+  /**
+   * Lists the vaults of a wallet: the default one, the named ones, and any other
+   * a transaction or spending limit uses.
+   * @param wallet - The wallet
+   */
+  async listVaults(wallet: Wallet): Promise<VaultInfo[]> {
+    const multisigService = this.getMultiSigService(wallet);
+    const [names, { vaultIndices }] = await Promise.all([
+      this.runtime.databaseAdapter.getVaults({
+        multisigPda: wallet.multisigPda,
+      }),
+      multisigService.getInfo(),
+    ]);
+    const spendingLimitService = new SpendingLimitService(
+      this.runtime,
+      this.connection
+    );
+
+    const indices = Array.from(
+      new Set([0, ...names.map((vault) => vault.vaultIndex), ...vaultIndices])
+    ).sort((a, b) => a - b);
+
+    return await Promise.all(
+      indices.map(async (vaultIndex) => {
+        const [balances, spendingLimits] = await Promise.all([
+          multisigService.getVaultBalances(vaultIndex),
+          spendingLimitService.getSpendingLimits(wallet, vaultIndex),
+        ]);
+        return {
+          vaultIndex,
+          name:
+            names.find((vault) => vault.vaultIndex === vaultIndex)?.name ??
+            null,
+          address: balances.address.toBase58(),
+          lamports: balances.lamports,
+          tokens: balances.tokens.map((token) => ({
+            mint: token.mint.toBase58(),
+            amount: token.amount,
+            decimals: token.decimals,
+          })),
+          spendingLimits,
+        };
+      })
+    );
+  }
+
+  /**
+   * Names a vault, replacing the name it had.
+   * @param wallet - The wallet
+   * @param vaultIndex - The index of the vault
+   * @param name - The name, a lowercase word of up to 32 letters, digits, - and _
+   */
+  async nameVault(
+    wallet: Wallet,
+    vaultIndex: number,
+    name: string
+  ): Promise<Vault> {
+    name = name.toLowerCase();
+    if (
+      !Number.isInteger(vaultIndex) ||
+      vaultIndex < 0 ||
+      vaultIndex > maxVaultIndex
+    ) {
+      throw new Error(`The vault index must be between 0 and ${maxVaultIndex}`);
+    }
+    if (!vaultNamePattern.test(name)) {
+      throw new Error(
+        "A vault name must start with a letter and have at most 32 letters, digits, - and _"
+      );
+    }
+
+    const vaults = await this.runtime.databaseAdapter.getVaults({
+      multisigPda: wallet.multisigPda,
+    });
+    const taken = vaults.find((vault) => vault.name === name);
+    if (taken && taken.vaultIndex !== vaultIndex) {
+      throw new Error(`Vault ${taken.vaultIndex} is already named ${name}`);
+    }
+
+    const previous = vaults.find((vault) => vault.vaultIndex === vaultIndex);
+    if (previous) {
+      await this.runtime.databaseAdapter.removeVault(previous.id);
+    }
+
+    const vault: Vault = {
+      id: stringToUuid(`${wallet.multisigPda}-vault-${vaultIndex}`),
+      multisigPda: wallet.multisigPda,
+      vaultIndex,
+      name,
+      createdAt: Date.now(),
+    };
+    await this.runtime.databaseAdapter.createVault(vault);
+    return vault;
+  }
+
+  /**
+   * Derives the address of a wallet's vault.
+   * @param wallet - The wallet
+   * @param vaultIndex - The index of the vault
+   */
+  getVaultAddress(wallet: Wallet, vaultIndex: number): PublicKey {
+    return this.getMultiSigService(wallet).getVaultPda(vaultIndex);
+  }
+
+  /**
+   * Finds the index of a vault from its name or its index.
+   * @param wallet - The wallet
+   * @param vault - A vault name, e.g. "savings", or an index, e.g. "2"
+   */
+  async resolveVault(wallet: Wallet, vault: string): Promise<number> {
+    if (/^\d+$/.test(vault)) {
+      const vaultIndex = Number(vault);
+      if (vaultIndex > maxVaultIndex) {
+        throw new Error(
+          `The vault index must be between 0 and ${maxVaultIndex}`
+        );
+      }
+      return vaultIndex;
+    }
+
+    const vaults = await this.runtime.databaseAdapter.getVaults({
+      multisigPda: wallet.multisigPda,
+    });
+    const named = vaults.find((named) => named.name === vault.toLowerCase());
+    if (!named) {
+      throw new Error(`You have no vault named ${vault}`);
+    }
+    return named.vaultIndex;
+  }
+
+  /**
+   * Builds and simulates a transfer out of a vault, so the user can see what it does before it is sent.
+   * @param wallet - The wallet
+   * @param options - The vault, destination wallet, amount in base units and mint (SOL if omitted)
+   */
+  async prepareTransfer(
+    wallet: Wallet,
+    options: Omit<PreparedTransfer, "instructions" | "preview">
+  ): Promise<PreparedTransfer> {
+    const multisigService = this.getMultiSigService(wallet);
+    const instructions = await buildVaultTransfer(this.connection, {
+      vault: multisigService.getVaultPda(options.vaultIndex),
+      destination: options.destination,
+      amount: options.amount,
+      mint: options.mint,
+    });
+    const preview = await multisigService.simulateTx(instructions);
+    return { ...options, instructions, preview };
+  }
+
+  /**
+   * Holds a prepared transfer until the user confirms it, for transfers the agent
+   * decided on rather than the user typed out.
+   * @param wallet - The wallet the transfer is from
+   * @param transfer - The transfer
+   * @param description - What the transfer does, shown once it is confirmed
+   * @returns The id to confirm or cancel the transfer with.
+   */
+  holdTransfer(
+    wallet: Wallet,
+    transfer: PreparedTransfer,
+    description: string
+  ): string {
+    const id = crypto.randomUUID();
+    heldTransfers.set<HeldTransfer>(id, {
+      walletId: wallet.id,
+      description,
+      transfer,
+    });
+    return id;
+  }
+
+  /**
+   * Takes a held transfer out of the hold, so it is confirmed or cancelled only once.
+   * @param wallet - The wallet of the user confirming or cancelling
+   * @param id - The id holdTransfer returned
+   * @returns The transfer, or null if it expired or belongs to another wallet.
+   */
+  takeHeldTransfer(wallet: Wallet, id: string): HeldTransfer | null {
+    const held = heldTransfers.get<HeldTransfer>(id);
+    if (!held || held.walletId !== wallet.id) return null;
+    heldTransfers.del(id);
+    return held;
+  }
+
+  /**
+   * Sends a prepared transfer: right away if a spending limit of the vault covers it,
+   * otherwise as a proposal the owner has to approve.
+   * @param wallet - The wallet
+   * @param transfer - The transfer, which must have simulated successfully
+   * @throws PolicyViolationError if the transfer breaks the transaction policy.
+   * @returns The signature if it was sent, or the index of the proposal if it needs approval.
+   */
+  async submitTransfer(
+    wallet: Wallet,
+    transfer: PreparedTransfer
+  ): Promise<{ signature: string } | { transactionIndex: bigint }> {
+    if (!transfer.preview.success) {
+      throw new Error(
+        `The transfer fails in simulation: ${transfer.preview.error}`
+      );
+    }
+
+    const origin = this.origin ?? { userId: wallet.userId };
+    const spendingLimitService = new SpendingLimitService(
+      this.runtime,
+      this.connection,
+      origin
+    );
+    const spendingLimit = await spendingLimitService.findUsableSpendingLimit(
+      wallet,
+      transfer
+    );
+    if (spendingLimit) {
+      const signature = await spendingLimitService.spend(
+        wallet,
+        spendingLimit.id,
+        transfer.amount,
+        transfer.destination
+      );
+      return { signature };
+    }
+
+    const { transactionIndex } = await new ProposalManager(
+      this.runtime,
+      this.connection,
+      this.getMultiSigService(wallet),
+      origin
+    ).createProposal(transfer.instructions, transfer.vaultIndex);
+    return { transactionIndex };
+  }
+}
+
+export default VaultService;
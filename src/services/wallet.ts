@@ -0,0 +1,156 @@
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
+import MultiSigService from "@/services/multisig";
+import ProposalManager from "@/services/proposals";
+import AuditLog, { type AuditOrigin } from "@/services/audit";
+import { loadKeypair } from "@/services/keys";
+import {
+  loadTransactionSender,
+  type TransactionSender,
+} from "@/services/transactions";
+import { stringToUuid } from "@/core/uuid";
+import { type IAgentRuntime, type UUID, type Wallet } from "@/core/types";
+
+/**
+ * Wallet creation is serialized per user within the process, so two requests
+ * started together can't both find no wallet and each create a multisig.
+ */
+const createQueues = new Map<UUID, Promise<unknown>>();
+
+/**
+ * Creates and looks up the Squads multisig wallet each user shares with the agent.
+ */
+class WalletService {
+  private runtime: IAgentRuntime;
+  private connection: Connection;
+  private feePayer: Keypair;
+  private agent: Keypair;
+  private sender: TransactionSender;
+  private origin?: AuditOrigin;
+
+  /**
+   * Class constructor
+   * @param runtime - The agent runtime, used for settings and persistence
+   * @param connection - The Solana connection object
+   * @param origin - The user and message the wallet's actions come from, recorded in the audit log
+   */
+  constructor(
+    runtime: IAgentRuntime,
+    connection: Connection,
+    origin?: AuditOrigin
+  ) {
+    this.runtime = runtime;
+    this.connection = connection;
+    this.feePayer = loadKeypair(runtime, "FEE_PAYER_KEY");
+    this.agent = loadKeypair(runtime, "AGENT_KEY");
+    this.sender = loadTransactionSender(runtime, connection);
+    this.origin = origin;
+  }
+
+  /**
+   * Finds the wallet of a user.
+   * @param userId - The user's id
+   */
+  async getWallet(userId: UUID): Promise<Wallet | null> {
+    return await this.runtime.databaseAdapter.getWallet({ userId });
+  }
+
+  /**
+   * Returns a MultiSigService operating the wallet of a user.
+   * @param wallet - The user's wallet
+   */
+  getMultiSigService(wallet: Wallet): MultiSigService {
+    return new MultiSigService(
+      this.connection,
+      this.feePayer,
+      this.agent.publicKey,
+      new PublicKey(wallet.createKey)
+    );
+  }
+
+  /**
+   * Returns a ProposalManager for the proposals of a user's wallet. Without an origin,
+   * its actions are attributed to the wallet's user.
+   * @param wallet - The user's wallet
+   */
+  getProposalManager(wallet: Wallet): ProposalManager {
+    return new ProposalManager(
+      this.runtime,
+      this.connection,
+      this.getMultiSigService(wallet),
+      this.origin ?? { userId: wallet.userId }
+    );
+  }
+
+  /**
+   * Creates a multisig with the user's key and the agent as members, and records it as the user's wallet.
+   * @param userId - The user's id
+   * @param owner - The public key the user wants as their member key
+   */
+  async createWallet(userId: UUID, owner: PublicKey): Promise<Wallet> {
+    const previous = createQueues.get(userId) ?? Promise.resolve();
+    const created = previous
+      .catch(() => {})
+      .then(() => this.createUnqueued(userId, owner));
+    createQueues.set(userId, created);
+    return await created;
+  }
+
+  private async createUnqueued(userId: UUID, owner: PublicKey) {
+    const existing = await this.getWallet(userId);
+    if (existing) {
+      throw new Error(`User ${userId} already has a wallet`);
+    }
+
+    const multisigService = new MultiSigService(
+      this.connection,
+      this.feePayer,
+      this.agent.publicKey
+    );
+
+    // Either member can propose and execute, but nothing passes without both votes.
+    // Without a config authority, members, the threshold and spending limits can't
+    // change without both votes either.
+    const { ix, create_key } = await multisigService.createMultiSig({
+      members: [
+        { key: owner, permissions: ["initiate", "vote", "execute"] },
+        {
+          key: this.agent.publicKey,
+          permissions: ["initiate", "vote", "execute"],
+        },
+      ],
+      threshold: 2,
+    });
+
+    await new AuditLog(this.runtime, this.origin ?? { userId }).track(
+      {
+        multisigPda: multisigService.multisigAddress.toBase58(),
+        action: "create_multisig",
+        instructions: [
+          `Create an autonomous 2 of 2 multisig with ${owner.toBase58()} and the agent ${this.agent.publicKey.toBase58()}`,
+        ],
+      },
+      async () => {
+        const { signature } = await this.sender.send([ix], {
+          signers: [create_key],
+        });
+        return signature;
+      }
+    );
+
+    const wallet: Wallet = {
+      id: stringToUuid(multisigService.multisigAddress.toBase58()),
+      userId,
+      owner: owner.toBase58(),
+      createKey: create_key.publicKey.toBase58(),
+      multisigPda: multisigService.multisigAddress.toBase58(),
+      vaultPda: multisigService.vaultPDA!.toBase58(),
+      createdAt: Date.now(),
+    };
+
+    await this.runtime.databaseAdapter.createWallet(wallet);
+
+    return wallet;
+  }
+}
+
+export default WalletService;